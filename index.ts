@@ -1,7 +1,7 @@
 #!/usr/bin/env node
 
 import { program } from 'commander';
-import { report, validate } from './src';
+import { breaking, diff, fix, report, validate, watch } from './src';
 
 program
   .name('spec-score')
@@ -11,25 +11,157 @@ program
 program
   .command('validate')
   .description('Validate an OpenAPI schema file or url link')
-  .argument('<file>', 'Path to the OpenAPI schema file (yaml or json) or URL')
+  .argument(
+    '<file...>',
+    'Paths, URLs, directories or globs of OpenAPI schema files (yaml or json)',
+  )
+  .option('-f, --format <format>', 'Output format: console, json', 'console')
+  .option(
+    '-o, --output <file>',
+    'Output file path (json goes to stdout if omitted)',
+  )
+  .option(
+    '--concurrency <n>',
+    'Specifications validated at the same time in batch mode',
+    '4',
+  )
   .action(validate);
 
 program
   .command('report')
-  .description('Generate a report for an OpenAPI schema file or url link')
-  .argument('<file>', 'Path to the OpenAPI schema file (yaml or json) or URL')
+  .description(
+    'Generate a report for an OpenAPI schema file or url link, or a portfolio report for several',
+  )
+  .argument(
+    '<file...>',
+    'Paths, URLs, directories or globs of OpenAPI schema files (yaml or json)',
+  )
   .option(
     '-f, --format <format>',
-    'Output format: console, markdown, html',
+    'Output format: console, markdown, html, json, sarif, a plugin formatter or a path to a formatter module',
     'console',
   )
   .option(
     '-o, --output <file>',
-    'Output file path (for markdown, html formats)',
-    'report.md',
+    'Output file path (default: report.md, report.html; json and sarif go to stdout)',
+  )
+  .option(
+    '-p, --plugin <path...>',
+    'Load additional evaluators from a plugin module (repeatable)',
+  )
+  .option(
+    '-c, --config <file>',
+    'Config file path (default: discover .specscorerc or specscore.config.*)',
+  )
+  .option(
+    '--ignore-file <file>',
+    'Suppression file mapping JSON Pointers to ignored rules (default: discover .specscoreignore)',
+  )
+  .option(
+    '--baseline <file>',
+    'Only report and fail on findings missing from this baseline file',
+  )
+  .option(
+    '--update-baseline',
+    'Record the current findings in the baseline file (default: .specscore-baseline.json)',
+  )
+  .option(
+    '--by <grouping>',
+    'Score each operation and rank the worst: operation, path, tag',
+  )
+  .option('--min-score <score>', 'Fail (exit 2) if the total score is lower')
+  .option('--min-grade <grade>', 'Fail (exit 2) if the grade is lower')
+  .option(
+    '--min-criterion <criterion=percent...>',
+    'Fail (exit 2) if a criterion scores lower, e.g. "Security=80%"',
+  )
+  .option(
+    '--fail-on <severity>',
+    'Fail (exit 3) on findings of this severity or worse: error, warn, hint',
+  )
+  .option(
+    '--concurrency <n>',
+    'Specifications scored at the same time in batch mode',
+    '4',
   )
   .action(report);
 
+program
+  .command('diff')
+  .description('Compare the scores and contract of two versions of a schema')
+  .argument('<old>', 'Path or URL of the base OpenAPI schema')
+  .argument('<new>', 'Path or URL of the changed OpenAPI schema')
+  .option(
+    '-f, --format <format>',
+    'Output format: console, markdown, json',
+    'console',
+  )
+  .option(
+    '-o, --output <file>',
+    'Output file path (markdown and json go to stdout if omitted)',
+  )
+  .option(
+    '-c, --config <file>',
+    'Config file path (default: discover .specscorerc or specscore.config.*)',
+  )
+  .action(diff);
+
+program
+  .command('breaking')
+  .description('Detect breaking changes between two versions of a schema')
+  .argument('<base>', 'Path or URL of the base OpenAPI schema')
+  .argument('<head>', 'Path or URL of the changed OpenAPI schema')
+  .option(
+    '-f, --format <format>',
+    'Output format: console, markdown, json',
+    'console',
+  )
+  .option(
+    '-o, --output <file>',
+    'Output file path (markdown and json go to stdout if omitted)',
+  )
+  .action(breaking);
+
+program
+  .command('watch')
+  .description('Re-validate and re-score a schema file whenever it changes')
+  .argument('<file>', 'Path to the OpenAPI schema file (yaml or json)')
+  .option('--html <file>', 'Regenerate an HTML report after every change')
+  .option(
+    '-p, --plugin <path...>',
+    'Load additional evaluators from a plugin module (repeatable)',
+  )
+  .option(
+    '-c, --config <file>',
+    'Config file path (default: discover .specscorerc or specscore.config.*)',
+  )
+  .option(
+    '--ignore-file <file>',
+    'Suppression file mapping JSON Pointers to ignored rules (default: discover .specscoreignore)',
+  )
+  .action(watch);
+
+program
+  .command('fix')
+  .description(
+    'Apply mechanical fixes to a schema file, keeping its formatting and comments',
+  )
+  .argument('<file>', 'Path to the OpenAPI schema file (yaml or json)')
+  .option(
+    '--fix <id...>',
+    'Fixes to apply: operation-ids, declare-tags, error-responses, path-case (default: all but path-case)',
+  )
+  .option('--dry-run', 'Print a unified diff instead of writing the file')
+  .option(
+    '-c, --config <file>',
+    'Config file path (default: discover .specscorerc or specscore.config.*)',
+  )
+  .option(
+    '--ignore-file <file>',
+    'Suppression file mapping JSON Pointers to ignored rules (default: discover .specscoreignore)',
+  )
+  .action(fix);
+
 program.parse(process.argv);
 
 // gracefully handle shutdown
@@ -0,0 +1,93 @@
+import { writeFile } from 'node:fs/promises';
+import consola from 'consola';
+import { isAsyncAPI } from '../lib/asyncapi';
+import {
+  detectSpecChanges,
+  formatChangesMarkdown,
+  getUnapprovedBreakingChanges,
+  printChanges,
+} from '../lib/breaking';
+import { GATE_EXIT_CODES } from '../lib/gates';
+import { toJsonBreakingReport, writeJsonReport } from '../lib/json-report';
+import { OpenAPIParser } from '../lib/parser';
+
+const FORMATS = ['console', 'markdown', 'json'];
+
+interface BreakingOptions {
+  format?: 'console' | 'markdown' | 'json';
+  output?: string;
+}
+
+/**
+ * Detects breaking changes between two versions of an OpenAPI specification
+ * @param baseSource - File path or URL to the base specification
+ * @param headSource - File path or URL to the changed specification
+ * @param options - Output format and destination
+ * @returns Promise<void>
+ */
+export async function breaking(
+  baseSource: string,
+  headSource: string,
+  options: BreakingOptions = {},
+): Promise<void> {
+  const format = options.format || 'console';
+
+  if (!FORMATS.includes(format)) {
+    consola.error(
+      `Invalid --format value "${format}". Use one of: ${FORMATS.join(', ')}`,
+    );
+    process.exit(1);
+  }
+
+  // Keep stdout parseable: only warnings and errors, which go to stderr
+  if (format !== 'console' && !options.output) {
+    consola.level = 1;
+  }
+
+  consola.start(`Checking ${headSource} for breaking changes`);
+  consola.log('='.repeat(60));
+
+  let unapproved = 0;
+  try {
+    const parser = new OpenAPIParser();
+    const base = await parser.load(baseSource);
+    const head = await parser.load(headSource);
+    if (isAsyncAPI(base.document) || isAsyncAPI(head.document)) {
+      throw new Error(
+        'Breaking change detection supports OpenAPI documents only',
+      );
+    }
+
+    const changes = detectSpecChanges(base, head);
+    unapproved = getUnapprovedBreakingChanges(changes).length;
+
+    switch (format) {
+      case 'markdown': {
+        const markdown = formatChangesMarkdown(changes, baseSource, headSource);
+        if (options.output) {
+          await writeFile(options.output, markdown, 'utf-8');
+          consola.success(`📄 Markdown report generated: ${options.output}`);
+        } else {
+          process.stdout.write(markdown);
+        }
+        break;
+      }
+      case 'json':
+        await writeJsonReport(
+          toJsonBreakingReport(changes, baseSource, headSource),
+          options.output,
+        );
+        break;
+      default:
+        printChanges(changes);
+    }
+  } catch (error) {
+    consola.error('Unexpected error during breaking change detection:');
+    consola.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  if (unapproved > 0) {
+    process.exit(GATE_EXIT_CODES.breaking);
+  }
+}
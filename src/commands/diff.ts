@@ -0,0 +1,89 @@
+import { writeFile } from 'node:fs/promises';
+import consola from 'consola';
+import { findConfig, loadConfig } from '../lib/config';
+import { diffSpecs, formatDiffMarkdown, printDiff } from '../lib/diff';
+import { toJsonDiffReport, writeJsonReport } from '../lib/json-report';
+import { silentProgress } from '../lib/progress';
+import { OpenAPIScorer } from '../lib/reporter';
+
+const FORMATS = ['console', 'markdown', 'json'];
+
+interface DiffOptions {
+  format?: 'console' | 'markdown' | 'json';
+  output?: string;
+  config?: string;
+}
+
+/**
+ * Compares the scores, findings and contract of two versions of an OpenAPI
+ * specification
+ * @param oldSource - File path or URL to the base specification
+ * @param newSource - File path or URL to the changed specification
+ * @param options - Output format and destination
+ * @returns Promise<void>
+ */
+export async function diff(
+  oldSource: string,
+  newSource: string,
+  options: DiffOptions = {},
+): Promise<void> {
+  const format = options.format || 'console';
+
+  if (!FORMATS.includes(format)) {
+    consola.error(
+      `Invalid --format value "${format}". Use one of: ${FORMATS.join(', ')}`,
+    );
+    process.exit(1);
+  }
+
+  // Keep stdout parseable: only warnings and errors, which go to stderr
+  if (format !== 'console' && !options.output) {
+    consola.level = 1;
+  }
+
+  consola.start(`Comparing ${oldSource} with ${newSource}`);
+  consola.log('='.repeat(60));
+
+  try {
+    const configPath = options.config ?? (await findConfig());
+    const config = configPath ? await loadConfig(configPath) : undefined;
+    if (configPath) {
+      consola.info(`Using config ${configPath}`);
+    }
+
+    const scorer = new OpenAPIScorer({
+      config,
+      delays: false,
+      onProgress: silentProgress,
+    });
+    const oldResult = await scorer.scoreSpec(oldSource);
+    const newResult = await scorer.scoreSpec(newSource);
+    const result = diffSpecs(oldResult, newResult);
+
+    switch (format) {
+      case 'markdown': {
+        const markdown = formatDiffMarkdown(result);
+        if (options.output) {
+          await writeFile(options.output, markdown, 'utf-8');
+          consola.success(`📄 Markdown diff generated: ${options.output}`);
+        } else {
+          process.stdout.write(markdown);
+        }
+        break;
+      }
+      case 'json':
+        await writeJsonReport(
+          toJsonDiffReport(result),
+          options.output,
+          'JSON diff',
+        );
+        break;
+      default:
+        printDiff(result);
+    }
+  } catch (error) {
+    consola.error('Unexpected error during diff:');
+    consola.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
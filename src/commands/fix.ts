@@ -0,0 +1,110 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import chalk from 'chalk';
+import consola from 'consola';
+import { load } from 'js-yaml';
+import type { SpecDocument } from '../lib/asyncapi';
+import { findConfig, loadConfig } from '../lib/config';
+import { applyFixes, DEFAULT_FIXES, FIXES, type FixId } from '../lib/fixes';
+import { silentProgress } from '../lib/progress';
+import { OpenAPIScorer } from '../lib/reporter';
+import { findIgnoreFile, loadIgnoreFile } from '../lib/suppressions';
+import { formatUnifiedDiff } from '../lib/unified-diff';
+
+interface FixOptions {
+  fix?: string[];
+  dryRun?: boolean;
+  config?: string;
+  ignoreFile?: string;
+}
+
+const formatDelta = (delta: number) => {
+  const rounded = Math.round(delta * 10) / 10;
+  if (rounded > 0) return chalk.green(`+${rounded}`);
+  if (rounded < 0) return chalk.red(`${rounded}`);
+  return chalk.gray('±0');
+};
+
+/**
+ * Applies mechanical fixes to an OpenAPI 3 specification file in place,
+ * keeping its formatting and comments, and reports the score gained
+ * @param source - Path to the YAML or JSON specification
+ * @param options - Fixes to apply and whether to only print the diff
+ * @returns Promise<void>
+ */
+export async function fix(
+  source: string,
+  options: FixOptions = {},
+): Promise<void> {
+  if (source.startsWith('https://') || source.startsWith('http://')) {
+    consola.error('Only local files can be fixed');
+    process.exit(1);
+  }
+
+  const ids = FIXES.map((definition) => definition.id);
+  const unknown = (options.fix ?? []).filter(
+    (id) => !ids.includes(id as FixId),
+  );
+  if (unknown.length > 0) {
+    consola.error(
+      `Unknown fix "${unknown.join('", "')}". Use one of: ${ids.join(', ')}`,
+    );
+    process.exit(1);
+  }
+  const fixes = (options.fix as FixId[] | undefined) ?? DEFAULT_FIXES;
+
+  try {
+    const configPath = options.config ?? (await findConfig());
+    const config = configPath ? await loadConfig(configPath) : undefined;
+    const ignoreFile = options.ignoreFile ?? (await findIgnoreFile());
+    const suppressions = ignoreFile
+      ? await loadIgnoreFile(ignoreFile)
+      : undefined;
+    const scorer = new OpenAPIScorer({
+      config,
+      suppressions,
+      delays: false,
+      onProgress: silentProgress,
+    });
+
+    const before = await scorer.scoreSpec(source);
+    const result = applyFixes(await readFile(source, 'utf-8'), fixes);
+
+    if (result.applied.length === 0) {
+      consola.success(`Nothing to fix in ${source}`);
+      return;
+    }
+
+    for (const applied of result.applied) {
+      consola.log(`  ${chalk.green('✔')} ${applied.message}`);
+    }
+
+    let after: typeof before;
+    if (options.dryRun) {
+      process.stdout.write(
+        `\n${formatUnifiedDiff(result.original, result.fixed, basename(source))}\n`,
+      );
+      after = await scorer.scoreDocument(
+        load(result.fixed) as SpecDocument,
+        source,
+      );
+    } else {
+      await writeFile(source, result.fixed, 'utf-8');
+      after = await scorer.scoreSpec(source);
+    }
+
+    consola.log(
+      `${chalk.bold(`Score: ${before.totalScore} → ${after.totalScore}`)} (${before.grade} → ${after.grade}) ${formatDelta(after.totalScore - before.totalScore)}`,
+    );
+    if (options.dryRun) {
+      consola.info(
+        `Dry run: ${result.applied.length} fix(es) not written to ${source}`,
+      );
+    } else {
+      consola.success(`Applied ${result.applied.length} fix(es) to ${source}`);
+    }
+  } catch (error) {
+    consola.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
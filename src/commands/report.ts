@@ -1,52 +1,372 @@
+import { writeFile } from 'node:fs/promises';
 import consola from 'consola';
-import { OpenAPIScorer } from '../lib/reporter';
+import {
+  applyBaseline,
+  type Baseline,
+  createBaseline,
+  DEFAULT_BASELINE_FILE,
+  loadBaseline,
+  writeBaseline,
+} from '../lib/baseline';
+import {
+  type BatchInputs,
+  DEFAULT_CONCURRENCY,
+  expandInputs,
+  mapConcurrent,
+} from '../lib/batch';
+import { BREAKDOWN_GROUPINGS, type BreakdownGrouping } from '../lib/breakdown';
+import {
+  DEFAULT_GRADES,
+  findConfig,
+  loadConfig,
+  type SpecScoreConfig,
+} from '../lib/config';
+import {
+  BUILTIN_FORMATTERS,
+  isFormatterPath,
+  loadFormatter,
+  type ReportFormatter,
+  writeReport,
+} from '../lib/formatters';
+import {
+  checkGates,
+  type FailOnSeverity,
+  type GateFailure,
+  gateExitCode,
+  parseCriterionMinimum,
+  type QualityGates,
+  validateGates,
+} from '../lib/gates';
+import { toJsonPortfolioReport, writeJsonReport } from '../lib/json-report';
+import { loadPlugin } from '../lib/plugins';
+import {
+  type BatchOutcome,
+  buildPortfolio,
+  formatPortfolioHtml,
+  formatPortfolioMarkdown,
+  printPortfolio,
+} from '../lib/portfolio';
+import { silentProgress } from '../lib/progress';
+import { OpenAPIScorer, type ScorerOptions } from '../lib/reporter';
+import { findIgnoreFile, loadIgnoreFile } from '../lib/suppressions';
+
+/** Formats a portfolio report can be written in */
+const PORTFOLIO_FORMATS = ['console', 'markdown', 'html', 'json'];
 
 interface ReportOptions {
-  format?: 'console' | 'markdown' | 'html';
+  /** A built-in format, a plugin formatter or a path to a formatter module */
+  format?: string;
   output?: string;
+  plugin?: string[];
+  config?: string;
+  ignoreFile?: string;
+  baseline?: string;
+  updateBaseline?: boolean;
+  by?: BreakdownGrouping;
+  minScore?: string | number;
+  minGrade?: string;
+  minCriterion?: string[];
+  failOn?: FailOnSeverity;
+  concurrency?: string | number;
 }
 
 /**
- * Generates a detailed scoring report for an OpenAPI specification
- * @param source - File path or URL to the OpenAPI specification
- * @param options - Report generation options
- * @returns Promise<void>
+ * Create a scorer with the discovered or given config, ignore file and
+ * plugins
  */
-export async function report(
-  source: string,
-  options: ReportOptions = {},
+async function createScorer(
+  options: ReportOptions,
+  scorerOptions: Pick<ScorerOptions, 'delays' | 'onProgress'> = {},
+): Promise<{ scorer: OpenAPIScorer; config?: SpecScoreConfig }> {
+  const configPath = options.config ?? (await findConfig());
+  const config = configPath ? await loadConfig(configPath) : undefined;
+  if (configPath) {
+    consola.info(`Using config ${configPath}`);
+  }
+
+  const ignoreFile = options.ignoreFile ?? (await findIgnoreFile());
+  const suppressions = ignoreFile
+    ? await loadIgnoreFile(ignoreFile)
+    : undefined;
+  if (ignoreFile) {
+    consola.info(`Using ignore file ${ignoreFile}`);
+  }
+
+  const scorer = new OpenAPIScorer({
+    config,
+    suppressions,
+    ...scorerOptions,
+  });
+
+  for (const pluginPath of options.plugin ?? []) {
+    const plugin = await loadPlugin(pluginPath);
+    scorer.use(plugin);
+    consola.info(
+      `Loaded plugin ${plugin.name} (${plugin.evaluators.length} evaluator(s))`,
+    );
+  }
+
+  return { scorer, config };
+}
+
+/**
+ * Print failed quality gates and exit with the matching code
+ */
+function exitOnGateFailures(
+  failures: GateFailure[],
+  gates: QualityGates,
+): void {
+  if (failures.length > 0) {
+    consola.error(`Quality gates failed (${failures.length}):`);
+    failures.forEach((failure) => {
+      consola.error(`  ✗ [${failure.gate}] ${failure.message}`);
+    });
+    process.exit(gateExitCode(failures));
+  }
+
+  if (Object.values(gates).some((gate) => gate !== undefined)) {
+    consola.success('All quality gates passed');
+  }
+}
+
+/**
+ * Score several specifications concurrently and write a portfolio report.
+ * Quality gates apply to every specification.
+ */
+async function reportPortfolio(
+  sources: string[],
+  options: ReportOptions,
+  format: string,
+  output: string | undefined,
+  gates: QualityGates,
 ): Promise<void> {
   const startTime = Date.now();
-  const scorer = new OpenAPIScorer();
-  const format = options.format || 'console';
+  const unsupported = [
+    !PORTFOLIO_FORMATS.includes(format) && `--format ${format}`,
+    options.baseline && '--baseline',
+    options.updateBaseline && '--update-baseline',
+    options.by && '--by',
+  ].filter(Boolean);
+  if (unsupported.length > 0) {
+    consola.error(
+      `${unsupported.join(', ')} cannot be used with several specifications`,
+    );
+    process.exit(1);
+  }
 
-  if ((format === 'markdown' || format === 'html') && !options.output) {
-    consola.error('Output file path is required for markdown and html formats');
-    consola.info('Use: --output <file> or -o <file>');
+  const concurrency = Number(options.concurrency ?? DEFAULT_CONCURRENCY);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    consola.error('--concurrency must be a positive integer');
     process.exit(1);
   }
 
   consola.start(
-    `Generating ${format} report for OpenAPI specification: ${source}`,
+    `Generating ${format} portfolio report for ${sources.length} specifications`,
   );
   consola.log('='.repeat(60));
 
+  let outcomes: BatchOutcome[] = [];
   try {
-    const result = await scorer.scoreSpec(source);
+    // Runs overlap, so the pauses and per-step progress of `report` are off
+    const { scorer, config } = await createScorer(options, {
+      delays: false,
+      onProgress: silentProgress,
+    });
+    outcomes = await mapConcurrent(sources, concurrency, async (source) => {
+      try {
+        return { source, result: await scorer.scoreSpec(source) };
+      } catch (error) {
+        return {
+          source,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    });
+
+    const portfolio = buildPortfolio(outcomes, {
+      ...DEFAULT_GRADES,
+      ...config?.grades,
+    });
 
     switch (format) {
       case 'markdown':
-        await scorer.generateMarkdownReport(result, options.output ?? '');
+        await writeFile(
+          output ?? '',
+          formatPortfolioMarkdown(portfolio),
+          'utf-8',
+        );
+        consola.success(`📄 Markdown portfolio report generated: ${output}`);
         break;
       case 'html':
-        await scorer.generateHtmlReport(result, options.output ?? '');
+        await writeFile(output ?? '', formatPortfolioHtml(portfolio), 'utf-8');
+        consola.success(`🌐 HTML portfolio report generated: ${output}`);
+        break;
+      case 'json':
+        await writeJsonReport(
+          toJsonPortfolioReport(portfolio),
+          output,
+          'JSON portfolio report',
+        );
         break;
       default:
-        scorer.printScoringResult(result, Date.now() - startTime);
+        printPortfolio(portfolio, Date.now() - startTime);
     }
   } catch (error) {
     consola.error('Unexpected error during report generation:');
     consola.error(error instanceof Error ? error.message : String(error));
     process.exit(1);
   }
+
+  const failed = outcomes.filter((outcome) => !outcome.result);
+  if (failed.length > 0) {
+    consola.error(`${failed.length} specification(s) could not be scored`);
+    process.exit(1);
+  }
+
+  exitOnGateFailures(
+    outcomes.flatMap(({ source, result }) =>
+      result
+        ? checkGates(result, gates).map((failure) => ({
+            ...failure,
+            message: `${source}: ${failure.message}`,
+          }))
+        : [],
+    ),
+    gates,
+  );
+}
+
+/**
+ * Generates a detailed scoring report for an OpenAPI or AsyncAPI
+ * specification, or a portfolio report when several specifications, a
+ * directory or a glob are given
+ * @param input - File paths, URLs, directories or globs of specifications
+ * @param options - Report generation options
+ * @returns Promise<void>
+ */
+export async function report(
+  input: string | string[],
+  options: ReportOptions = {},
+): Promise<void> {
+  const startTime = Date.now();
+  const format = options.format || 'console';
+
+  let formatter: ReportFormatter | undefined;
+  try {
+    formatter = isFormatterPath(format)
+      ? await loadFormatter(format)
+      : BUILTIN_FORMATTERS.find((builtin) => builtin.name === format);
+  } catch (error) {
+    consola.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  // Plugin formatters are looked up once the plugins are loaded
+  if (!formatter && format !== 'console' && !options.plugin?.length) {
+    consola.error(
+      `Invalid --format value "${format}". Use one of: console, ${BUILTIN_FORMATTERS.map(
+        (builtin) => builtin.name,
+      ).join(', ')}, or a path to a formatter module`,
+    );
+    process.exit(1);
+  }
+  const output = options.output ?? formatter?.defaultOutput;
+
+  // Keep stdout parseable: only warnings and errors, which go to stderr
+  if (format !== 'console' && !output) {
+    consola.level = 1;
+  }
+
+  if (options.by && !BREAKDOWN_GROUPINGS.includes(options.by)) {
+    consola.error(
+      `Invalid --by value "${options.by}". Use one of: ${BREAKDOWN_GROUPINGS.join(', ')}`,
+    );
+    process.exit(1);
+  }
+
+  let gates: QualityGates;
+  try {
+    gates = {
+      minScore:
+        options.minScore === undefined ? undefined : Number(options.minScore),
+      minGrade: options.minGrade?.toUpperCase(),
+      minCriteria: options.minCriterion?.map(parseCriterionMinimum),
+      failOn: options.failOn,
+    };
+    validateGates(gates);
+  } catch (error) {
+    consola.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  let inputs: BatchInputs;
+  try {
+    inputs = await expandInputs([input].flat());
+  } catch (error) {
+    consola.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  if (inputs.batch) {
+    return reportPortfolio(inputs.sources, options, format, output, gates);
+  }
+
+  const [source = ''] = inputs.sources;
+  consola.start(`Generating ${format} report for API specification: ${source}`);
+  consola.log('='.repeat(60));
+
+  let failures: GateFailure[] = [];
+  try {
+    const { scorer } = await createScorer(options);
+    if (!formatter && format !== 'console') {
+      formatter = scorer.getFormatter(format);
+      if (!formatter) {
+        throw new Error(
+          `Invalid --format value "${format}". Use one of: console, ${scorer.formats.join(', ')}, or a path to a formatter module`,
+        );
+      }
+    }
+
+    const baselinePath =
+      options.baseline ??
+      (options.updateBaseline ? DEFAULT_BASELINE_FILE : undefined);
+    let baseline: Baseline | undefined;
+    if (baselinePath && !options.updateBaseline) {
+      baseline = await loadBaseline(baselinePath);
+    }
+
+    let result = await scorer.scoreSpec(source, { by: options.by });
+
+    if (baselinePath) {
+      if (options.updateBaseline) {
+        baseline = createBaseline(result);
+        await writeBaseline(baseline, baselinePath);
+      }
+      if (baseline) {
+        const filtered = applyBaseline(result, baseline);
+        result = filtered.result;
+        consola.info(
+          `${filtered.known.length} known finding(s) hidden by baseline ${baselinePath}`,
+        );
+      }
+    }
+
+    if (formatter) {
+      await writeReport(
+        await scorer.formatReport(result, formatter),
+        output ?? formatter.defaultOutput,
+        formatter.label ?? `${formatter.name} report`,
+      );
+    } else {
+      scorer.printScoringResult(result, Date.now() - startTime);
+    }
+
+    failures = checkGates(result, gates);
+  } catch (error) {
+    consola.error('Unexpected error during report generation:');
+    consola.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  exitOnGateFailures(failures, gates);
 }
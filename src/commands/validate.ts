@@ -1,22 +1,145 @@
+import chalk from 'chalk';
 import consola from 'consola';
+import {
+  type BatchInputs,
+  DEFAULT_CONCURRENCY,
+  expandInputs,
+  mapConcurrent,
+} from '../lib/batch';
+import {
+  toJsonValidationBatchReport,
+  toJsonValidationReport,
+  writeJsonReport,
+} from '../lib/json-report';
+import { silentProgress } from '../lib/progress';
 import { OpenAPIValidator } from '../lib/validator';
 
+interface ValidateOptions {
+  format?: 'console' | 'json';
+  output?: string;
+  concurrency?: string | number;
+}
+
 /**
- * Validates an OpenAPI specification using swagger-parser
- * @param source - File path or URL to the OpenAPI specification
+ * Validate several specifications concurrently and print one line per
+ * specification, or a batch JSON report
+ */
+async function validateMany(
+  sources: string[],
+  options: ValidateOptions,
+  format: string,
+): Promise<void> {
+  const startTime = Date.now();
+  const concurrency = Number(options.concurrency ?? DEFAULT_CONCURRENCY);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    consola.error('--concurrency must be a positive integer');
+    process.exit(1);
+  }
+
+  consola.start(`Validating ${sources.length} API specifications`);
+  consola.log('='.repeat(60));
+
+  // Runs overlap, so the pauses and per-step progress of `validate` are off
+  const validator = new OpenAPIValidator({
+    delays: false,
+    onProgress: silentProgress,
+  });
+  const results = await mapConcurrent(sources, concurrency, async (source) => ({
+    source,
+    result: await validator.validateSpec(source),
+  }));
+  const invalid = results.filter(({ result }) => !result.isValid);
+
+  try {
+    if (format === 'json') {
+      await writeJsonReport(
+        toJsonValidationBatchReport(results),
+        options.output,
+        'JSON validation report',
+      );
+    } else {
+      results.forEach(({ source, result }) => {
+        consola.log(
+          result.isValid
+            ? `   ${chalk.green('✔')} ${source} ${chalk.gray(
+                `${result.warnings.length} warning(s)`,
+              )}`
+            : `   ${chalk.red('✗')} ${source} ${chalk.red(
+                `${result.errors.length} error(s)`,
+              )} ${chalk.gray(result.errors[0] ?? '')}`,
+        );
+      });
+      consola.log('');
+      const summary = `${results.length - invalid.length}/${results.length} specifications are valid (${Date.now() - startTime}ms)`;
+      if (invalid.length > 0) {
+        consola.fail(summary);
+      } else {
+        consola.success(summary);
+      }
+    }
+  } catch (error) {
+    consola.error('Unexpected error during validation:');
+    consola.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  if (invalid.length > 0) process.exit(1);
+}
+
+/**
+ * Validates an OpenAPI specification using swagger-parser, or the structure
+ * of an AsyncAPI specification. Several specifications, a directory or a glob
+ * are validated concurrently.
+ * @param input - File paths, URLs, directories or globs of specifications
+ * @param options - Output format and destination
  * @returns Promise<void>
  */
-export async function validate(source: string): Promise<void> {
+export async function validate(
+  input: string | string[],
+  options: ValidateOptions = {},
+): Promise<void> {
   const startTime = Date.now();
+  const format = options.format || 'console';
   const validator = new OpenAPIValidator();
 
-  consola.start(`Validating OpenAPI specification: ${source}`);
+  if (format !== 'console' && format !== 'json') {
+    consola.error(
+      `Invalid --format value "${format}". Use one of: console, json`,
+    );
+    process.exit(1);
+  }
+
+  // Keep stdout parseable: only warnings and errors, which go to stderr
+  if (format === 'json' && !options.output) {
+    consola.level = 1;
+  }
+
+  let inputs: BatchInputs;
+  try {
+    inputs = await expandInputs([input].flat());
+  } catch (error) {
+    consola.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  if (inputs.batch) {
+    return validateMany(inputs.sources, options, format);
+  }
+
+  const [source = ''] = inputs.sources;
+  consola.start(`Validating API specification: ${source}`);
   consola.log('='.repeat(60));
 
   try {
     const result = await validator.validateSpec(source);
 
-    if (result.isValid) {
+    if (format === 'json') {
+      await writeJsonReport(
+        toJsonValidationReport(result, source),
+        options.output,
+      );
+      if (!result.isValid) process.exit(1);
+    } else if (result.isValid) {
       validator.printSuccessResult(result, Date.now() - startTime);
     } else {
       validator.printErrorResult(result, Date.now() - startTime);
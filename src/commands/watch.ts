@@ -0,0 +1,77 @@
+import consola from 'consola';
+import { findConfig, loadConfig } from '../lib/config';
+import { loadPlugin } from '../lib/plugins';
+import { silentProgress } from '../lib/progress';
+import { OpenAPIScorer } from '../lib/reporter';
+import { findIgnoreFile, loadIgnoreFile } from '../lib/suppressions';
+import { OpenAPIValidator } from '../lib/validator';
+import { formatWatchSummary, SpecWatcher } from '../lib/watch';
+
+interface WatchOptions {
+  html?: string;
+  plugin?: string[];
+  config?: string;
+  ignoreFile?: string;
+}
+
+/**
+ * Re-validates and re-scores a specification whenever it or a file it
+ * `$ref`s changes, without the pauses of the `report` command
+ * @param source - Path to the OpenAPI or AsyncAPI specification
+ * @param options - Scoring options and an optional HTML report to regenerate
+ * @returns Promise<void> - Resolves once watching has started
+ */
+export async function watch(
+  source: string,
+  options: WatchOptions = {},
+): Promise<void> {
+  let watcher: SpecWatcher;
+  try {
+    const configPath = options.config ?? (await findConfig());
+    const config = configPath ? await loadConfig(configPath) : undefined;
+    const ignoreFile = options.ignoreFile ?? (await findIgnoreFile());
+    const suppressions = ignoreFile
+      ? await loadIgnoreFile(ignoreFile)
+      : undefined;
+
+    const scorer = new OpenAPIScorer({
+      config,
+      suppressions,
+      delays: false,
+      onProgress: silentProgress,
+    });
+    for (const pluginPath of options.plugin ?? []) {
+      scorer.use(await loadPlugin(pluginPath));
+    }
+
+    watcher = new SpecWatcher(source, {
+      scorer,
+      validator: new OpenAPIValidator({
+        delays: false,
+        onProgress: silentProgress,
+      }),
+      onRun: async (run) => {
+        if (run.result && options.html) {
+          await scorer.generateHtmlReport(run.result, options.html);
+        }
+
+        console.clear();
+        console.log(formatWatchSummary(run, source));
+        if (run.result && options.html) {
+          console.log(`HTML report: ${options.html}`);
+        }
+        console.log('\nWaiting for changes... (Ctrl+C to exit)');
+      },
+      onError: (error) => {
+        consola.error(error instanceof Error ? error.message : String(error));
+      },
+    });
+  } catch (error) {
+    consola.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  // Report messages would scroll the summary away; keep warnings and errors
+  consola.level = 1;
+  await watcher.start();
+}
@@ -1,2 +1,190 @@
+export { breaking } from './commands/breaking';
+export { diff } from './commands/diff';
+export { fix } from './commands/fix';
 export { report } from './commands/report';
 export { validate } from './commands/validate';
+export { watch } from './commands/watch';
+export {
+  type ApiOptions,
+  type ScoreOptions,
+  scoreSpec,
+  validateSpec,
+} from './lib/api';
+export {
+  type AsyncAPIDocument,
+  type AsyncAPIMessageEntry,
+  type AsyncAPIOperationEntry,
+  formatSpecVersion,
+  getAsyncMessages,
+  getAsyncOperations,
+  isAsyncAPI,
+  type SpecDocument,
+  SUPPORTED_ASYNCAPI_VERSIONS,
+} from './lib/asyncapi';
+export { AsyncAPIEvaluators } from './lib/asyncapi-evaluators';
+export {
+  applyBaseline,
+  BASELINE_VERSION,
+  type Baseline,
+  type BaselineEntry,
+  createBaseline,
+  loadBaseline,
+} from './lib/baseline';
+export {
+  type BatchInputs,
+  DEFAULT_CONCURRENCY,
+  expandInputs,
+  mapConcurrent,
+} from './lib/batch';
+export type {
+  BreakdownEntry,
+  BreakdownGrouping,
+  OperationCheck,
+  ScoreBreakdown,
+} from './lib/breakdown';
+export {
+  APPROVED_CHANGES_EXTENSION,
+  type ChangeKind,
+  type ContractChange,
+  detectChanges,
+  detectSpecChanges,
+} from './lib/breaking';
+export {
+  type CriterionConfig,
+  defineConfig,
+  findConfig,
+  type GradeThresholds,
+  gradeFor,
+  loadConfig,
+  type SpecScoreConfig,
+} from './lib/config';
+export {
+  type ChangeSet,
+  type CriterionDelta,
+  diffSpecs,
+  type SpecDiff,
+} from './lib/diff';
+export type { CriteriaScore, EvaluatorThresholds } from './lib/evaluators';
+export {
+  createCriteriaScore,
+  type Finding,
+  type FindingTarget,
+  type Severity,
+} from './lib/findings';
+export {
+  type AppliedFix,
+  applyFixes,
+  DEFAULT_FIXES,
+  FIXES,
+  type FixDefinition,
+  type FixId,
+  type FixResult,
+} from './lib/fixes';
+export {
+  BUILTIN_FORMATTERS,
+  defineFormatter,
+  type FormatterContext,
+  type FormatterOutput,
+  formatHtmlReport,
+  formatMarkdownReport,
+  loadFormatter,
+  type ReportFormatter,
+} from './lib/formatters';
+export {
+  type CriterionMinimum,
+  checkGates,
+  GATE_EXIT_CODES,
+  type GateFailure,
+  type QualityGates,
+} from './lib/gates';
+export {
+  JSON_REPORT_VERSION,
+  type JsonApiInfo,
+  type JsonBreakingReport,
+  type JsonDiffReport,
+  type JsonPortfolioReport,
+  type JsonScoringReport,
+  type JsonValidationBatchReport,
+  type JsonValidationReport,
+  toJsonBreakingReport,
+  toJsonDiffReport,
+  toJsonPortfolioReport,
+  toJsonScoringReport,
+  toJsonValidationBatchReport,
+  toJsonValidationReport,
+} from './lib/json-report';
+export {
+  CASINGS,
+  type Casing,
+  DEFAULT_NAMING,
+  hasCasing,
+  inferCasing,
+  type NamingConvention,
+  type NamingConventions,
+  toCasing,
+} from './lib/naming';
+export {
+  type CriteriaEvaluator,
+  definePlugin,
+  type EvaluationContext,
+  loadPlugin,
+  type ScorerPlugin,
+} from './lib/plugins';
+export {
+  type BatchOutcome,
+  buildPortfolio,
+  formatPortfolioHtml,
+  formatPortfolioMarkdown,
+  PORTFOLIO_WORST_COUNT,
+  type Portfolio,
+  type PortfolioCriterion,
+  type PortfolioEntry,
+  printPortfolio,
+} from './lib/portfolio';
+export {
+  logProgress,
+  type ProgressEvent,
+  type ProgressListener,
+  silentProgress,
+} from './lib/progress';
+export {
+  OpenAPIScorer,
+  type ScorerOptions,
+  type ScoreSpecOptions,
+  type ScoringResult,
+} from './lib/reporter';
+export { BUILTIN_RULES, type RuleDefinition } from './lib/rules';
+export {
+  SARIF_VERSION,
+  type SarifLog,
+  type SarifResult,
+  type SarifRule,
+  toSarifLog,
+} from './lib/sarif';
+export {
+  findIgnoreFile,
+  IGNORE_EXTENSION,
+  loadIgnoreFile,
+  type SuppressedFinding,
+  type Suppression,
+  Suppressions,
+} from './lib/suppressions';
+export {
+  type ConvertedSpec,
+  convertSwagger2,
+  isSwagger2,
+  type SpecConversion,
+  UPGRADED_OPENAPI_VERSION,
+} from './lib/swagger2';
+export { formatUnifiedDiff } from './lib/unified-diff';
+export {
+  OpenAPIValidator,
+  type ValidationResult,
+  type ValidatorOptions,
+} from './lib/validator';
+export {
+  formatWatchSummary,
+  SpecWatcher,
+  type SpecWatcherOptions,
+  type WatchRun,
+} from './lib/watch';
@@ -0,0 +1,73 @@
+import type { SpecDocument } from './asyncapi';
+import { type ProgressListener, silentProgress } from './progress';
+import {
+  OpenAPIScorer,
+  type ScorerOptions,
+  type ScoreSpecOptions,
+  type ScoringResult,
+} from './reporter';
+import { OpenAPIValidator, type ValidationResult } from './validator';
+
+/**
+ * Options shared by `scoreSpec` and `validateSpec`
+ */
+export interface ApiOptions {
+  /**
+   * Names an in-memory document in results and findings; its relative
+   * `$ref`s resolve against it (default: `<document>`). Ignored for paths.
+   */
+  source?: string;
+  /** Receives every step of the run; nothing is logged either way */
+  onProgress?: ProgressListener;
+}
+
+/**
+ * Options accepted by `scoreSpec`
+ */
+export interface ScoreOptions
+  extends ApiOptions,
+    ScoreSpecOptions,
+    Omit<ScorerOptions, 'delays' | 'onProgress'> {}
+
+/**
+ * Score an OpenAPI or AsyncAPI specification without logging, pausing or
+ * exiting the process. Errors, e.g. an unreadable file, are thrown.
+ * @param input - File path, URL or an already parsed document
+ * @param options - Plugins, config and suppressions as for `OpenAPIScorer`,
+ * plus `by` for a breakdown
+ */
+export async function scoreSpec(
+  input: string | SpecDocument,
+  options: ScoreOptions = {},
+): Promise<ScoringResult> {
+  const { source, onProgress = silentProgress, by, ...scorerOptions } = options;
+  const scorer = new OpenAPIScorer({
+    ...scorerOptions,
+    delays: false,
+    onProgress,
+  });
+
+  return typeof input === 'string'
+    ? scorer.scoreSpec(input, { by })
+    : scorer.scoreDocument(input, source, { by });
+}
+
+/**
+ * Validate an OpenAPI or AsyncAPI specification without logging, pausing or
+ * exiting the process. Problems with the document, including unreadable
+ * files, are reported in the result rather than thrown.
+ * @param input - File path, URL or an already parsed document
+ */
+export async function validateSpec(
+  input: string | SpecDocument,
+  options: ApiOptions = {},
+): Promise<ValidationResult> {
+  const validator = new OpenAPIValidator({
+    delays: false,
+    onProgress: options.onProgress ?? silentProgress,
+  });
+
+  return typeof input === 'string'
+    ? validator.validateSpec(input)
+    : validator.validateDocument(input, options.source);
+}
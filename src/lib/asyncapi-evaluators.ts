@@ -0,0 +1,569 @@
+import {
+  type AsyncAPIDocument,
+  type AsyncAPIMessage,
+  getAsyncMessages,
+  getAsyncOperations,
+  getOperationMessages,
+} from './asyncapi';
+import {
+  type CriteriaScore,
+  DEFAULT_THRESHOLDS,
+  type EvaluatorThresholds,
+} from './evaluators';
+import {
+  createCriteriaScore,
+  type Finding,
+  type FindingTarget,
+} from './findings';
+import { schemaTypes } from './openapi';
+import { toPointer } from './pointer';
+import { getRule } from './rules';
+import type { Suppressions } from './suppressions';
+
+/**
+ * An item checked by a coverage rule
+ */
+interface CoverageItem {
+  passed: boolean;
+  target: FindingTarget;
+  pointer: string;
+}
+
+/**
+ * A check applied to every item of a kind, e.g. "channels have descriptions"
+ */
+interface CoverageCheck {
+  /** Rule of the finding reported for each failing item */
+  ruleId: string;
+  message: string;
+  suggestion: string;
+  /** Rule of the summary finding, e.g. `3/4 channels have descriptions` */
+  coverageRuleId: string;
+  /** Completes the summary, e.g. `channels have descriptions` */
+  summary: string;
+  points: number;
+}
+
+function finding(
+  ruleId: string,
+  message: string,
+  options: {
+    suggestion?: string;
+    target?: FindingTarget;
+    pointer?: string;
+  } = {},
+): Finding {
+  return {
+    ruleId,
+    severity: getRule(ruleId)?.severity ?? 'info',
+    message,
+    ...options,
+  };
+}
+
+const hasText = (value: unknown, minLength = 0): boolean =>
+  typeof value === 'string' && value.trim().length > minLength;
+
+/**
+ * The schema of a message payload; 3.x payloads may wrap it in a
+ * `{ schemaFormat, schema }` multi-format object
+ */
+function payloadSchema(message: AsyncAPIMessage): unknown {
+  const payload = message.payload as
+    | { schemaFormat?: unknown; schema?: unknown }
+    | undefined;
+  return payload && 'schemaFormat' in payload ? payload.schema : payload;
+}
+
+function isTypedSchema(schema: unknown): boolean {
+  if (!schema || typeof schema !== 'object') return false;
+  const { properties, additionalProperties, allOf, anyOf, oneOf, $ref } =
+    schema as Record<string, unknown>;
+  if (allOf || anyOf || oneOf || $ref) return true;
+
+  const types = schemaTypes(schema as { type?: unknown });
+  return (
+    types.length > 0 &&
+    (!types.includes('object') || !!properties || !!additionalProperties)
+  );
+}
+
+function hasMessageExample(message: AsyncAPIMessage): boolean {
+  if (Array.isArray(message.examples) && message.examples.length > 0) {
+    return true;
+  }
+  const schema = payloadSchema(message) as
+    | { example?: unknown; examples?: unknown }
+    | undefined;
+  return (
+    schema?.example !== undefined ||
+    (Array.isArray(schema?.examples) && schema.examples.length > 0)
+  );
+}
+
+/**
+ * Built-in criteria for AsyncAPI 2.x and 3.x documents. Scores use the same
+ * `CriteriaScore` shape as the OpenAPI criteria and add up to 100 points.
+ */
+export class AsyncAPIEvaluators {
+  private thresholds: EvaluatorThresholds;
+
+  constructor(thresholds: Partial<EvaluatorThresholds> = {}) {
+    this.thresholds = { ...DEFAULT_THRESHOLDS, ...thresholds };
+  }
+
+  /**
+   * Points for the share of items passing a check. Each failing item is
+   * reported; suppressed items are left out of the ratio, and when every
+   * item is suppressed the points are excluded instead.
+   */
+  private coverage(
+    check: CoverageCheck,
+    items: CoverageItem[],
+    findings: Finding[],
+    suppressions?: Suppressions,
+  ): { score: number; excluded: number } {
+    let suppressed = 0;
+    items
+      .filter((item) => !item.passed)
+      .forEach(({ target, pointer }) => {
+        if (suppressions?.isSuppressed(check.ruleId, pointer)) {
+          suppressed++;
+        }
+        findings.push(
+          finding(check.ruleId, check.message, {
+            suggestion: check.suggestion,
+            target,
+            pointer,
+          }),
+        );
+      });
+
+    if (items.length === 0) {
+      return { score: 0, excluded: 0 };
+    }
+
+    const passed = items.filter((item) => item.passed).length;
+    findings.push(
+      finding(
+        check.coverageRuleId,
+        `${passed}/${items.length} ${check.summary}`,
+      ),
+    );
+
+    return items.length - suppressed > 0
+      ? {
+          score: (passed / (items.length - suppressed)) * check.points,
+          excluded: 0,
+        }
+      : { score: 0, excluded: check.points };
+  }
+
+  /**
+   * Score Descriptions & Documentation (25 points)
+   * Evaluates the API, channel, operation and message descriptions
+   */
+  scoreDescriptions(
+    document: AsyncAPIDocument,
+    suppressions?: Suppressions,
+  ): CriteriaScore {
+    const maxScore = 25;
+    let score = 0;
+    let excludedPoints = 0;
+    const findings: Finding[] = [];
+
+    if (
+      hasText(
+        document.info?.description,
+        this.thresholds.minInfoDescriptionLength,
+      )
+    ) {
+      score += 5;
+      findings.push(
+        finding(
+          'async-descriptions/info-present',
+          'API has a meaningful description',
+        ),
+      );
+    } else {
+      if (
+        suppressions?.isSuppressed('async-descriptions/info-missing', '/info')
+      ) {
+        excludedPoints += 5;
+      }
+      findings.push(
+        finding(
+          'async-descriptions/info-missing',
+          'API info object has no meaningful description',
+          {
+            suggestion:
+              'Add a comprehensive description to the API info object',
+            pointer: '/info',
+          },
+        ),
+      );
+    }
+
+    const channels = Object.entries(document.channels ?? {});
+    if (channels.length === 0) {
+      findings.push(
+        finding('async-descriptions/no-channels', 'No channels defined', {
+          suggestion: 'Define the channels the application uses',
+          pointer: '/channels',
+        }),
+      );
+    }
+
+    const minLength = this.thresholds.minOperationDescriptionLength;
+    [
+      this.coverage(
+        {
+          ruleId: 'async-descriptions/channel-missing',
+          message: 'Channel has no description',
+          suggestion: 'Describe the events that flow through each channel',
+          coverageRuleId: 'async-descriptions/channel-coverage',
+          summary: 'channels have descriptions',
+          points: 8,
+        },
+        channels.map(([name, channel]) => ({
+          passed: hasText(channel?.description),
+          target: { kind: 'channel', name },
+          pointer: toPointer(['channels', name]),
+        })),
+        findings,
+        suppressions,
+      ),
+      this.coverage(
+        {
+          ruleId: 'async-descriptions/operation-missing',
+          message: 'Operation has no meaningful description or summary',
+          suggestion: 'Describe what each operation sends or receives and when',
+          coverageRuleId: 'async-descriptions/operation-coverage',
+          summary: 'operations have descriptions',
+          points: 8,
+        },
+        getAsyncOperations(document).map(({ name, pointer, operation }) => ({
+          passed:
+            hasText(operation.description, minLength) ||
+            hasText(operation.summary, minLength),
+          target: { kind: 'operation', name },
+          pointer,
+        })),
+        findings,
+        suppressions,
+      ),
+      this.coverage(
+        {
+          ruleId: 'async-descriptions/message-missing',
+          message: 'Message has no description, summary or title',
+          suggestion: 'Describe what each message represents',
+          coverageRuleId: 'async-descriptions/message-coverage',
+          summary: 'messages have descriptions',
+          points: 4,
+        },
+        getAsyncMessages(document).map(({ name, pointer, message }) => ({
+          passed:
+            hasText(message.description) ||
+            hasText(message.summary) ||
+            hasText(message.title),
+          target: { kind: 'message', name },
+          pointer,
+        })),
+        findings,
+        suppressions,
+      ),
+    ].forEach((points) => {
+      score += points.score;
+      excludedPoints += points.excluded;
+    });
+
+    return createCriteriaScore({
+      name: 'Descriptions & Documentation',
+      score,
+      maxScore: maxScore - excludedPoints,
+      findings,
+    });
+  }
+
+  /**
+   * Score Message Payloads (25 points)
+   * Evaluates that messages describe their payload with typed schemas
+   */
+  scorePayloads(
+    document: AsyncAPIDocument,
+    suppressions?: Suppressions,
+  ): CriteriaScore {
+    const maxScore = 25;
+    let score = 0;
+    let excludedPoints = 0;
+    const findings: Finding[] = [];
+
+    const messages = getAsyncMessages(document);
+    if (messages.length === 0) {
+      return createCriteriaScore({
+        name: 'Message Payloads',
+        score: 0,
+        maxScore,
+        findings: [
+          finding('async-payloads/no-messages', 'No messages defined', {
+            suggestion: 'Define the messages each operation sends or receives',
+          }),
+        ],
+      });
+    }
+
+    const withPayload = messages.filter(
+      ({ message }) => payloadSchema(message) !== undefined,
+    );
+    [
+      this.coverage(
+        {
+          ruleId: 'async-payloads/payload-missing',
+          message: 'Message has no payload schema',
+          suggestion: 'Describe every message payload with a schema',
+          coverageRuleId: 'async-payloads/payload-coverage',
+          summary: 'messages define a payload',
+          points: 15,
+        },
+        messages.map(({ name, pointer, message }) => ({
+          passed: payloadSchema(message) !== undefined,
+          target: { kind: 'message', name },
+          pointer,
+        })),
+        findings,
+        suppressions,
+      ),
+      this.coverage(
+        {
+          ruleId: 'async-payloads/untyped-payload',
+          message:
+            'Payload schema has no type, or is an object without properties',
+          suggestion:
+            'Give payload schemas a type and define the properties of objects',
+          coverageRuleId: 'async-payloads/typed-coverage',
+          summary: 'payloads are typed',
+          points: 10,
+        },
+        withPayload.map(({ name, pointer, message }) => ({
+          passed: isTypedSchema(payloadSchema(message)),
+          target: { kind: 'message', name },
+          pointer: `${pointer}/payload`,
+        })),
+        findings,
+        suppressions,
+      ),
+    ].forEach((points) => {
+      score += points.score;
+      excludedPoints += points.excluded;
+    });
+
+    return createCriteriaScore({
+      name: 'Message Payloads',
+      score,
+      maxScore: maxScore - excludedPoints,
+      findings,
+    });
+  }
+
+  /**
+   * Score Examples & Samples (20 points)
+   * Evaluates presence of message examples
+   */
+  scoreExamples(
+    document: AsyncAPIDocument,
+    suppressions?: Suppressions,
+  ): CriteriaScore {
+    const maxScore = 20;
+    const findings: Finding[] = [];
+
+    const messages = getAsyncMessages(document);
+    if (messages.length === 0) {
+      return createCriteriaScore({
+        name: 'Examples & Samples',
+        score: 0,
+        maxScore,
+        findings: [
+          finding('async-examples/no-messages', 'No messages defined', {
+            suggestion: 'Add messages with examples',
+          }),
+        ],
+      });
+    }
+
+    const { score, excluded } = this.coverage(
+      {
+        ruleId: 'async-examples/message-missing',
+        message: 'Message has no example',
+        suggestion: 'Add examples to messages or their payload schemas',
+        coverageRuleId: 'async-examples/message-coverage',
+        summary: 'messages have examples',
+        points: maxScore,
+      },
+      messages.map(({ name, pointer, message }) => ({
+        passed: hasMessageExample(message),
+        target: { kind: 'message', name },
+        pointer,
+      })),
+      findings,
+      suppressions,
+    );
+
+    return createCriteriaScore({
+      name: 'Examples & Samples',
+      score,
+      maxScore: maxScore - excluded,
+      findings,
+    });
+  }
+
+  /**
+   * Score Security (15 points)
+   * Evaluates security schemes and their use by servers
+   */
+  scoreSecurity(
+    document: AsyncAPIDocument,
+    suppressions?: Suppressions,
+  ): CriteriaScore {
+    const maxScore = 15;
+    let score = 0;
+    let excludedPoints = 0;
+    const findings: Finding[] = [];
+
+    const schemeCount = Object.keys(
+      document.components?.securitySchemes ?? {},
+    ).length;
+    if (schemeCount > 0) {
+      score += 5;
+      findings.push(
+        finding(
+          'async-security/schemes-defined',
+          `Found ${schemeCount} security scheme(s) defined`,
+        ),
+      );
+    } else {
+      if (
+        suppressions?.isSuppressed('async-security/no-schemes', '/components')
+      ) {
+        excludedPoints += 5;
+      }
+      findings.push(
+        finding('async-security/no-schemes', 'No security schemes defined', {
+          suggestion: 'Define security schemes in components.securitySchemes',
+          pointer: '/components',
+        }),
+      );
+    }
+
+    const servers = Object.entries(document.servers ?? {});
+    if (servers.length === 0) {
+      if (suppressions?.isSuppressed('async-security/no-servers', '/servers')) {
+        excludedPoints += 10;
+      }
+      findings.push(
+        finding('async-security/no-servers', 'No servers defined', {
+          suggestion: 'Define the brokers or servers the API is available on',
+          pointer: '/servers',
+        }),
+      );
+    }
+
+    const serverSecurity = this.coverage(
+      {
+        ruleId: 'async-security/server-unprotected',
+        message: 'Server declares no security requirements',
+        suggestion: 'Declare how clients authenticate with each server',
+        coverageRuleId: 'async-security/server-coverage',
+        summary: 'servers declare security',
+        points: 10,
+      },
+      servers.map(([name, server]) => ({
+        passed: Array.isArray(server?.security) && server.security.length > 0,
+        target: { kind: 'server', name },
+        pointer: toPointer(['servers', name]),
+      })),
+      findings,
+      suppressions,
+    );
+    score += serverSecurity.score;
+    excludedPoints += serverSecurity.excluded;
+
+    return createCriteriaScore({
+      name: 'Security',
+      score,
+      maxScore: maxScore - excludedPoints,
+      findings,
+    });
+  }
+
+  /**
+   * Score Protocols & Bindings (15 points)
+   * Evaluates server protocols and protocol-specific bindings of operations
+   */
+  scoreBindings(
+    document: AsyncAPIDocument,
+    suppressions?: Suppressions,
+  ): CriteriaScore {
+    const maxScore = 15;
+    let score = 0;
+    let excludedPoints = 0;
+    const findings: Finding[] = [];
+
+    const hasBindings = (value: { bindings?: unknown } | undefined) =>
+      !!value?.bindings &&
+      typeof value.bindings === 'object' &&
+      Object.keys(value.bindings).length > 0;
+
+    [
+      this.coverage(
+        {
+          ruleId: 'async-bindings/server-protocol-missing',
+          message: 'Server does not declare its protocol',
+          suggestion: 'Set the protocol (e.g. kafka, mqtt, ws) of each server',
+          coverageRuleId: 'async-bindings/protocol-coverage',
+          summary: 'servers declare a protocol',
+          points: 5,
+        },
+        Object.entries(document.servers ?? {}).map(([name, server]) => ({
+          passed: hasText(server?.protocol),
+          target: { kind: 'server', name },
+          pointer: toPointer(['servers', name]),
+        })),
+        findings,
+        suppressions,
+      ),
+      this.coverage(
+        {
+          ruleId: 'async-bindings/operation-missing',
+          message: 'Operation has no protocol bindings',
+          suggestion:
+            'Add bindings to operations, channels or messages to document protocol details such as topics, partitions or QoS',
+          coverageRuleId: 'async-bindings/operation-coverage',
+          summary: 'operations have protocol bindings',
+          points: 10,
+        },
+        getAsyncOperations(document).map((entry) => ({
+          passed:
+            hasBindings(entry.operation) ||
+            hasBindings(entry.channel) ||
+            getOperationMessages(entry).some(({ message }) =>
+              hasBindings(message),
+            ),
+          target: { kind: 'operation', name: entry.name },
+          pointer: entry.pointer,
+        })),
+        findings,
+        suppressions,
+      ),
+    ].forEach((points) => {
+      score += points.score;
+      excludedPoints += points.excluded;
+    });
+
+    return createCriteriaScore({
+      name: 'Protocols & Bindings',
+      score,
+      maxScore: maxScore - excludedPoints,
+      findings,
+    });
+  }
+}
@@ -0,0 +1,260 @@
+import type { OpenAPIV3 } from 'openapi-types';
+import { toPointer } from './pointer';
+
+/**
+ * Major AsyncAPI versions that can be validated and scored
+ */
+export const SUPPORTED_ASYNCAPI_VERSIONS = ['2', '3'];
+
+type Bindings = Record<string, unknown>;
+
+/**
+ * The parts of an AsyncAPI message that are scored
+ */
+export interface AsyncAPIMessage {
+  name?: string;
+  title?: string;
+  summary?: string;
+  description?: string;
+  contentType?: string;
+  payload?: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject;
+  headers?: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject;
+  examples?: unknown[];
+  bindings?: Bindings;
+}
+
+/**
+ * An AsyncAPI operation: `publish`/`subscribe` in 2.x, `operations` in 3.x
+ */
+export interface AsyncAPIOperation {
+  operationId?: string;
+  /** 3.x only */
+  action?: 'send' | 'receive';
+  /** 3.x only; a channel after `$ref` resolution */
+  channel?: AsyncAPIChannel;
+  summary?: string;
+  description?: string;
+  /** 2.x: a single message or `{ oneOf }` */
+  message?: AsyncAPIMessage | { oneOf: AsyncAPIMessage[] };
+  /** 3.x: the operation's messages */
+  messages?: AsyncAPIMessage[];
+  security?: unknown[];
+  bindings?: Bindings;
+  tags?: Array<{ name: string }>;
+}
+
+export interface AsyncAPIChannel {
+  /** 3.x only */
+  address?: string | null;
+  description?: string;
+  /** 3.x only */
+  messages?: Record<string, AsyncAPIMessage>;
+  /** 2.x only */
+  publish?: AsyncAPIOperation;
+  /** 2.x only */
+  subscribe?: AsyncAPIOperation;
+  bindings?: Bindings;
+}
+
+export interface AsyncAPIServer {
+  /** 2.x */
+  url?: string;
+  /** 3.x */
+  host?: string;
+  protocol?: string;
+  description?: string;
+  security?: unknown[];
+  bindings?: Bindings;
+}
+
+/**
+ * An AsyncAPI 2.x or 3.x document, typed as far as it is scored
+ */
+export interface AsyncAPIDocument {
+  asyncapi: string;
+  info: OpenAPIV3.InfoObject;
+  servers?: Record<string, AsyncAPIServer>;
+  channels?: Record<string, AsyncAPIChannel>;
+  operations?: Record<string, AsyncAPIOperation>;
+  components?: {
+    schemas?: Record<string, unknown>;
+    messages?: Record<string, AsyncAPIMessage>;
+    securitySchemes?: Record<string, unknown>;
+    parameters?: Record<string, unknown>;
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * A document accepted by the parser, validator and scorer
+ */
+export type SpecDocument = OpenAPIV3.Document | AsyncAPIDocument;
+
+/**
+ * An operation together with where it is defined
+ */
+export interface AsyncAPIOperationEntry {
+  /** e.g. `SUBSCRIBE user/signedup` (2.x) or `SEND notifyUser` (3.x) */
+  name: string;
+  pointer: string;
+  operation: AsyncAPIOperation;
+  /** Channel the operation belongs to, when known */
+  channel?: AsyncAPIChannel;
+}
+
+/**
+ * A message together with the first place it is used
+ */
+export interface AsyncAPIMessageEntry {
+  /** Name, title or location of the message */
+  name: string;
+  pointer: string;
+  message: AsyncAPIMessage;
+}
+
+export function isAsyncAPI(value: unknown): value is AsyncAPIDocument {
+  return !!value && typeof value === 'object' && 'asyncapi' in value;
+}
+
+/**
+ * Major version of an AsyncAPI document, e.g. `3`
+ */
+export function asyncAPIMajorVersion(document: AsyncAPIDocument): string {
+  return String(document.asyncapi).split('.')[0] ?? '';
+}
+
+/**
+ * Name of the specification a document follows
+ */
+export function specFormat(document: SpecDocument): 'OpenAPI' | 'AsyncAPI' {
+  return isAsyncAPI(document) ? 'AsyncAPI' : 'OpenAPI';
+}
+
+/**
+ * Value of the document's `openapi` or `asyncapi` field
+ */
+export function specVersion(document: SpecDocument): string {
+  return isAsyncAPI(document) ? document.asyncapi : document.openapi;
+}
+
+/**
+ * `OpenAPI 3.0.3` or `AsyncAPI 2.6.0`
+ */
+export function formatSpecVersion(document: SpecDocument): string {
+  return `${specFormat(document)} ${specVersion(document)}`;
+}
+
+/**
+ * Operations of an AsyncAPI document: the `publish` and `subscribe`
+ * operations of each channel in 2.x, or the `operations` map in 3.x
+ */
+export function getAsyncOperations(
+  document: AsyncAPIDocument,
+): AsyncAPIOperationEntry[] {
+  if (asyncAPIMajorVersion(document) === '2') {
+    return Object.entries(document.channels ?? {}).flatMap(([name, channel]) =>
+      (['publish', 'subscribe'] as const).flatMap((action) => {
+        const operation = channel?.[action];
+        return operation
+          ? [
+              {
+                name: `${action.toUpperCase()} ${name}`,
+                pointer: toPointer(['channels', name, action]),
+                operation,
+                channel,
+              },
+            ]
+          : [];
+      }),
+    );
+  }
+
+  return Object.entries(document.operations ?? {}).map(([id, operation]) => ({
+    name: `${(operation.action ?? 'operation').toUpperCase()} ${id}`,
+    pointer: toPointer(['operations', id]),
+    operation,
+    channel: operation.channel,
+  }));
+}
+
+/**
+ * Messages sent or received by an operation, with their pointers
+ */
+export function getOperationMessages(
+  entry: AsyncAPIOperationEntry,
+): AsyncAPIMessageEntry[] {
+  const { operation, pointer } = entry;
+  const named = (message: AsyncAPIMessage, at: string, fallback: string) => ({
+    name: message.name ?? message.title ?? fallback,
+    pointer: at,
+    message,
+  });
+
+  if (operation.message) {
+    const at = `${pointer}/message`;
+    return 'oneOf' in operation.message
+      ? operation.message.oneOf.map((message, index) =>
+          named(message, `${at}/oneOf/${index}`, `${entry.name} #${index}`),
+        )
+      : [named(operation.message, at, entry.name)];
+  }
+
+  if (operation.messages) {
+    return operation.messages.map((message, index) =>
+      named(message, `${pointer}/messages/${index}`, `${entry.name} #${index}`),
+    );
+  }
+
+  // 3.x operations without `messages` use every message of their channel
+  return Object.entries(operation.channel?.messages ?? {}).map(
+    ([name, message]) =>
+      named(
+        message,
+        `${pointer}${toPointer(['channel', 'messages', name])}`,
+        name,
+      ),
+  );
+}
+
+/**
+ * Every message of a document once: the messages used by operations, then
+ * unused `components.messages`. A message referenced from several places is
+ * reported at its first use; resolved references are compared by content.
+ */
+export function getAsyncMessages(
+  document: AsyncAPIDocument,
+): AsyncAPIMessageEntry[] {
+  const seen = new Set<string>();
+  const entries: AsyncAPIMessageEntry[] = [];
+  const add = (entry: AsyncAPIMessageEntry) => {
+    if (!entry.message || typeof entry.message !== 'object') return;
+    const key = JSON.stringify(entry.message);
+    if (seen.has(key)) return;
+    seen.add(key);
+    entries.push(entry);
+  };
+
+  getAsyncOperations(document).forEach((operation) => {
+    getOperationMessages(operation).forEach(add);
+  });
+  Object.entries(document.channels ?? {}).forEach(([channel, item]) => {
+    Object.entries(item?.messages ?? {}).forEach(([name, message]) => {
+      add({
+        name,
+        pointer: toPointer(['channels', channel, 'messages', name]),
+        message,
+      });
+    });
+  });
+  Object.entries(document.components?.messages ?? {}).forEach(
+    ([name, message]) => {
+      add({
+        name,
+        pointer: toPointer(['components', 'messages', name]),
+        message,
+      });
+    },
+  );
+
+  return entries;
+}
@@ -0,0 +1,162 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import consola from 'consola';
+import {
+  createCriteriaScore,
+  type Finding,
+  findingKey,
+  getIssues,
+  type Severity,
+} from './findings';
+import type { ScoringResult } from './reporter';
+
+/**
+ * Version of the baseline file format
+ */
+export const BASELINE_VERSION = '1.0';
+
+export const DEFAULT_BASELINE_FILE = '.specscore-baseline.json';
+
+/**
+ * A known finding recorded in a baseline
+ */
+export interface BaselineEntry {
+  /** Stable identity of the finding, see `findingKey` */
+  fingerprint: string;
+  ruleId: string;
+  severity: Severity;
+  message: string;
+}
+
+/**
+ * Findings accepted as known, so later runs only report new ones
+ */
+export interface Baseline {
+  schemaVersion: typeof BASELINE_VERSION;
+  kind: 'baseline';
+  source: string;
+  findings: BaselineEntry[];
+}
+
+/**
+ * Record the issues of a scoring result (errors, warnings and hints).
+ * Entries are sorted so that refreshing an unchanged baseline does not
+ * change the file.
+ */
+export function createBaseline(result: ScoringResult): Baseline {
+  const entries = new Map<string, BaselineEntry>();
+
+  getIssues(result.criteria.flatMap((criteria) => criteria.findings)).forEach(
+    (finding) => {
+      const fingerprint = findingKey(finding, result.document);
+      if (!entries.has(fingerprint)) {
+        entries.set(fingerprint, {
+          fingerprint,
+          ruleId: finding.ruleId,
+          severity: finding.severity,
+          message: finding.message,
+        });
+      }
+    },
+  );
+
+  return {
+    schemaVersion: BASELINE_VERSION,
+    kind: 'baseline',
+    source: result.source,
+    findings: [...entries.values()].sort((a, b) =>
+      a.fingerprint.localeCompare(b.fingerprint),
+    ),
+  };
+}
+
+/**
+ * Remove the issues recorded in a baseline from a scoring result.
+ * Scores are left as they are; only the reported findings, feedback and
+ * suggestions change.
+ * @returns The filtered result and the known findings that were removed
+ */
+export function applyBaseline(
+  result: ScoringResult,
+  baseline: Baseline,
+): { result: ScoringResult; known: Finding[] } {
+  const fingerprints = new Set(baseline.findings.map((f) => f.fingerprint));
+  const known: Finding[] = [];
+
+  const criteria = result.criteria.map((criteria) => {
+    const findings = criteria.findings.filter((finding) => {
+      const isKnown =
+        finding.severity !== 'info' &&
+        fingerprints.has(findingKey(finding, result.document));
+      if (isKnown) {
+        known.push(finding);
+      }
+      return !isKnown;
+    });
+
+    if (findings.length === criteria.findings.length) {
+      return criteria;
+    }
+
+    const derived = createCriteriaScore({ ...criteria, findings });
+    return {
+      ...criteria,
+      findings,
+      feedback: derived.feedback,
+      suggestions: derived.suggestions,
+    };
+  });
+
+  return { result: { ...result, criteria }, known };
+}
+
+/**
+ * Load a baseline file written by `writeBaseline`
+ * @throws Error when the file cannot be read or is not a baseline
+ */
+export async function loadBaseline(filePath: string): Promise<Baseline> {
+  let content: Partial<Baseline>;
+  try {
+    content = JSON.parse(await readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to load baseline ${filePath}: ${
+        error instanceof Error ? error.message : error
+      }`,
+    );
+  }
+
+  if (content?.kind !== 'baseline' || !Array.isArray(content.findings)) {
+    throw new Error(
+      `Invalid baseline ${filePath}: expected a file written by --update-baseline`,
+    );
+  }
+  if (content.schemaVersion !== BASELINE_VERSION) {
+    throw new Error(
+      `Unsupported baseline version "${content.schemaVersion}" in ${filePath}; run with --update-baseline to refresh it`,
+    );
+  }
+
+  return content as Baseline;
+}
+
+/**
+ * Write a baseline file
+ */
+export async function writeBaseline(
+  baseline: Baseline,
+  filePath: string,
+): Promise<void> {
+  try {
+    await writeFile(
+      filePath,
+      `${JSON.stringify(baseline, null, 2)}\n`,
+      'utf-8',
+    );
+    consola.success(
+      `📌 Baseline updated: ${filePath} (${baseline.findings.length} finding(s))`,
+    );
+  } catch (error) {
+    consola.error(`Failed to write baseline: ${error}`);
+    throw error;
+  }
+}
@@ -0,0 +1,180 @@
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+
+/**
+ * Specifications scored or validated at the same time in batch mode
+ */
+export const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Sources behind the `<file...>` arguments of a command
+ */
+export interface BatchInputs {
+  sources: string[];
+  /** Whether the inputs name several specifications, a glob or a directory */
+  batch: boolean;
+}
+
+const SPEC_EXTENSIONS = ['.yaml', '.yml', '.json'];
+const GLOB_CHARS = /[*?[{]/;
+const SPEC_ROOT_KEY = /^\s*\{?\s*["']?(?:openapi|swagger|asyncapi)["']?\s*:/m;
+
+const isUrl = (source: string) =>
+  source.startsWith('https://') || source.startsWith('http://');
+
+const toSlashes = (path: string) => path.split(sep).join('/');
+
+/**
+ * Convert a glob to a regular expression matching `/`-separated paths.
+ * Supports `**`, `*`, `?`, `{a,b}` and `[...]`.
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i] as string;
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` also matches no directory at all
+      source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i);
+      source += end > i ? pattern.slice(i, end + 1) : '\\[';
+      i = end > i ? end : i;
+    } else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Files below a directory, skipping `node_modules` and hidden directories
+ */
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map(async (entry) => {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        return entry.name === 'node_modules' || entry.name.startsWith('.')
+          ? []
+          : listFiles(path);
+      }
+      return entry.isFile() ? [path] : [];
+    }),
+  );
+  return files.flat();
+}
+
+async function matchGlob(pattern: string): Promise<string[]> {
+  const segments = toSlashes(pattern).split('/');
+  const firstGlob = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+  const base = segments.slice(0, firstGlob).join('/') || '.';
+  const matcher = globToRegExp(segments.slice(firstGlob).join('/'));
+
+  const files = await listFiles(base).catch(() => []);
+  return filterSpecs(
+    files.filter((file) => matcher.test(toSlashes(relative(base, file)))),
+  );
+}
+
+/**
+ * The files that look like OpenAPI, Swagger or AsyncAPI documents, leaving
+ * out files that are only `$ref` targets and other YAML or JSON files
+ */
+async function filterSpecs(files: string[]): Promise<string[]> {
+  const candidates = files.filter((file) =>
+    SPEC_EXTENSIONS.some((extension) => file.endsWith(extension)),
+  );
+  const specs = await Promise.all(
+    candidates.map(async (file) =>
+      SPEC_ROOT_KEY.test(await readFile(file, 'utf-8')) ? [file] : [],
+    ),
+  );
+  return specs.flat();
+}
+
+/**
+ * Specifications in a directory tree
+ */
+async function findSpecs(dir: string): Promise<string[]> {
+  return filterSpecs(await listFiles(dir));
+}
+
+/**
+ * Expand the file, URL, directory and glob arguments of a command into the
+ * specifications they name, in a stable order
+ * @throws When a directory or glob matches no specification
+ */
+export async function expandInputs(inputs: string[]): Promise<BatchInputs> {
+  let batch = inputs.length > 1;
+  const sources: string[] = [];
+
+  for (const input of inputs) {
+    if (isUrl(input)) {
+      sources.push(input);
+      continue;
+    }
+
+    let matches: string[] | undefined;
+    if (GLOB_CHARS.test(input)) {
+      matches = await matchGlob(input);
+    } else if (
+      await stat(input).then(
+        (stats) => stats.isDirectory(),
+        () => false,
+      )
+    ) {
+      matches = await findSpecs(input);
+    }
+
+    if (!matches) {
+      sources.push(input);
+      continue;
+    }
+    if (matches.length === 0) {
+      throw new Error(`No specifications found for "${input}"`);
+    }
+    batch = true;
+    sources.push(...matches.sort());
+  }
+
+  return { sources: [...new Set(sources)], batch };
+}
+
+/**
+ * Map items with at most `limit` calls of `fn` in flight; results keep the
+ * order of `items`
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index] as T);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker),
+  );
+  return results;
+}
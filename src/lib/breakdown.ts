@@ -0,0 +1,245 @@
+import type { OpenAPIV3 } from 'openapi-types';
+import { DEFAULT_THRESHOLDS, type EvaluatorThresholds } from './evaluators';
+import { hasMediaTypeExample } from './openapi';
+
+export type BreakdownGrouping = 'operation' | 'path' | 'tag';
+
+export const BREAKDOWN_GROUPINGS: BreakdownGrouping[] = [
+  'operation',
+  'path',
+  'tag',
+];
+
+/**
+ * Result of one check applied to one operation
+ */
+export interface OperationCheck {
+  /** Check name, e.g. `description` or `error-response` */
+  name: string;
+  /** Id of the criterion the check belongs to */
+  criterion: string;
+  weight: number;
+  passed: boolean;
+}
+
+/**
+ * Score of a group of operations (a single operation, a path or a tag)
+ */
+export interface BreakdownEntry {
+  /** `GET /pets`, `/pets` or the tag name */
+  key: string;
+  operations: string[];
+  score: number;
+  maxScore: number;
+  percentage: number;
+  /** Names of the checks that failed, with how many operations failed them */
+  failedChecks: Record<string, number>;
+}
+
+/**
+ * Per-operation, per-path or per-tag scores, worst first
+ */
+export interface ScoreBreakdown {
+  by: BreakdownGrouping;
+  entries: BreakdownEntry[];
+}
+
+interface OperationResult {
+  method: string;
+  path: string;
+  tags: string[];
+  checks: OperationCheck[];
+}
+
+export const HTTP_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+  'trace',
+] as const;
+
+const UNTAGGED = '(untagged)';
+
+type Content = Record<string, OpenAPIV3.MediaTypeObject>;
+
+const contentOf = (value: unknown): Content | undefined =>
+  value && typeof value === 'object' && 'content' in value
+    ? ((value as { content?: Content }).content ?? undefined)
+    : undefined;
+
+const hasExample = (content: Content) =>
+  Object.values(content).some(hasMediaTypeExample);
+
+/**
+ * Apply the operation-level checks to a single operation.
+ * Checks that do not apply (e.g. examples for an operation without content)
+ * are left out rather than counted as passed.
+ */
+function checkOperation(
+  document: OpenAPIV3.Document,
+  operation: OpenAPIV3.OperationObject,
+  thresholds: EvaluatorThresholds,
+): OperationCheck[] {
+  const checks: OperationCheck[] = [];
+  const add = (
+    name: string,
+    criterion: string,
+    weight: number,
+    passed: boolean,
+  ) => checks.push({ name, criterion, weight, passed });
+
+  add(
+    'description',
+    'descriptions',
+    3,
+    !!operation.description &&
+      operation.description.length > thresholds.minOperationDescriptionLength,
+  );
+
+  const parameters = operation.parameters ?? [];
+  if (parameters.length > 0) {
+    add(
+      'parameter-descriptions',
+      'descriptions',
+      1,
+      parameters.every((param) => 'description' in param && param.description),
+    );
+  }
+
+  const codes = Object.keys(operation.responses ?? {});
+  add(
+    'success-response',
+    'response-codes',
+    2,
+    codes.some((code) => code.startsWith('2')),
+  );
+  add(
+    'error-response',
+    'response-codes',
+    2,
+    codes.some((code) => code.startsWith('4') || code.startsWith('5')),
+  );
+
+  const requestContent = contentOf(operation.requestBody);
+  const responseContents = Object.values(operation.responses ?? {})
+    .map(contentOf)
+    .filter((content): content is Content => !!content);
+  const allContent = [
+    ...(requestContent ? [requestContent] : []),
+    ...responseContents,
+  ];
+
+  if (requestContent) {
+    add('request-example', 'examples', 1, hasExample(requestContent));
+  }
+  if (responseContents.length > 0) {
+    add('response-examples', 'examples', 1, responseContents.every(hasExample));
+  }
+  if (allContent.length > 0) {
+    add(
+      'schemas',
+      'schema-types',
+      2,
+      allContent.every((content) =>
+        Object.values(content).every((mediaType) => !!mediaType.schema),
+      ),
+    );
+  }
+
+  const security = operation.security ?? document.security ?? [];
+  add('security', 'security', 2, security.length > 0);
+
+  add('tags', 'best-practices', 1, (operation.tags ?? []).length > 0);
+
+  return checks;
+}
+
+function toEntry(key: string, operations: OperationResult[]): BreakdownEntry {
+  const checks = operations.flatMap((operation) => operation.checks);
+  const maxScore = checks.reduce((sum, check) => sum + check.weight, 0);
+  const score = checks
+    .filter((check) => check.passed)
+    .reduce((sum, check) => sum + check.weight, 0);
+
+  const failedChecks: Record<string, number> = {};
+  checks
+    .filter((check) => !check.passed)
+    .forEach((check) => {
+      failedChecks[check.name] = (failedChecks[check.name] ?? 0) + 1;
+    });
+
+  return {
+    key,
+    operations: operations.map(
+      (operation) => `${operation.method.toUpperCase()} ${operation.path}`,
+    ),
+    score,
+    maxScore,
+    percentage: maxScore > 0 ? Math.round((score / maxScore) * 100) : 100,
+    failedChecks,
+  };
+}
+
+/**
+ * Score each operation against the checks that apply to it and group the
+ * results by operation, path or tag
+ * @param document - OpenAPI document to analyse
+ * @param by - How to group operations
+ * @param options - Thresholds and criteria left out of the score
+ */
+export function buildBreakdown(
+  document: OpenAPIV3.Document,
+  by: BreakdownGrouping,
+  options: {
+    thresholds?: Partial<EvaluatorThresholds>;
+    disabledCriteria?: string[];
+  } = {},
+): ScoreBreakdown {
+  const thresholds = { ...DEFAULT_THRESHOLDS, ...options.thresholds };
+  const disabled = new Set(options.disabledCriteria ?? []);
+  const results: OperationResult[] = [];
+
+  Object.entries(document.paths ?? {}).forEach(([path, pathItem]) => {
+    if (!pathItem) return;
+
+    HTTP_METHODS.forEach((method) => {
+      const operation = pathItem[method];
+      if (!operation) return;
+
+      results.push({
+        method,
+        path,
+        tags: operation.tags ?? [],
+        checks: checkOperation(document, operation, thresholds).filter(
+          (check) => !disabled.has(check.criterion),
+        ),
+      });
+    });
+  });
+
+  const groups = new Map<string, OperationResult[]>();
+  const addToGroup = (key: string, result: OperationResult) => {
+    groups.set(key, [...(groups.get(key) ?? []), result]);
+  };
+
+  results.forEach((result) => {
+    if (by === 'path') {
+      addToGroup(result.path, result);
+    } else if (by === 'tag') {
+      const tags = result.tags.length > 0 ? result.tags : [UNTAGGED];
+      tags.forEach((tag) => addToGroup(tag, result));
+    } else {
+      addToGroup(`${result.method.toUpperCase()} ${result.path}`, result);
+    }
+  });
+
+  const entries = [...groups.entries()]
+    .map(([key, operations]) => toEntry(key, operations))
+    .sort((a, b) => a.percentage - b.percentage || a.key.localeCompare(b.key));
+
+  return { by, entries };
+}
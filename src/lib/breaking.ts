@@ -0,0 +1,759 @@
+import { isDeepStrictEqual } from 'node:util';
+import chalk from 'chalk';
+import consola from 'consola';
+import type { OpenAPIV3 } from 'openapi-types';
+import { HTTP_METHODS } from './breakdown';
+import { schemaTypes } from './openapi';
+import type { ParsedSpec } from './parser';
+import { parsePointer, toPointer } from './pointer';
+import { resolveRefs } from './resolver';
+import { formatLocation, type SourceLocation } from './source-map';
+
+/**
+ * Root extension listing the keys of breaking changes that were approved
+ */
+export const APPROVED_CHANGES_EXTENSION = 'x-specscore-approved-changes';
+
+export type ChangeKind =
+  | 'operation-removed'
+  | 'operation-added'
+  | 'parameter-removed'
+  | 'parameter-added'
+  | 'parameter-required'
+  | 'parameter-optional'
+  | 'request-body-added'
+  | 'request-body-required'
+  | 'media-type-removed'
+  | 'response-removed'
+  | 'response-added'
+  | 'property-removed'
+  | 'property-added'
+  | 'property-required'
+  | 'property-optional'
+  | 'type-changed'
+  | 'enum-narrowed'
+  | 'enum-widened'
+  | 'security-tightened'
+  | 'security-changed';
+
+/**
+ * A single difference between two versions of an API contract
+ */
+export interface ContractChange {
+  kind: ChangeKind;
+  breaking: boolean;
+  /** `<kind> <subject>`, e.g. `response-removed GET /pets 404`; used to approve the change */
+  key: string;
+  message: string;
+  /** Affected operation, e.g. `GET /pets` */
+  operation: string;
+  /** Document the pointer refers to: `base` for removals, `head` otherwise */
+  side: 'base' | 'head';
+  pointer: string;
+  location?: SourceLocation;
+  /** Listed in the head document's `x-specscore-approved-changes` */
+  approved: boolean;
+}
+
+type Direction = 'request' | 'response';
+
+interface CompareContext {
+  base: OpenAPIV3.Document;
+  head: OpenAPIV3.Document;
+  operation: string;
+  changes: ContractChange[];
+}
+
+/**
+ * Follow local `$ref`s until a concrete object is reached.
+ * Returns undefined for unresolvable or circular references.
+ */
+function resolve<T>(
+  document: OpenAPIV3.Document,
+  value: unknown,
+): T | undefined {
+  const visited = new Set<string>();
+  let current = value;
+
+  while (
+    current &&
+    typeof current === 'object' &&
+    '$ref' in current &&
+    typeof current.$ref === 'string'
+  ) {
+    const ref = current.$ref;
+    if (!ref.startsWith('#') || visited.has(ref)) return undefined;
+    visited.add(ref);
+
+    current = parsePointer(ref).reduce<unknown>(
+      (node, segment) =>
+        node && typeof node === 'object'
+          ? (node as Record<string, unknown>)[segment]
+          : undefined,
+      document,
+    );
+  }
+
+  return (current ?? undefined) as T | undefined;
+}
+
+function addChange(
+  ctx: CompareContext,
+  kind: ChangeKind,
+  breaking: boolean,
+  subject: string,
+  message: string,
+  side: 'base' | 'head',
+  pointer: string,
+): void {
+  ctx.changes.push({
+    kind,
+    breaking,
+    key: `${kind} ${ctx.operation}${subject ? ` ${subject}` : ''}`,
+    message,
+    operation: ctx.operation,
+    side,
+    pointer,
+    approved: false,
+  });
+}
+
+/**
+ * Compare two schemas. Requests break when they accept less than before,
+ * responses break when they return less, or something different, than before.
+ * @param prefix - What the schema belongs to, e.g. `response 200`
+ * @param path - Property path inside the schema, e.g. `owner.name`
+ */
+function compareSchemas(
+  ctx: CompareContext,
+  baseValue: unknown,
+  headValue: unknown,
+  direction: Direction,
+  prefix: string,
+  path: string,
+  pointer: string[],
+  seen = new WeakMap<object, WeakSet<object>>(),
+): void {
+  const base = resolve<OpenAPIV3.SchemaObject>(ctx.base, baseValue);
+  const head = resolve<OpenAPIV3.SchemaObject>(ctx.head, headValue);
+  if (!base || !head) return;
+
+  const seenHeads = seen.get(base) ?? new WeakSet();
+  if (seenHeads.has(head)) return;
+  seenHeads.add(head);
+  seen.set(base, seenHeads);
+
+  const subject = path ? `${prefix} ${path}` : prefix;
+
+  // OpenAPI 3.1 types may be lists such as [string, 'null']
+  const baseType = schemaTypes(base, true).sort().join(' | ');
+  const headType = schemaTypes(head, true).sort().join(' | ');
+  if (baseType && headType && baseType !== headType) {
+    addChange(
+      ctx,
+      'type-changed',
+      true,
+      subject,
+      `Type of ${subject} changed from ${baseType} to ${headType}`,
+      'head',
+      toPointer([...pointer, 'type']),
+    );
+  }
+
+  if (head.enum) {
+    const removed = base.enum
+      ? base.enum.filter((value) => !head.enum?.includes(value))
+      : [];
+    const added = base.enum
+      ? head.enum.filter((value) => !base.enum?.includes(value))
+      : [];
+
+    if (!base.enum || removed.length > 0) {
+      addChange(
+        ctx,
+        'enum-narrowed',
+        direction === 'request',
+        subject,
+        base.enum
+          ? `Enum of ${subject} no longer allows ${formatValues(removed)}`
+          : `${capitalize(subject)} is now restricted to an enum`,
+        'head',
+        toPointer([...pointer, 'enum']),
+      );
+    }
+    if (added.length > 0) {
+      addChange(
+        ctx,
+        'enum-widened',
+        direction === 'response',
+        subject,
+        `Enum of ${subject} now allows ${formatValues(added)}`,
+        'head',
+        toPointer([...pointer, 'enum']),
+      );
+    }
+  }
+
+  const baseProperties = base.properties ?? {};
+  const headProperties = head.properties ?? {};
+  const baseRequired = base.required ?? [];
+  const headRequired = head.required ?? [];
+  const propertyPath = (name: string) => (path ? `${path}.${name}` : name);
+
+  Object.keys(baseProperties)
+    .filter((name) => !(name in headProperties))
+    .forEach((name) => {
+      addChange(
+        ctx,
+        'property-removed',
+        direction === 'response',
+        `${prefix} ${propertyPath(name)}`,
+        `Property ${propertyPath(name)} was removed from ${prefix}`,
+        'base',
+        toPointer([...pointer, 'properties', name]),
+      );
+    });
+
+  Object.keys(headProperties)
+    .filter((name) => !(name in baseProperties))
+    .forEach((name) => {
+      const required = headRequired.includes(name);
+      addChange(
+        ctx,
+        'property-added',
+        direction === 'request' && required,
+        `${prefix} ${propertyPath(name)}`,
+        `${required ? 'Required property' : 'Property'} ${propertyPath(name)} was added to ${prefix}`,
+        'head',
+        toPointer([...pointer, 'properties', name]),
+      );
+    });
+
+  Object.keys(baseProperties)
+    .filter((name) => name in headProperties)
+    .forEach((name) => {
+      const wasRequired = baseRequired.includes(name);
+      const isRequired = headRequired.includes(name);
+
+      if (!wasRequired && isRequired) {
+        addChange(
+          ctx,
+          'property-required',
+          direction === 'request',
+          `${prefix} ${propertyPath(name)}`,
+          `Property ${propertyPath(name)} became required in ${prefix}`,
+          'head',
+          toPointer([...pointer, 'required']),
+        );
+      } else if (wasRequired && !isRequired) {
+        addChange(
+          ctx,
+          'property-optional',
+          direction === 'response',
+          `${prefix} ${propertyPath(name)}`,
+          `Property ${propertyPath(name)} is no longer required in ${prefix}`,
+          'head',
+          toPointer([...pointer, 'required']),
+        );
+      }
+
+      compareSchemas(
+        ctx,
+        baseProperties[name],
+        headProperties[name],
+        direction,
+        prefix,
+        propertyPath(name),
+        [...pointer, 'properties', name],
+        seen,
+      );
+    });
+
+  if ('items' in base && 'items' in head) {
+    compareSchemas(
+      ctx,
+      base.items,
+      head.items,
+      direction,
+      prefix,
+      `${path}[]`,
+      [...pointer, 'items'],
+      seen,
+    );
+  }
+}
+
+function compareContent(
+  ctx: CompareContext,
+  base: Record<string, OpenAPIV3.MediaTypeObject> | undefined,
+  head: Record<string, OpenAPIV3.MediaTypeObject> | undefined,
+  direction: Direction,
+  prefix: string,
+  pointer: string[],
+): void {
+  Object.entries(base ?? {}).forEach(([mediaType, baseMedia]) => {
+    const headMedia = head?.[mediaType];
+    if (!headMedia) {
+      addChange(
+        ctx,
+        'media-type-removed',
+        true,
+        `${prefix} ${mediaType}`,
+        `${capitalize(prefix)} no longer supports ${mediaType}`,
+        'base',
+        toPointer([...pointer, 'content', mediaType]),
+      );
+      return;
+    }
+
+    compareSchemas(
+      ctx,
+      baseMedia.schema,
+      headMedia.schema,
+      direction,
+      prefix,
+      '',
+      [...pointer, 'content', mediaType, 'schema'],
+    );
+  });
+}
+
+const formatValues = (values: unknown[]) =>
+  values.map((value) => JSON.stringify(value)).join(', ');
+
+const capitalize = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+type ParameterMap = Map<
+  string,
+  { parameter: OpenAPIV3.ParameterObject; pointer: string[] }
+>;
+
+/**
+ * Path-level and operation-level parameters, keyed by `in.name`
+ */
+function parametersOf(
+  document: OpenAPIV3.Document,
+  path: string,
+  method: string,
+): ParameterMap {
+  const pathItem = document.paths?.[path];
+  const operation = pathItem?.[method as OpenAPIV3.HttpMethods];
+  const parameters: ParameterMap = new Map();
+
+  const add = (list: unknown[] | undefined, pointer: string[]) => {
+    (list ?? []).forEach((value, index) => {
+      const parameter = resolve<OpenAPIV3.ParameterObject>(document, value);
+      if (parameter?.name) {
+        parameters.set(`${parameter.in}.${parameter.name}`, {
+          parameter,
+          pointer: [...pointer, 'parameters', String(index)],
+        });
+      }
+    });
+  };
+
+  add(pathItem?.parameters, ['paths', path]);
+  add(operation?.parameters, ['paths', path, method]);
+
+  return parameters;
+}
+
+/**
+ * True when a caller that satisfied `base` security may be rejected by `head`.
+ * Requirements are alternatives; a base alternative still works if some head
+ * alternative needs no more schemes and scopes than it.
+ */
+function isSecurityTightened(
+  base: OpenAPIV3.SecurityRequirementObject[],
+  head: OpenAPIV3.SecurityRequirementObject[],
+): boolean {
+  if (head.length === 0) return false;
+  const baseAlternatives = base.length > 0 ? base : [{}];
+
+  return baseAlternatives.some(
+    (baseAlternative) =>
+      !head.some((headAlternative) =>
+        Object.entries(headAlternative).every(
+          ([scheme, scopes]) =>
+            scheme in baseAlternative &&
+            scopes.every((scope) => baseAlternative[scheme]?.includes(scope)),
+        ),
+      ),
+  );
+}
+
+function compareOperations(
+  ctx: CompareContext,
+  path: string,
+  method: string,
+  base: OpenAPIV3.OperationObject,
+  head: OpenAPIV3.OperationObject,
+): void {
+  const operationPointer = ['paths', path, method];
+
+  const baseParameters = parametersOf(ctx.base, path, method);
+  const headParameters = parametersOf(ctx.head, path, method);
+
+  baseParameters.forEach(({ parameter, pointer }, key) => {
+    const headEntry = headParameters.get(key);
+    const subject = `parameter ${key}`;
+
+    if (!headEntry) {
+      addChange(
+        ctx,
+        'parameter-removed',
+        true,
+        subject,
+        `${parameter.in} parameter ${parameter.name} was removed`,
+        'base',
+        toPointer(pointer),
+      );
+      return;
+    }
+
+    if (!parameter.required && headEntry.parameter.required) {
+      addChange(
+        ctx,
+        'parameter-required',
+        true,
+        subject,
+        `${parameter.in} parameter ${parameter.name} became required`,
+        'head',
+        toPointer([...headEntry.pointer, 'required']),
+      );
+    } else if (parameter.required && !headEntry.parameter.required) {
+      addChange(
+        ctx,
+        'parameter-optional',
+        false,
+        subject,
+        `${parameter.in} parameter ${parameter.name} became optional`,
+        'head',
+        toPointer([...headEntry.pointer, 'required']),
+      );
+    }
+
+    compareSchemas(
+      ctx,
+      parameter.schema,
+      headEntry.parameter.schema,
+      'request',
+      subject,
+      '',
+      [...headEntry.pointer, 'schema'],
+    );
+  });
+
+  headParameters.forEach(({ parameter, pointer }, key) => {
+    if (baseParameters.has(key)) return;
+    addChange(
+      ctx,
+      'parameter-added',
+      !!parameter.required,
+      `parameter ${key}`,
+      `${parameter.required ? 'Required' : 'Optional'} ${parameter.in} parameter ${parameter.name} was added`,
+      'head',
+      toPointer(pointer),
+    );
+  });
+
+  const baseBody = resolve<OpenAPIV3.RequestBodyObject>(
+    ctx.base,
+    base.requestBody,
+  );
+  const headBody = resolve<OpenAPIV3.RequestBodyObject>(
+    ctx.head,
+    head.requestBody,
+  );
+
+  if (!baseBody && headBody) {
+    addChange(
+      ctx,
+      'request-body-added',
+      !!headBody.required,
+      'request body',
+      `${headBody.required ? 'Required' : 'Optional'} request body was added`,
+      'head',
+      toPointer([...operationPointer, 'requestBody']),
+    );
+  } else if (baseBody && headBody) {
+    if (!baseBody.required && headBody.required) {
+      addChange(
+        ctx,
+        'request-body-required',
+        true,
+        'request body',
+        'Request body became required',
+        'head',
+        toPointer([...operationPointer, 'requestBody', 'required']),
+      );
+    }
+    compareContent(
+      ctx,
+      baseBody.content,
+      headBody.content,
+      'request',
+      'request body',
+      [...operationPointer, 'requestBody'],
+    );
+  }
+
+  const headResponses = head.responses ?? {};
+  Object.entries(base.responses ?? {}).forEach(([code, baseValue]) => {
+    const responsePointer = [...operationPointer, 'responses', code];
+
+    if (!(code in headResponses)) {
+      addChange(
+        ctx,
+        'response-removed',
+        true,
+        code,
+        `Response ${code} was removed`,
+        'base',
+        toPointer(responsePointer),
+      );
+      return;
+    }
+
+    const baseResponse = resolve<OpenAPIV3.ResponseObject>(ctx.base, baseValue);
+    const headResponse = resolve<OpenAPIV3.ResponseObject>(
+      ctx.head,
+      headResponses[code],
+    );
+    compareContent(
+      ctx,
+      baseResponse?.content,
+      headResponse?.content,
+      'response',
+      `response ${code}`,
+      responsePointer,
+    );
+  });
+
+  Object.keys(headResponses)
+    .filter((code) => !(code in (base.responses ?? {})))
+    .forEach((code) => {
+      addChange(
+        ctx,
+        'response-added',
+        false,
+        code,
+        `Response ${code} was added`,
+        'head',
+        toPointer([...operationPointer, 'responses', code]),
+      );
+    });
+
+  const baseSecurity = base.security ?? ctx.base.security ?? [];
+  const headSecurity = head.security ?? ctx.head.security ?? [];
+  if (!isDeepStrictEqual(baseSecurity, headSecurity)) {
+    const tightened = isSecurityTightened(baseSecurity, headSecurity);
+    addChange(
+      ctx,
+      tightened ? 'security-tightened' : 'security-changed',
+      tightened,
+      '',
+      tightened
+        ? 'Security requirements were tightened'
+        : 'Security requirements changed without requiring more of callers',
+      'head',
+      toPointer(
+        head.security ? [...operationPointer, 'security'] : ['security'],
+      ),
+    );
+  }
+}
+
+/**
+ * Classify the changes between two versions of an OpenAPI document as
+ * breaking or non-breaking. Changes listed in the head document's
+ * `x-specscore-approved-changes` are marked as approved.
+ * @param base - Document before the change
+ * @param head - Document after the change
+ */
+export function detectChanges(
+  base: OpenAPIV3.Document,
+  head: OpenAPIV3.Document,
+): ContractChange[] {
+  const changes: ContractChange[] = [];
+
+  Object.entries(base.paths ?? {}).forEach(([path, basePathItem]) => {
+    HTTP_METHODS.forEach((method) => {
+      const baseOperation = basePathItem?.[method];
+      if (!baseOperation) return;
+
+      const ctx: CompareContext = {
+        base,
+        head,
+        operation: `${method.toUpperCase()} ${path}`,
+        changes,
+      };
+      const headOperation = head.paths?.[path]?.[method];
+
+      if (!headOperation) {
+        addChange(
+          ctx,
+          'operation-removed',
+          true,
+          '',
+          'Operation was removed',
+          'base',
+          toPointer(['paths', path, method]),
+        );
+        return;
+      }
+
+      compareOperations(ctx, path, method, baseOperation, headOperation);
+    });
+  });
+
+  Object.entries(head.paths ?? {}).forEach(([path, headPathItem]) => {
+    HTTP_METHODS.forEach((method) => {
+      if (!headPathItem?.[method] || base.paths?.[path]?.[method]) return;
+      addChange(
+        { base, head, operation: `${method.toUpperCase()} ${path}`, changes },
+        'operation-added',
+        false,
+        '',
+        'Operation was added',
+        'head',
+        toPointer(['paths', path, method]),
+      );
+    });
+  });
+
+  const approvals = (head as unknown as Record<string, unknown>)[
+    APPROVED_CHANGES_EXTENSION
+  ];
+  if (Array.isArray(approvals)) {
+    changes.forEach((change) => {
+      change.approved = approvals.includes(change.key);
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Classify the changes between two parsed versions of a specification.
+ * `$ref`s are resolved across every file of each version first, so changes
+ * in split files are found too, and each change is located in its source.
+ * @param base - Specification before the change
+ * @param head - Specification after the change
+ */
+export function detectSpecChanges(
+  base: ParsedSpec,
+  head: ParsedSpec,
+): ContractChange[] {
+  const changes = detectChanges(
+    resolveRefs(base) as OpenAPIV3.Document,
+    resolveRefs(head) as OpenAPIV3.Document,
+  );
+  changes.forEach((change) => {
+    const { sourceMap } = change.side === 'base' ? base : head;
+    change.location = sourceMap.locate(change.pointer);
+  });
+  return changes;
+}
+
+/**
+ * Breaking changes that are not approved
+ */
+export function getUnapprovedBreakingChanges(
+  changes: ContractChange[],
+): ContractChange[] {
+  return changes.filter((change) => change.breaking && !change.approved);
+}
+
+const changeLabel = (change: ContractChange) =>
+  change.breaking
+    ? change.approved
+      ? 'breaking (approved)'
+      : 'breaking'
+    : 'non-breaking';
+
+/**
+ * Render breaking change results as Markdown
+ */
+export function formatChangesMarkdown(
+  changes: ContractChange[],
+  base: string,
+  head: string,
+): string {
+  const unapproved = getUnapprovedBreakingChanges(changes);
+  const lines = [
+    '# Breaking Change Report',
+    '',
+    `**Base:** ${base}  `,
+    `**Head:** ${head}`,
+    '',
+    `**Changes:** ${changes.length} (${changes.filter((c) => c.breaking).length} breaking, ${unapproved.length} unapproved)`,
+    '',
+  ];
+
+  if (changes.length > 0) {
+    lines.push(
+      '| Type | Operation | Change | Key |',
+      '|------|-----------|--------|-----|',
+      ...changes.map(
+        (c) =>
+          `| ${changeLabel(c)} | ${c.operation} | ${c.message} | \`${c.key}\` |`,
+      ),
+      '',
+    );
+  }
+
+  if (unapproved.length > 0) {
+    lines.push(
+      `To approve a breaking change, add its key to \`${APPROVED_CHANGES_EXTENSION}\` in the head document.`,
+      '',
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Print breaking change results to the console, breaking changes first
+ */
+export function printChanges(changes: ContractChange[]): void {
+  const unapproved = getUnapprovedBreakingChanges(changes);
+  const sorted = [...changes].sort(
+    (a, b) =>
+      Number(b.breaking && !b.approved) - Number(a.breaking && !a.approved) ||
+      Number(b.breaking) - Number(a.breaking),
+  );
+
+  consola.log('');
+  consola.info(chalk.bold('Contract Changes'));
+
+  if (changes.length === 0) {
+    consola.log(`   ${chalk.green('No contract changes')}`);
+  }
+
+  sorted.forEach((change) => {
+    const label = change.breaking
+      ? change.approved
+        ? chalk.yellow('✓ approved')
+        : chalk.red('✗ breaking')
+      : chalk.gray('• non-breaking');
+    consola.log(
+      `   ${label} ${chalk.cyan(change.operation)} ${change.message}`,
+    );
+    consola.log(
+      `      ${chalk.gray(
+        change.location ? formatLocation(change.location) : change.pointer,
+      )}  ${chalk.gray(change.key)}`,
+    );
+  });
+  consola.log('');
+
+  if (unapproved.length > 0) {
+    consola.error(
+      `${unapproved.length} unapproved breaking change(s). Approve them by adding their keys to ${APPROVED_CHANGES_EXTENSION} in the head document.`,
+    );
+  } else {
+    consola.success('No unapproved breaking changes');
+  }
+}
@@ -0,0 +1,226 @@
+import { readFile, stat } from 'node:fs/promises';
+import { dirname, extname, join, resolve } from 'node:path';
+import { load } from 'js-yaml';
+import { DEFAULT_THRESHOLDS, type EvaluatorThresholds } from './evaluators';
+import { importModule } from './modules';
+import { CASINGS, DEFAULT_NAMING, type NamingConventions } from './naming';
+
+/**
+ * Per-criterion overrides, keyed by evaluator id in the config file
+ */
+export interface CriterionConfig {
+  /** Maximum points for the criterion before the total is normalised to 100 */
+  weight?: number;
+  /** Set to false to leave the criterion out of the score entirely */
+  enabled?: boolean;
+}
+
+/**
+ * Minimum total score required for each letter grade; anything lower is an F
+ */
+export interface GradeThresholds {
+  A: number;
+  B: number;
+  C: number;
+  D: number;
+}
+
+/**
+ * Project configuration read from `.specscorerc` or `specscore.config.*`
+ */
+export interface SpecScoreConfig {
+  criteria?: Record<string, CriterionConfig>;
+  grades?: Partial<GradeThresholds>;
+  thresholds?: Partial<EvaluatorThresholds>;
+  /** Casing each kind of name must follow; inferred by default */
+  naming?: Partial<NamingConventions>;
+}
+
+export const DEFAULT_GRADES: GradeThresholds = {
+  A: 80,
+  B: 70,
+  C: 60,
+  D: 50,
+};
+
+/**
+ * Letter grade of a score out of 100
+ */
+export function gradeFor(
+  score: number,
+  grades: GradeThresholds = DEFAULT_GRADES,
+): string {
+  if (score >= grades.A) return 'A';
+  if (score >= grades.B) return 'B';
+  if (score >= grades.C) return 'C';
+  if (score >= grades.D) return 'D';
+  return 'F';
+}
+
+/**
+ * File names searched for, in order, in each directory during discovery
+ */
+export const CONFIG_FILE_NAMES = [
+  '.specscorerc',
+  '.specscorerc.json',
+  '.specscorerc.yaml',
+  '.specscorerc.yml',
+  'specscore.config.json',
+  'specscore.config.yaml',
+  'specscore.config.yml',
+  'specscore.config.ts',
+];
+
+/**
+ * Helper for TypeScript config files to get type checking on their export
+ */
+export function defineConfig(config: SpecScoreConfig): SpecScoreConfig {
+  return config;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    return (await stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Looks for the first of `names` in the given directory and each of its parents
+ * @param names - File names to look for, in order of preference
+ * @param cwd - Directory to start searching from
+ */
+export async function findUp(
+  names: string[],
+  cwd: string = process.cwd(),
+): Promise<string | undefined> {
+  let directory = resolve(cwd);
+
+  while (true) {
+    for (const name of names) {
+      const candidate = join(directory, name);
+      if (await fileExists(candidate)) {
+        return candidate;
+      }
+    }
+
+    const parent = dirname(directory);
+    if (parent === directory) {
+      return undefined;
+    }
+    directory = parent;
+  }
+}
+
+/**
+ * Looks for a config file in the given directory and each of its parents
+ * @param cwd - Directory to start searching from
+ * @returns Path to the first config file found, if any
+ */
+export async function findConfig(
+  cwd: string = process.cwd(),
+): Promise<string | undefined> {
+  return findUp(CONFIG_FILE_NAMES, cwd);
+}
+
+function assertNumber(value: unknown, path: string, max?: number): void {
+  if (value === undefined) return;
+  if (
+    typeof value !== 'number' ||
+    Number.isNaN(value) ||
+    value < 0 ||
+    (max !== undefined && value > max)
+  ) {
+    throw new Error(
+      `Invalid config: ${path} must be a number between 0 and ${max ?? 'Infinity'}`,
+    );
+  }
+}
+
+/**
+ * Checks the shape of a parsed config object and throws on invalid values
+ */
+export function validateConfig(config: unknown): SpecScoreConfig {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error('Invalid config: expected an object');
+  }
+
+  const { criteria, grades, thresholds, naming } = config as SpecScoreConfig;
+
+  Object.entries(criteria ?? {}).forEach(([id, criterion]) => {
+    if (!criterion || typeof criterion !== 'object') {
+      throw new Error(`Invalid config: criteria.${id} must be an object`);
+    }
+    assertNumber(criterion.weight, `criteria.${id}.weight`);
+    if (
+      criterion.enabled !== undefined &&
+      typeof criterion.enabled !== 'boolean'
+    ) {
+      throw new Error(`Invalid config: criteria.${id}.enabled must be boolean`);
+    }
+  });
+
+  Object.entries(grades ?? {}).forEach(([grade, value]) => {
+    if (!(grade in DEFAULT_GRADES)) {
+      throw new Error(`Invalid config: unknown grade "${grade}"`);
+    }
+    assertNumber(value, `grades.${grade}`, 100);
+  });
+
+  const merged = { ...DEFAULT_GRADES, ...grades };
+  if (!(merged.A >= merged.B && merged.B >= merged.C && merged.C >= merged.D)) {
+    throw new Error(
+      'Invalid config: grade boundaries must be A >= B >= C >= D',
+    );
+  }
+
+  Object.entries(thresholds ?? {}).forEach(([name, value]) => {
+    if (!(name in DEFAULT_THRESHOLDS)) {
+      throw new Error(`Invalid config: unknown threshold "${name}"`);
+    }
+    assertNumber(
+      value,
+      `thresholds.${name}`,
+      name.endsWith('Ratio') ? 1 : undefined,
+    );
+  });
+
+  Object.entries(naming ?? {}).forEach(([name, value]) => {
+    if (!(name in DEFAULT_NAMING)) {
+      throw new Error(`Invalid config: unknown naming convention "${name}"`);
+    }
+    if (value !== 'infer' && !(CASINGS as readonly unknown[]).includes(value)) {
+      throw new Error(
+        `Invalid config: naming.${name} must be one of: infer, ${CASINGS.join(', ')}`,
+      );
+    }
+  });
+
+  return config as SpecScoreConfig;
+}
+
+/**
+ * Reads and validates a config file. `.ts` files are imported and must
+ * default-export the config; every other file is parsed as YAML or JSON.
+ * @param configPath - Path to the config file
+ */
+export async function loadConfig(configPath: string): Promise<SpecScoreConfig> {
+  let parsed: unknown;
+
+  try {
+    if (extname(configPath) === '.ts') {
+      parsed = (await importModule(configPath)).default;
+    } else {
+      parsed = load(await readFile(configPath, 'utf-8')) ?? {};
+    }
+  } catch (error) {
+    throw new Error(
+      `Failed to load config ${configPath}: ${
+        error instanceof Error ? error.message : error
+      }`,
+    );
+  }
+
+  return validateConfig(parsed);
+}
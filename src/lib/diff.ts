@@ -0,0 +1,316 @@
+import { isDeepStrictEqual } from 'node:util';
+import chalk from 'chalk';
+import consola from 'consola';
+import type { OpenAPIV3 } from 'openapi-types';
+import { getAsyncOperations, isAsyncAPI, type SpecDocument } from './asyncapi';
+import { HTTP_METHODS } from './breakdown';
+import { type Finding, findingKey, formatTarget, getIssues } from './findings';
+import type { ScoringResult } from './reporter';
+import { formatLocation } from './source-map';
+
+/**
+ * Score of one criterion in both versions; `old` or `new` is missing when
+ * the criterion was only scored in one of them
+ */
+export interface CriterionDelta {
+  id?: string;
+  name: string;
+  old?: number;
+  new?: number;
+  maxScore: number;
+  delta: number;
+}
+
+/**
+ * Names of added, removed and changed items
+ */
+export interface ChangeSet {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+/**
+ * Difference between the scoring results of two versions of a specification
+ */
+export interface SpecDiff {
+  old: { source: string; totalScore: number; grade: string };
+  new: { source: string; totalScore: number; grade: string };
+  /** Change of the total score, positive when the new version is better */
+  delta: number;
+  criteria: CriterionDelta[];
+  /** Errors, warnings and hints only; `info` observations are not compared */
+  findings: { introduced: Finding[]; resolved: Finding[] };
+  /** `paths` holds the channels of AsyncAPI documents */
+  changes: { paths: ChangeSet; operations: ChangeSet; schemas: ChangeSet };
+}
+
+/**
+ * Compare two maps of named items by deep equality
+ */
+function compareItems(
+  oldItems: Record<string, unknown>,
+  newItems: Record<string, unknown>,
+): ChangeSet {
+  const oldNames = Object.keys(oldItems);
+  const newNames = Object.keys(newItems);
+
+  return {
+    added: newNames.filter((name) => !(name in oldItems)),
+    removed: oldNames.filter((name) => !(name in newItems)),
+    changed: oldNames.filter(
+      (name) =>
+        name in newItems && !isDeepStrictEqual(oldItems[name], newItems[name]),
+    ),
+  };
+}
+
+/**
+ * Paths of an OpenAPI document, or channels of an AsyncAPI document
+ */
+function pathsOf(document: SpecDocument): Record<string, unknown> {
+  return (isAsyncAPI(document) ? document.channels : document.paths) ?? {};
+}
+
+function operationsOf(document: SpecDocument): Record<string, unknown> {
+  if (isAsyncAPI(document)) {
+    return Object.fromEntries(
+      getAsyncOperations(document).map(({ name, operation }) => [
+        name,
+        operation,
+      ]),
+    );
+  }
+
+  const operations: Record<string, OpenAPIV3.OperationObject> = {};
+
+  Object.entries(document.paths ?? {}).forEach(([path, pathItem]) => {
+    HTTP_METHODS.forEach((method) => {
+      const operation = pathItem?.[method];
+      if (operation) {
+        operations[`${method.toUpperCase()} ${path}`] = operation;
+      }
+    });
+  });
+
+  return operations;
+}
+
+function diffFindings(
+  oldResult: ScoringResult,
+  newResult: ScoringResult,
+): SpecDiff['findings'] {
+  const oldFindings = getIssues(oldResult.criteria.flatMap((c) => c.findings));
+  const newFindings = getIssues(newResult.criteria.flatMap((c) => c.findings));
+  const oldKey = (f: Finding) => findingKey(f, oldResult.document);
+  const newKey = (f: Finding) => findingKey(f, newResult.document);
+  const oldKeys = new Set(oldFindings.map(oldKey));
+  const newKeys = new Set(newFindings.map(newKey));
+
+  return {
+    introduced: newFindings.filter((f) => !oldKeys.has(newKey(f))),
+    resolved: oldFindings.filter((f) => !newKeys.has(oldKey(f))),
+  };
+}
+
+/**
+ * Compare the scoring results of two versions of a specification
+ * @param oldResult - Result for the base version
+ * @param newResult - Result for the changed version
+ */
+export function diffSpecs(
+  oldResult: ScoringResult,
+  newResult: ScoringResult,
+): SpecDiff {
+  const criteria: CriterionDelta[] = newResult.criteria.map((criterion) => {
+    const previous = oldResult.criteria.find(
+      (c) => (c.id ?? c.name) === (criterion.id ?? criterion.name),
+    );
+    return {
+      id: criterion.id,
+      name: criterion.name,
+      old: previous?.score,
+      new: criterion.score,
+      maxScore: criterion.maxScore,
+      delta: criterion.score - (previous?.score ?? 0),
+    };
+  });
+
+  oldResult.criteria
+    .filter(
+      (criterion) =>
+        !criteria.some(
+          (c) => (c.id ?? c.name) === (criterion.id ?? criterion.name),
+        ),
+    )
+    .forEach((criterion) => {
+      criteria.push({
+        id: criterion.id,
+        name: criterion.name,
+        old: criterion.score,
+        maxScore: criterion.maxScore,
+        delta: -criterion.score,
+      });
+    });
+
+  return {
+    old: {
+      source: oldResult.source,
+      totalScore: oldResult.totalScore,
+      grade: oldResult.grade,
+    },
+    new: {
+      source: newResult.source,
+      totalScore: newResult.totalScore,
+      grade: newResult.grade,
+    },
+    delta: newResult.totalScore - oldResult.totalScore,
+    criteria,
+    findings: diffFindings(oldResult, newResult),
+    changes: {
+      paths: compareItems(
+        pathsOf(oldResult.document),
+        pathsOf(newResult.document),
+      ),
+      operations: compareItems(
+        operationsOf(oldResult.document),
+        operationsOf(newResult.document),
+      ),
+      schemas: compareItems(
+        oldResult.document.components?.schemas ?? {},
+        newResult.document.components?.schemas ?? {},
+      ),
+    },
+  };
+}
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
+const describeFinding = (finding: Finding) =>
+  `[${finding.ruleId}] ${formatTarget(finding.target)}: ${finding.message}`;
+
+/**
+ * Render a diff as Markdown, e.g. for a pull request comment
+ */
+export function formatDiffMarkdown(diff: SpecDiff): string {
+  const lines = [
+    '# OpenAPI Score Diff',
+    '',
+    `**Base:** ${diff.old.source}  `,
+    `**Head:** ${diff.new.source}`,
+    '',
+    `**Overall Score:** ${diff.old.totalScore} (${diff.old.grade}) → ${diff.new.totalScore} (${diff.new.grade}) **${formatDelta(diff.delta)}**`,
+    '',
+    '## Criteria',
+    '',
+    '| Criteria | Base | Head | Change |',
+    '|----------|------|------|--------|',
+    ...diff.criteria.map(
+      (c) =>
+        `| ${c.name} | ${c.old ?? '-'} | ${c.new ?? '-'} | ${formatDelta(c.delta)} |`,
+    ),
+    '',
+  ];
+
+  const findingSection = (title: string, findings: Finding[]) => {
+    if (findings.length === 0) return;
+    lines.push(`## ${title} (${findings.length})`, '');
+    findings.forEach((f) => {
+      lines.push(`- \`${f.severity}\` ${describeFinding(f)}`);
+    });
+    lines.push('');
+  };
+  findingSection('New Findings', diff.findings.introduced);
+  findingSection('Resolved Findings', diff.findings.resolved);
+
+  const changeSections: Array<[string, ChangeSet]> = [
+    ['Paths', diff.changes.paths],
+    ['Operations', diff.changes.operations],
+    ['Schemas', diff.changes.schemas],
+  ];
+  const hasChanges = changeSections.some(
+    ([, set]) => set.added.length + set.removed.length + set.changed.length > 0,
+  );
+
+  if (hasChanges) {
+    lines.push('## Contract Changes', '');
+    changeSections.forEach(([title, set]) => {
+      const entries = [
+        ...set.added.map((name) => `- Added \`${name}\``),
+        ...set.removed.map((name) => `- Removed \`${name}\``),
+        ...set.changed.map((name) => `- Changed \`${name}\``),
+      ];
+      if (entries.length > 0) {
+        lines.push(`### ${title}`, '', ...entries, '');
+      }
+    });
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Print a diff to the console
+ */
+export function printDiff(diff: SpecDiff): void {
+  const colorDelta = (delta: number) =>
+    delta > 0
+      ? chalk.green(formatDelta(delta))
+      : delta < 0
+        ? chalk.red(formatDelta(delta))
+        : chalk.gray('±0');
+
+  consola.log('');
+  consola.info(chalk.bold('OpenAPI Score Diff'));
+  consola.log(`   ${chalk.cyan('Base:')} ${chalk.white(diff.old.source)}`);
+  consola.log(`   ${chalk.cyan('Head:')} ${chalk.white(diff.new.source)}`);
+  consola.log(
+    `   ${chalk.cyan('Overall Score:')} ${diff.old.totalScore} (${diff.old.grade}) → ${chalk.bold(
+      `${diff.new.totalScore} (${diff.new.grade})`,
+    )} ${colorDelta(diff.delta)}`,
+  );
+  consola.log('');
+
+  consola.info(chalk.blue.bold('Criteria:'));
+  diff.criteria.forEach((c) => {
+    consola.log(
+      `   ${chalk.cyan(c.name.padEnd(30))} ${String(c.old ?? '-').padStart(3)} → ${String(
+        c.new ?? '-',
+      ).padStart(3)}  ${colorDelta(c.delta)}`,
+    );
+  });
+  consola.log('');
+
+  const printFindings = (title: string, findings: Finding[], icon: string) => {
+    if (findings.length === 0) return;
+    consola.info(chalk.blue.bold(`${title} (${findings.length}):`));
+    findings.forEach((f) => {
+      consola.log(`   ${icon} ${describeFinding(f)}`);
+      if (f.location) {
+        consola.log(`      ${chalk.gray(formatLocation(f.location))}`);
+      }
+    });
+    consola.log('');
+  };
+  printFindings('New Findings', diff.findings.introduced, chalk.red('+'));
+  printFindings('Resolved Findings', diff.findings.resolved, chalk.green('-'));
+
+  const printChanges = (title: string, set: ChangeSet) => {
+    const total = set.added.length + set.removed.length + set.changed.length;
+    if (total === 0) return;
+    consola.info(chalk.blue.bold(`${title}:`));
+    set.added.forEach((name) => {
+      consola.log(`   ${chalk.green('+')} ${name}`);
+    });
+    set.removed.forEach((name) => {
+      consola.log(`   ${chalk.red('-')} ${name}`);
+    });
+    set.changed.forEach((name) => {
+      consola.log(`   ${chalk.yellow('~')} ${name}`);
+    });
+    consola.log('');
+  };
+  printChanges('Paths', diff.changes.paths);
+  printChanges('Operations', diff.changes.operations);
+  printChanges('Schemas', diff.changes.schemas);
+}
@@ -1,158 +1,757 @@
 import type { OpenAPIV3 } from 'openapi-types';
+import {
+  createCriteriaScore,
+  type Finding,
+  type FindingTarget,
+} from './findings';
+import {
+  DEFAULT_NAMING,
+  hasCasing,
+  inferCasing,
+  type NamingConvention,
+  type NamingConventions,
+  toCasing,
+} from './naming';
+import {
+  collectSchemas,
+  getPathItems,
+  hasMediaTypeExample,
+  isOpenAPI31,
+  pathItemLabel,
+  type SchemaEntry,
+  schemaTypes,
+} from './openapi';
+import { operationPointer, toPointer } from './pointer';
+import { getRule } from './rules';
+import type { Suppressions } from './suppressions';
 
 /**
  * Individual scoring result for a specific criteria
  */
 export interface CriteriaScore {
+  /** Id of the evaluator that produced the score, set by the scorer */
+  id?: string;
   name: string;
   score: number;
   maxScore: number;
   percentage: number;
+  findings: Finding[];
+  /** Document-level observations, derived from `findings` */
   feedback: string[];
+  /** Distinct suggestions, derived from `findings` */
   suggestions: string[];
 }
 
+/**
+ * Tunable thresholds used by the built-in evaluators.
+ * `*SuggestionRatio` values are fractions of the criterion's max score below
+ * which the generic improvement suggestions are added.
+ */
+export interface EvaluatorThresholds {
+  schemaSuggestionRatio: number;
+  descriptionSuggestionRatio: number;
+  pathsSuggestionRatio: number;
+  responseCodesSuggestionRatio: number;
+  examplesSuggestionRatio: number;
+  bestPracticesSuggestionRatio: number;
+  /** Minimum length for info.description to count as meaningful */
+  minInfoDescriptionLength: number;
+  /** Minimum length for an operation description to count */
+  minOperationDescriptionLength: number;
+}
+
+export const DEFAULT_THRESHOLDS: EvaluatorThresholds = {
+  schemaSuggestionRatio: 0.5,
+  descriptionSuggestionRatio: 0.7,
+  pathsSuggestionRatio: 0.6,
+  responseCodesSuggestionRatio: 0.5,
+  examplesSuggestionRatio: 0.3,
+  bestPracticesSuggestionRatio: 0.4,
+  minInfoDescriptionLength: 10,
+  minOperationDescriptionLength: 5,
+};
+
+/**
+ * Create a finding with the severity registered for its rule
+ */
+function finding(
+  ruleId: string,
+  message: string,
+  options: {
+    suggestion?: string;
+    target?: FindingTarget;
+    pointer?: string;
+  } = {},
+): Finding {
+  return {
+    ruleId,
+    severity: getRule(ruleId)?.severity ?? 'info',
+    message,
+    ...options,
+  };
+}
+
+/**
+ * Points earned for a coverage ratio. Suppressed items are left out of the
+ * ratio; when every item is suppressed the points are excluded instead.
+ */
+function coveragePoints(
+  covered: number,
+  total: number,
+  suppressed: number,
+  points: number,
+): { score: number; excluded: number } {
+  if (total - suppressed > 0) {
+    return { score: (covered / (total - suppressed)) * points, excluded: 0 };
+  }
+  return { score: 0, excluded: total > 0 ? points : 0 };
+}
+
+/**
+ * Criterion left out of the score because an OpenAPI 3.1 document has no
+ * paths; 3.1 documents may describe only webhooks or components
+ */
+function pathsOmitted(name: string, ruleId: string): CriteriaScore {
+  return createCriteriaScore({
+    name,
+    score: 0,
+    maxScore: 0,
+    findings: [finding(ruleId, 'No paths defined; path checks do not apply')],
+  });
+}
+
+function operationTarget(method: string, path: string): FindingTarget {
+  return { kind: 'operation', name: `${method.toUpperCase()} ${path}` };
+}
+
+/**
+ * A name checked against a naming convention and where it is defined
+ */
+interface NamedNode {
+  name: string;
+  target?: FindingTarget;
+  pointer: string;
+}
+
+/**
+ * Points for the share of names following a convention. Without names the
+ * points are excluded; `infer` uses the casing most of the names follow.
+ */
+function casingPoints(
+  nodes: NamedNode[],
+  convention: NamingConvention,
+  kind: { ruleId: string; singular: string; plural: string },
+  points: number,
+  suppressions?: Suppressions,
+): { score: number; excluded: number; findings: Finding[] } {
+  if (nodes.length === 0) {
+    return { score: 0, excluded: points, findings: [] };
+  }
+
+  const casing =
+    convention === 'infer'
+      ? (inferCasing(nodes.map(({ name }) => name)) ?? 'camelCase')
+      : convention;
+  const violations = nodes.filter(({ name }) => !hasCasing(name, casing));
+  const suppressed = violations.filter(({ pointer }) =>
+    suppressions?.isSuppressed(kind.ruleId, pointer),
+  ).length;
+  const { score, excluded } = coveragePoints(
+    nodes.length - violations.length,
+    nodes.length,
+    suppressed,
+    points,
+  );
+
+  return {
+    score,
+    excluded,
+    findings: [
+      finding(
+        'naming/conventions',
+        `${nodes.length - violations.length}/${nodes.length} ${kind.plural} are ${casing}${
+          convention === 'infer' ? ' (inferred)' : ''
+        }`,
+      ),
+      ...violations.map(({ name, target, pointer }) =>
+        finding(
+          kind.ruleId,
+          `${kind.singular} "${name}" is not ${casing}; expected "${toCasing(name, casing)}"`,
+          {
+            suggestion: `Name ${kind.plural} consistently in ${casing}`,
+            target,
+            pointer,
+          },
+        ),
+      ),
+    ],
+  };
+}
+
+type PaginationStyle = 'cursor' | 'offset' | 'page';
+
+/**
+ * Query parameters that select a page, by pagination style. Names are
+ * compared lowercase without separators, so `page_token` is `pagetoken`.
+ */
+const PAGINATION_PARAMETERS: Record<PaginationStyle, string[]> = {
+  cursor: [
+    'cursor',
+    'pagecursor',
+    'after',
+    'before',
+    'pagetoken',
+    'nexttoken',
+    'continuationtoken',
+    'startingafter',
+  ],
+  offset: ['offset', 'skip'],
+  page: ['page', 'pagenumber', 'pageindex'],
+};
+
+const LIMIT_PARAMETERS = [
+  'limit',
+  'size',
+  'pagesize',
+  'perpage',
+  'pagelimit',
+  'maxresults',
+  'top',
+];
+const SORT_PARAMETERS = ['sort', 'sortby', 'orderby', 'order', 'ordering'];
+const FILTER_PARAMETERS = ['filter', 'q', 'query', 'search'];
+
+/** Envelope properties that hold the items of a page */
+const ITEM_PROPERTIES = [
+  'data',
+  'items',
+  'results',
+  'records',
+  'entries',
+  'content',
+  'values',
+];
+/** Envelope properties that lead to the next page or tell whether there is one */
+const NEXT_PROPERTIES = [
+  'next',
+  'nextcursor',
+  'nextpagetoken',
+  'nextpage',
+  'nextlink',
+  'nexturl',
+  'hasmore',
+  'hasnext',
+  'hasnextpage',
+];
+const TOTAL_PROPERTIES = [
+  'total',
+  'totalcount',
+  'totalitems',
+  'totalresults',
+  'totalpages',
+  'count',
+];
+
+const normalizeName = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * The most frequent value, preferring the first seen on a tie
+ */
+function majority<T>(values: T[]): T | undefined {
+  const counts = new Map<T, number>();
+  values.forEach((value) => {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  });
+  let best: T | undefined;
+  counts.forEach((count, value) => {
+    if (best === undefined || count > (counts.get(best) ?? 0)) {
+      best = value;
+    }
+  });
+  return best;
+}
+
+/**
+ * A query parameter of a collection endpoint and where it is defined
+ */
+interface QueryParameter {
+  name: string;
+  key: string;
+  schema?: OpenAPIV3.SchemaObject;
+  pointer: string;
+}
+
+/**
+ * A GET operation that lists a collection, with what pagination needs
+ */
+interface CollectionOperation {
+  target: FindingTarget;
+  pointer: string;
+  parameters: QueryParameter[];
+  style?: PaginationStyle;
+  /** Success response and its JSON schema, if described */
+  response?: {
+    pointer: string;
+    schema?: OpenAPIV3.SchemaObject;
+    headers: string[];
+  };
+}
+
+const isSchemaObject = (value: unknown): value is OpenAPIV3.SchemaObject =>
+  !!value && typeof value === 'object' && !('$ref' in value);
+
+/**
+ * Array property of a page envelope holding the items, e.g. `data`
+ */
+function envelopeItems(
+  schema: OpenAPIV3.SchemaObject,
+  path: string,
+): string | undefined {
+  const lastSegment = normalizeName(path.split('/').at(-1) ?? '');
+  return Object.entries(schema.properties ?? {}).find(
+    ([name, property]) =>
+      isSchemaObject(property) &&
+      schemaTypes(property).includes('array') &&
+      [...ITEM_PROPERTIES, lastSegment].includes(normalizeName(name)),
+  )?.[0];
+}
+
+/**
+ * Describe a GET operation if it lists a collection: its success response
+ * is an array or a page envelope, or, without a response schema, its path
+ * does not end in a parameter such as `{id}`
+ */
+function collectionOperation(
+  path: string,
+  pathItem: OpenAPIV3.PathItemObject,
+  operation: OpenAPIV3.OperationObject,
+): CollectionOperation | undefined {
+  const pointer = operationPointer(path, 'get');
+  const [code, response] =
+    Object.entries(operation.responses).find(([status]) =>
+      status.startsWith('2'),
+    ) ?? [];
+  const content =
+    response && 'content' in response ? (response.content ?? {}) : {};
+  const mediaType =
+    content['application/json'] ??
+    Object.values(content).find((entry) => entry.schema);
+  const schema = isSchemaObject(mediaType?.schema)
+    ? mediaType.schema
+    : undefined;
+
+  const isCollection = schema
+    ? schemaTypes(schema).includes('array') ||
+      envelopeItems(schema, path) !== undefined
+    : !/^\{[^}]+\}$/.test(path.split('/').at(-1) ?? '');
+  if (!isCollection) return undefined;
+
+  const parameters: QueryParameter[] = [];
+  (
+    [
+      [pathItem.parameters, toPointer(['paths', path])],
+      [operation.parameters, pointer],
+    ] as const
+  ).forEach(([list, base]) => {
+    (list ?? []).forEach((parameter, index) => {
+      if ('name' in parameter && parameter.in === 'query') {
+        parameters.push({
+          name: parameter.name,
+          key: normalizeName(parameter.name),
+          schema: isSchemaObject(parameter.schema)
+            ? parameter.schema
+            : undefined,
+          pointer: `${base}${toPointer(['parameters', index])}`,
+        });
+      }
+    });
+  });
+
+  const keys = parameters.map(({ key }) => key);
+  const style = (['cursor', 'offset', 'page'] as const).find((candidate) =>
+    PAGINATION_PARAMETERS[candidate].some((name) => keys.includes(name)),
+  );
+
+  return {
+    target: operationTarget('get', path),
+    pointer,
+    parameters,
+    style,
+    response:
+      code && response
+        ? {
+            pointer: `${pointer}${toPointer(['responses', code])}`,
+            schema,
+            headers: Object.keys(
+              ('headers' in response && response.headers) || {},
+            ).map(normalizeName),
+          }
+        : undefined,
+  };
+}
+
+/**
+ * URLs each OAuth2 flow must declare
+ */
+const OAUTH_FLOW_URLS: Record<string, string[]> = {
+  implicit: ['authorizationUrl'],
+  password: ['tokenUrl'],
+  clientCredentials: ['tokenUrl'],
+  authorizationCode: ['authorizationUrl', 'tokenUrl'],
+};
+
+/** Media type of RFC 9457 problem details */
+const PROBLEM_JSON = 'application/problem+json';
+
+/**
+ * Members an error model needs, each satisfied by any of its names: RFC 9457
+ * members for problem details, a code and a message for custom models
+ */
+const ERROR_MODEL_FIELDS: Record<'problem' | 'custom', string[][]> = {
+  problem: [['type'], ['title'], ['status']],
+  custom: [
+    ['code', 'error', 'errorcode', 'type'],
+    ['message', 'detail', 'title', 'description', 'errormessage'],
+  ],
+};
+
+/**
+ * Property names of a schema, including those of its `allOf` members
+ */
+function schemaPropertyNames(schema: OpenAPIV3.SchemaObject): string[] {
+  return [
+    ...new Set([
+      ...Object.keys(schema.properties ?? {}),
+      ...(schema.allOf ?? []).flatMap((member) =>
+        isSchemaObject(member) ? schemaPropertyNames(member) : [],
+      ),
+    ]),
+  ].sort();
+}
+
+/**
+ * Shape of an error body: its property names, or its type when it has none
+ */
+const errorShape = (schema: OpenAPIV3.SchemaObject) =>
+  schemaPropertyNames(schema).join(', ') ||
+  schemaTypes(schema).join(', ') ||
+  'any';
+
+/**
+ * An error response of an operation and the model of its body
+ */
+interface ErrorResponse {
+  code: string;
+  target: FindingTarget;
+  pointer: string;
+  schema?: OpenAPIV3.SchemaObject;
+  /** Whether the body is `application/problem+json` */
+  problem: boolean;
+}
+
 export class Evaluators {
+  private thresholds: EvaluatorThresholds;
+  private naming: NamingConventions;
+
+  constructor(
+    thresholds: Partial<EvaluatorThresholds> = {},
+    naming: Partial<NamingConventions> = {},
+  ) {
+    this.thresholds = { ...DEFAULT_THRESHOLDS, ...thresholds };
+    this.naming = { ...DEFAULT_NAMING, ...naming };
+  }
+
   /**
    * Score Schema & Types (20 points)
    * Evaluates proper data types and schema definitions
    */
-  scoreSchemaAndTypes(document: OpenAPIV3.Document): CriteriaScore {
+  scoreSchemaAndTypes(
+    document: OpenAPIV3.Document,
+    suppressions?: Suppressions,
+  ): CriteriaScore {
     const maxScore = 20;
     let score = 0;
-    const feedback: string[] = [];
-    const suggestions: string[] = [];
+    let excludedPoints = 0;
+    const findings: Finding[] = [];
 
-    const schemas = document.components?.schemas || {};
-    const schemaCount = Object.keys(schemas).length;
+    // `$defs` are checked for free-form objects but do not dilute the ratio
+    // of typed component schemas
+    const schemas = collectSchemas(document);
+    const schemaCount = schemas.filter(({ nested }) => !nested).length;
 
     if (schemaCount > 0) {
       score += 5;
-      feedback.push(`Found ${schemaCount} schema definitions`);
+      findings.push(
+        finding(
+          'schema-types/schemas-defined',
+          `Found ${schemaCount} schema definitions`,
+        ),
+      );
     } else {
-      feedback.push('No schema definitions found');
-      suggestions.push('Define reusable schemas in components.schemas');
+      if (
+        suppressions?.isSuppressed('schema-types/no-schemas', '/components')
+      ) {
+        excludedPoints += 5;
+      }
+      findings.push(
+        finding('schema-types/no-schemas', 'No schema definitions found', {
+          suggestion: 'Define reusable schemas in components.schemas',
+          pointer: '/components',
+        }),
+      );
     }
 
     let properlyTypedSchemas = 0;
-    let freeFormObjects = 0;
+    const freeFormObjects: SchemaEntry[] = [];
 
-    Object.entries(schemas).forEach(([_, schema]) => {
+    schemas.forEach((entry) => {
+      const { schema } = entry;
       if (schema && typeof schema === 'object' && 'type' in schema) {
-        if (schema.type === 'object' && schema.properties) {
-          properlyTypedSchemas++;
+        const isObject = schemaTypes(schema).includes('object');
+        if (isObject && schema.properties) {
+          properlyTypedSchemas += entry.nested ? 0 : 1;
         } else if (
-          schema.type === 'object' &&
+          isObject &&
           !schema.properties &&
           !schema.additionalProperties
         ) {
-          freeFormObjects++;
+          freeFormObjects.push(entry);
         }
       }
     });
 
-    if (properlyTypedSchemas > 0) {
+    const suppressedFreeForm = freeFormObjects.filter(
+      ({ pointer, nested }) =>
+        !nested &&
+        suppressions?.isSuppressed('schema-types/free-form-object', pointer),
+    ).length;
+    const typedTotal = schemaCount - suppressedFreeForm;
+
+    if (typedTotal === 0 && suppressedFreeForm > 0) {
+      excludedPoints += 10;
+    } else if (properlyTypedSchemas > 0) {
       score += Math.min(
         10,
-        (properlyTypedSchemas / Math.max(schemaCount, 1)) * 10,
+        (properlyTypedSchemas / Math.max(typedTotal, 1)) * 10,
       );
-      feedback.push(
-        `${properlyTypedSchemas} schemas have proper type definitions`,
+      findings.push(
+        finding(
+          'schema-types/typed-schemas',
+          `${properlyTypedSchemas} schemas have proper type definitions`,
+        ),
       );
     }
 
-    if (freeFormObjects > 0) {
-      feedback.push(
-        `${freeFormObjects} schemas are free-form objects without properties`,
-      );
-      suggestions.push(
-        'Define specific properties for object schemas instead of using free-form objects',
+    if (freeFormObjects.length > 0) {
+      findings.push(
+        finding(
+          'schema-types/free-form-count',
+          `${freeFormObjects.length} schemas are free-form objects without properties`,
+        ),
       );
     }
 
+    freeFormObjects.forEach(({ name, pointer }) => {
+      findings.push(
+        finding(
+          'schema-types/free-form-object',
+          'Schema is a free-form object without properties',
+          {
+            suggestion:
+              'Define specific properties for object schemas instead of using free-form objects',
+            target: { kind: 'component', name: `schemas/${name}` },
+            pointer,
+          },
+        ),
+      );
+    });
+
     let operationsWithSchemas = 0;
+    let suppressedMediaTypes = 0;
     let totalOperations = 0;
 
-    if (document.paths) {
-      Object.values(document.paths).forEach((pathItem) => {
-        if (pathItem) {
-          const methods = ['get', 'post', 'put', 'patch', 'delete'] as const;
-          methods.forEach((method) => {
-            const operation = pathItem[method];
-            if (operation) {
-              totalOperations++;
+    getPathItems(document).forEach(({ root, name: path, pathItem }) => {
+      if (pathItem) {
+        const methods = ['get', 'post', 'put', 'patch', 'delete'] as const;
+        methods.forEach((method) => {
+          const operation = pathItem[method];
+          if (operation) {
+            totalOperations++;
+            const target = operationTarget(
+              method,
+              pathItemLabel({ root, name: path }),
+            );
+            const pointer = operationPointer(path, method, root);
+
+            if (
+              operation.requestBody &&
+              typeof operation.requestBody === 'object' &&
+              'content' in operation.requestBody
+            ) {
+              Object.entries(operation.requestBody.content).forEach(
+                ([mediaTypeName, mediaType]) => {
+                  const mediaTypePointer = `${pointer}${toPointer([
+                    'requestBody',
+                    'content',
+                    mediaTypeName,
+                  ])}`;
+
+                  if (mediaType.schema) {
+                    operationsWithSchemas++;
+                  } else {
+                    if (
+                      suppressions?.isSuppressed(
+                        'schema-types/media-type-missing-schema',
+                        mediaTypePointer,
+                      )
+                    ) {
+                      suppressedMediaTypes++;
+                    }
+                    findings.push(
+                      finding(
+                        'schema-types/media-type-missing-schema',
+                        `Request body (${mediaTypeName}) has no schema`,
+                        {
+                          suggestion:
+                            'Describe request and response content with schemas',
+                          target,
+                          pointer: mediaTypePointer,
+                        },
+                      ),
+                    );
+                  }
+                },
+              );
+            }
 
+            Object.entries(operation.responses).forEach(([code, response]) => {
               if (
-                operation.requestBody &&
-                typeof operation.requestBody === 'object' &&
-                'content' in operation.requestBody
+                response &&
+                typeof response === 'object' &&
+                'content' in response
               ) {
-                Object.values(operation.requestBody.content).forEach(
-                  (mediaType) => {
-                    if (mediaType.schema) operationsWithSchemas++;
+                Object.entries(response.content || {}).forEach(
+                  ([mediaTypeName, mediaType]) => {
+                    const mediaTypePointer = `${pointer}${toPointer([
+                      'responses',
+                      code,
+                      'content',
+                      mediaTypeName,
+                    ])}`;
+
+                    if (mediaType.schema) {
+                      operationsWithSchemas++;
+                    } else {
+                      if (
+                        suppressions?.isSuppressed(
+                          'schema-types/media-type-missing-schema',
+                          mediaTypePointer,
+                        )
+                      ) {
+                        suppressedMediaTypes++;
+                      }
+                      findings.push(
+                        finding(
+                          'schema-types/media-type-missing-schema',
+                          `Response ${code} (${mediaTypeName}) has no schema`,
+                          {
+                            suggestion:
+                              'Describe request and response content with schemas',
+                            target,
+                            pointer: mediaTypePointer,
+                          },
+                        ),
+                      );
+                    }
                   },
                 );
               }
+            });
+          }
+        });
+      }
+    });
 
-              Object.values(operation.responses).forEach((response) => {
-                if (
-                  response &&
-                  typeof response === 'object' &&
-                  'content' in response
-                ) {
-                  Object.values(response.content || {}).forEach((mediaType) => {
-                    if (mediaType.schema) operationsWithSchemas++;
-                  });
-                }
-              });
-            }
-          });
-        }
-      });
-    }
-
-    if (totalOperations > 0) {
-      const schemaUsageRatio = operationsWithSchemas / (totalOperations * 2);
+    const schemaSlots = totalOperations * 2 - suppressedMediaTypes;
+    if (totalOperations > 0 && schemaSlots <= 0) {
+      excludedPoints += 5;
+    } else if (totalOperations > 0) {
+      const schemaUsageRatio = operationsWithSchemas / schemaSlots;
       score += Math.min(5, schemaUsageRatio * 5);
-      feedback.push(
-        `${Math.round(
-          schemaUsageRatio * 100,
-        )}% of operations use proper schemas`,
+      findings.push(
+        finding(
+          'schema-types/schema-usage',
+          `${Math.round(
+            schemaUsageRatio * 100,
+          )}% of operations use proper schemas`,
+        ),
       );
     }
 
-    if (score < maxScore * 0.5) {
-      suggestions.push(
-        'Increase use of strongly-typed schemas throughout the API',
+    if (
+      score <
+      (maxScore - excludedPoints) * this.thresholds.schemaSuggestionRatio
+    ) {
+      findings.push(
+        finding(
+          'schema-types/low-score',
+          'Schema & Types score is below the suggestion threshold',
+          {
+            suggestion:
+              'Increase use of strongly-typed schemas throughout the API',
+          },
+        ),
       );
     }
 
-    return {
+    return createCriteriaScore({
       name: 'Schema & Types',
-      score: Math.round(score),
-      maxScore,
-      percentage: Math.round((score / maxScore) * 100),
-      feedback,
-      suggestions,
-    };
+      score,
+      maxScore: maxScore - excludedPoints,
+      findings,
+    });
   }
 
   /**
    * Score Descriptions & Documentation (20 points)
    * Evaluates completeness of documentation
    */
-  scoreDescriptions(document: OpenAPIV3.Document): CriteriaScore {
+  scoreDescriptions(
+    document: OpenAPIV3.Document,
+    suppressions?: Suppressions,
+  ): CriteriaScore {
     const maxScore = 20;
     let score = 0;
-    const feedback: string[] = [];
-    const suggestions: string[] = [];
-
-    if (document.info.description && document.info.description.length > 10) {
+    let excludedPoints = 0;
+    const findings: Finding[] = [];
+
+    if (
+      document.info.description &&
+      document.info.description.length >
+        this.thresholds.minInfoDescriptionLength
+    ) {
       score += 3;
-      feedback.push('API has a meaningful description');
+      findings.push(
+        finding(
+          'descriptions/info-present',
+          'API has a meaningful description',
+        ),
+      );
     } else {
-      suggestions.push(
-        'Add a comprehensive description to the API info object',
+      if (suppressions?.isSuppressed('descriptions/info-missing', '/info')) {
+        excludedPoints += 3;
+      }
+      findings.push(
+        finding(
+          'descriptions/info-missing',
+          'API info object has no meaningful description',
+          {
+            suggestion:
+              'Add a comprehensive description to the API info object',
+            pointer: '/info',
+          },
+        ),
       );
     }
 
@@ -160,135 +759,271 @@ export class Evaluators {
     let operationsWithDescriptions = 0;
     let parametersWithDescriptions = 0;
     let responsesWithDescriptions = 0;
-    let totalPaths = 0;
     let totalOperations = 0;
     let totalParameters = 0;
     let totalResponses = 0;
+    let suppressedPaths = 0;
+    let suppressedOperations = 0;
+    let suppressedParameters = 0;
+    let suppressedResponses = 0;
 
-    if (document.paths) {
-      totalPaths = Object.keys(document.paths).length;
+    // Webhooks are described by their operations only
+    const totalPaths = getPathItems(document, ['paths']).length;
 
-      Object.entries(document.paths).forEach(([_, pathItem]) => {
-        if (pathItem) {
-          if (pathItem.description) {
-            pathsWithDescriptions++;
+    getPathItems(document).forEach(({ root, name: path, pathItem }) => {
+      if (pathItem) {
+        if (root === 'paths' && pathItem.description) {
+          pathsWithDescriptions++;
+        } else if (root === 'paths') {
+          if (
+            suppressions?.isSuppressed(
+              'descriptions/path-missing',
+              toPointer(['paths', path]),
+            )
+          ) {
+            suppressedPaths++;
           }
+          findings.push(
+            finding('descriptions/path-missing', 'Path has no description', {
+              suggestion:
+                'Describe the resource each path represents in its path item description',
+              target: { kind: 'path', name: path },
+              pointer: toPointer(['paths', path]),
+            }),
+          );
+        }
+
+        const methods = [
+          'get',
+          'post',
+          'put',
+          'patch',
+          'delete',
+          'options',
+          'head',
+          'trace',
+        ] as const;
+
+        methods.forEach((method) => {
+          const operation = pathItem[method];
+          if (operation) {
+            totalOperations++;
+            const target = operationTarget(
+              method,
+              pathItemLabel({ root, name: path }),
+            );
+            const pointer = operationPointer(path, method, root);
 
-          const methods = [
-            'get',
-            'post',
-            'put',
-            'patch',
-            'delete',
-            'options',
-            'head',
-            'trace',
-          ] as const;
-
-          methods.forEach((method) => {
-            const operation = pathItem[method];
-            if (operation) {
-              totalOperations++;
-
-              if (operation.description && operation.description.length > 5) {
-                operationsWithDescriptions++;
+            if (
+              operation.description &&
+              operation.description.length >
+                this.thresholds.minOperationDescriptionLength
+            ) {
+              operationsWithDescriptions++;
+            } else {
+              if (
+                suppressions?.isSuppressed(
+                  'descriptions/operation-missing',
+                  pointer,
+                )
+              ) {
+                suppressedOperations++;
               }
+              findings.push(
+                finding(
+                  'descriptions/operation-missing',
+                  'Operation has no meaningful description',
+                  {
+                    suggestion:
+                      'Describe what each operation does and when to use it',
+                    target,
+                    pointer,
+                  },
+                ),
+              );
+            }
 
-              if (operation.parameters) {
-                operation.parameters.forEach((param) => {
-                  totalParameters++;
+            if (operation.parameters) {
+              operation.parameters.forEach((param, index) => {
+                totalParameters++;
+                if (
+                  param &&
+                  typeof param === 'object' &&
+                  'description' in param &&
+                  param.description
+                ) {
+                  parametersWithDescriptions++;
+                } else {
+                  const paramName =
+                    param && 'name' in param ? param.name : param.$ref;
+                  const paramPointer = `${pointer}${toPointer(['parameters', index])}`;
                   if (
-                    param &&
-                    typeof param === 'object' &&
-                    'description' in param &&
-                    param.description
+                    suppressions?.isSuppressed(
+                      'descriptions/parameter-missing',
+                      paramPointer,
+                    )
                   ) {
-                    parametersWithDescriptions++;
+                    suppressedParameters++;
                   }
-                });
-              }
+                  findings.push(
+                    finding(
+                      'descriptions/parameter-missing',
+                      `Parameter "${paramName}" has no description`,
+                      {
+                        suggestion: 'Add descriptions to all parameters',
+                        target,
+                        pointer: paramPointer,
+                      },
+                    ),
+                  );
+                }
+              });
+            }
 
-              Object.values(operation.responses).forEach((response) => {
-                totalResponses++;
+            Object.entries(operation.responses).forEach(([code, response]) => {
+              totalResponses++;
+              if (
+                response &&
+                typeof response === 'object' &&
+                'description' in response &&
+                response.description
+              ) {
+                responsesWithDescriptions++;
+              } else {
+                const responsePointer = `${pointer}${toPointer(['responses', code])}`;
                 if (
-                  response &&
-                  typeof response === 'object' &&
-                  'description' in response &&
-                  response.description
+                  suppressions?.isSuppressed(
+                    'descriptions/response-missing',
+                    responsePointer,
+                  )
                 ) {
-                  responsesWithDescriptions++;
+                  suppressedResponses++;
                 }
-              });
-            }
-          });
-        }
-      });
-    }
+                findings.push(
+                  finding(
+                    'descriptions/response-missing',
+                    `Response ${code} has no description`,
+                    {
+                      suggestion: 'Add descriptions to all responses',
+                      target,
+                      pointer: responsePointer,
+                    },
+                  ),
+                );
+              }
+            });
+          }
+        });
+      }
+    });
+
+    [
+      coveragePoints(
+        operationsWithDescriptions,
+        totalOperations,
+        suppressedOperations,
+        8,
+      ),
+      coveragePoints(
+        parametersWithDescriptions,
+        totalParameters,
+        suppressedParameters,
+        4,
+      ),
+      coveragePoints(
+        responsesWithDescriptions,
+        totalResponses,
+        suppressedResponses,
+        3,
+      ),
+      coveragePoints(pathsWithDescriptions, totalPaths, suppressedPaths, 2),
+    ].forEach((points) => {
+      score += points.score;
+      excludedPoints += points.excluded;
+    });
 
     if (totalOperations > 0) {
-      score += (operationsWithDescriptions / totalOperations) * 8;
-      feedback.push(
-        `${operationsWithDescriptions}/${totalOperations} operations have descriptions`,
+      findings.push(
+        finding(
+          'descriptions/operation-coverage',
+          `${operationsWithDescriptions}/${totalOperations} operations have descriptions`,
+        ),
       );
     }
 
     if (totalParameters > 0) {
-      score += (parametersWithDescriptions / totalParameters) * 4;
-      feedback.push(
-        `${parametersWithDescriptions}/${totalParameters} parameters have descriptions`,
+      findings.push(
+        finding(
+          'descriptions/parameter-coverage',
+          `${parametersWithDescriptions}/${totalParameters} parameters have descriptions`,
+        ),
       );
     }
 
     if (totalResponses > 0) {
-      score += (responsesWithDescriptions / totalResponses) * 3;
-      feedback.push(
-        `${responsesWithDescriptions}/${totalResponses} responses have descriptions`,
+      findings.push(
+        finding(
+          'descriptions/response-coverage',
+          `${responsesWithDescriptions}/${totalResponses} responses have descriptions`,
+        ),
       );
     }
 
-    if (totalPaths > 0) {
-      score += (pathsWithDescriptions / totalPaths) * 2;
-    }
-
-    if (score < maxScore * 0.7) {
-      suggestions.push(
-        'Add descriptions to all operations, parameters, and responses',
-      );
-      suggestions.push(
-        'Use meaningful descriptions that explain the purpose and behavior',
+    if (
+      score <
+      (maxScore - excludedPoints) * this.thresholds.descriptionSuggestionRatio
+    ) {
+      findings.push(
+        finding(
+          'descriptions/low-score',
+          'Descriptions & Documentation score is below the suggestion threshold',
+          {
+            suggestion:
+              'Use meaningful descriptions that explain the purpose and behavior of operations, parameters, and responses',
+          },
+        ),
       );
     }
 
-    return {
+    return createCriteriaScore({
       name: 'Descriptions & Documentation',
-      score: Math.round(score),
-      maxScore,
-      percentage: Math.round((score / maxScore) * 100),
-      feedback,
-      suggestions,
-    };
+      score,
+      maxScore: maxScore - excludedPoints,
+      findings,
+    });
   }
 
   /**
    * Score Paths & Operations (15 points)
    * Evaluates naming conventions and CRUD patterns
    */
-  scorePathsAndOperations(document: OpenAPIV3.Document): CriteriaScore {
+  scorePathsAndOperations(
+    document: OpenAPIV3.Document,
+    suppressions?: Suppressions,
+  ): CriteriaScore {
     const maxScore = 15;
     let score = 0;
-    const feedback: string[] = [];
-    const suggestions: string[] = [];
+    let excludedPoints = 0;
+    const findings: Finding[] = [];
+
+    if (!document.paths && isOpenAPI31(document)) {
+      return pathsOmitted(
+        'Paths & Operations',
+        'paths-operations/paths-omitted',
+      );
+    }
 
     if (!document.paths) {
-      suggestions.push('Define API paths and operations');
-      return {
+      return createCriteriaScore({
         name: 'Paths & Operations',
         score: 0,
         maxScore,
-        percentage: 0,
-        feedback: ['No paths defined'],
-        suggestions,
-      };
+        findings: [
+          finding('paths-operations/no-paths', 'No paths defined', {
+            suggestion: 'Define API paths and operations',
+          }),
+        ],
+      });
     }
 
     const paths = Object.keys(document.paths);
@@ -296,8 +1031,10 @@ export class Evaluators {
 
     // Check naming conventions
     let wellNamedPaths = 0;
+    let suppressedNaming = 0;
+    let suppressedOverlaps = 0;
     let crudPaths = 0;
-    const pathPatterns = new Set<string>();
+    const pathPatterns = new Map<string, string>();
 
     paths.forEach((path) => {
       // Check for RESTful naming (nouns, lowercase, hyphens)
@@ -318,6 +1055,27 @@ export class Evaluators {
 
       if (isWellNamed) {
         wellNamedPaths++;
+      } else {
+        if (
+          suppressions?.isSuppressed(
+            'paths-operations/naming',
+            toPointer(['paths', path]),
+          )
+        ) {
+          suppressedNaming++;
+        }
+        findings.push(
+          finding(
+            'paths-operations/naming',
+            'Path does not follow RESTful naming conventions',
+            {
+              suggestion:
+                'Use RESTful naming conventions (lowercase, hyphens, nouns)',
+              target: { kind: 'path', name: path },
+              pointer: toPointer(['paths', path]),
+            },
+          ),
+        );
       }
 
       const pathItem = document.paths[path];
@@ -328,7 +1086,30 @@ export class Evaluators {
 
         if (methods.length > 0) {
           const normalizedPath = path.replace(/\{[^}]+\}/g, '{id}');
-          pathPatterns.add(normalizedPath);
+          const existing = pathPatterns.get(normalizedPath);
+          if (existing) {
+            if (
+              suppressions?.isSuppressed(
+                'paths-operations/overlapping-path',
+                toPointer(['paths', path]),
+              )
+            ) {
+              suppressedOverlaps++;
+            }
+            findings.push(
+              finding(
+                'paths-operations/overlapping-path',
+                `Path overlaps with ${existing}`,
+                {
+                  suggestion: 'Review path structure for redundancy',
+                  target: { kind: 'path', name: path },
+                  pointer: toPointer(['paths', path]),
+                },
+              ),
+            );
+          } else {
+            pathPatterns.set(normalizedPath, path);
+          }
 
           if (methods.includes('get') && methods.includes('post')) {
             crudPaths++;
@@ -337,78 +1118,121 @@ export class Evaluators {
       }
     });
 
-    score += (wellNamedPaths / pathCount) * 7;
-    feedback.push(
-      `${wellNamedPaths}/${pathCount} paths follow RESTful naming conventions`,
+    const naming = coveragePoints(
+      wellNamedPaths,
+      pathCount,
+      suppressedNaming,
+      7,
+    );
+    score += naming.score;
+    excludedPoints += naming.excluded;
+    findings.push(
+      finding(
+        'paths-operations/naming-coverage',
+        `${wellNamedPaths}/${pathCount} paths follow RESTful naming conventions`,
+      ),
     );
 
     if (crudPaths > 0) {
       score += Math.min(5, crudPaths * 2);
-      feedback.push(`Found ${crudPaths} CRUD-pattern endpoints`);
+      findings.push(
+        finding(
+          'paths-operations/crud-patterns',
+          `Found ${crudPaths} CRUD-pattern endpoints`,
+        ),
+      );
     }
 
     const overlappingPaths = paths.length - pathPatterns.size;
     if (overlappingPaths === 0) {
       score += 3;
-      feedback.push('No overlapping or redundant paths detected');
+      findings.push(
+        finding(
+          'paths-operations/no-overlap',
+          'No overlapping or redundant paths detected',
+        ),
+      );
+    } else if (overlappingPaths === suppressedOverlaps) {
+      score += 3;
     } else {
-      feedback.push(
-        `${overlappingPaths} potentially overlapping paths detected`,
+      findings.push(
+        finding(
+          'paths-operations/overlapping-path',
+          `${overlappingPaths} potentially overlapping paths detected`,
+          { suggestion: 'Review path structure for redundancy' },
+        ),
       );
-      suggestions.push('Review path structure for redundancy');
     }
 
-    if (score < maxScore * 0.6) {
-      suggestions.push(
-        'Use RESTful naming conventions (lowercase, hyphens, nouns)',
+    if (
+      score <
+      (maxScore - excludedPoints) * this.thresholds.pathsSuggestionRatio
+    ) {
+      findings.push(
+        finding(
+          'paths-operations/low-score',
+          'Paths & Operations score is below the suggestion threshold',
+          {
+            suggestion: 'Implement consistent CRUD operations for resources',
+          },
+        ),
       );
-      suggestions.push('Implement consistent CRUD operations for resources');
     }
 
-    return {
+    return createCriteriaScore({
       name: 'Paths & Operations',
-      score: Math.round(score),
-      maxScore,
-      percentage: Math.round((score / maxScore) * 100),
-      feedback,
-      suggestions,
-    };
+      score,
+      maxScore: maxScore - excludedPoints,
+      findings,
+    });
   }
 
   /**
    * Score Response Codes (15 points)
    * Evaluates appropriate use of HTTP status codes
    */
-  scoreResponseCodes(document: OpenAPIV3.Document): CriteriaScore {
+  scoreResponseCodes(
+    document: OpenAPIV3.Document,
+    suppressions?: Suppressions,
+  ): CriteriaScore {
     const maxScore = 15;
     let score = 0;
-    const feedback: string[] = [];
-    const suggestions: string[] = [];
+    let excludedPoints = 0;
+    const findings: Finding[] = [];
+
+    if (!document.paths && isOpenAPI31(document)) {
+      return pathsOmitted('Response Codes', 'response-codes/paths-omitted');
+    }
 
     if (!document.paths) {
-      return {
+      return createCriteriaScore({
         name: 'Response Codes',
         score: 0,
         maxScore,
-        percentage: 0,
-        feedback: ['No paths defined'],
-        suggestions: ['Define API operations with proper response codes'],
-      };
+        findings: [
+          finding('response-codes/no-paths', 'No paths defined', {
+            suggestion: 'Define API operations with proper response codes',
+          }),
+        ],
+      });
     }
 
     let operationsWithSuccess = 0;
     let operationsWithErrors = 0;
     let operationsWithMultipleResponses = 0;
     let totalOperations = 0;
+    const suppressed = { success: 0, error: 0, multiple: 0 };
     const statusCodesUsed = new Set<string>();
 
-    Object.values(document.paths).forEach((pathItem) => {
+    Object.entries(document.paths).forEach(([path, pathItem]) => {
       if (pathItem) {
         const methods = ['get', 'post', 'put', 'patch', 'delete'] as const;
         methods.forEach((method) => {
           const operation = pathItem[method];
           if (operation) {
             totalOperations++;
+            const target = operationTarget(method, path);
+            const pointer = `${operationPointer(path, method)}/responses`;
             const responses = Object.keys(operation.responses);
             const responseCount = responses.length;
 
@@ -417,6 +1241,26 @@ export class Evaluators {
             const hasSuccess = responses.some((code) => code.startsWith('2'));
             if (hasSuccess) {
               operationsWithSuccess++;
+            } else {
+              if (
+                suppressions?.isSuppressed(
+                  'response-codes/missing-success',
+                  pointer,
+                )
+              ) {
+                suppressed.success++;
+              }
+              findings.push(
+                finding(
+                  'response-codes/missing-success',
+                  'Operation defines no success (2xx) response',
+                  {
+                    suggestion: 'Define a success response for every operation',
+                    target,
+                    pointer,
+                  },
+                ),
+              );
             }
 
             const hasError = responses.some(
@@ -424,10 +1268,52 @@ export class Evaluators {
             );
             if (hasError) {
               operationsWithErrors++;
+            } else {
+              if (
+                suppressions?.isSuppressed(
+                  'response-codes/missing-error',
+                  pointer,
+                )
+              ) {
+                suppressed.error++;
+              }
+              findings.push(
+                finding(
+                  'response-codes/missing-error',
+                  'Operation defines no error (4xx/5xx) responses',
+                  {
+                    suggestion:
+                      'Define both success and error responses for all operations',
+                    target,
+                    pointer,
+                  },
+                ),
+              );
             }
 
             if (responseCount > 1) {
               operationsWithMultipleResponses++;
+            } else {
+              if (
+                suppressions?.isSuppressed(
+                  'response-codes/single-response',
+                  pointer,
+                )
+              ) {
+                suppressed.multiple++;
+              }
+              findings.push(
+                finding(
+                  'response-codes/single-response',
+                  'Operation defines a single response code',
+                  {
+                    suggestion:
+                      'Use specific status codes rather than just 200 and 500',
+                    target,
+                    pointer,
+                  },
+                ),
+              );
             }
           }
         });
@@ -435,18 +1321,47 @@ export class Evaluators {
     });
 
     if (totalOperations > 0) {
-      score += (operationsWithSuccess / totalOperations) * 6;
-      score += (operationsWithErrors / totalOperations) * 6;
-      score += (operationsWithMultipleResponses / totalOperations) * 3;
+      [
+        coveragePoints(
+          operationsWithSuccess,
+          totalOperations,
+          suppressed.success,
+          6,
+        ),
+        coveragePoints(
+          operationsWithErrors,
+          totalOperations,
+          suppressed.error,
+          6,
+        ),
+        coveragePoints(
+          operationsWithMultipleResponses,
+          totalOperations,
+          suppressed.multiple,
+          3,
+        ),
+      ].forEach((points) => {
+        score += points.score;
+        excludedPoints += points.excluded;
+      });
 
-      feedback.push(
-        `${operationsWithSuccess}/${totalOperations} operations define success responses`,
+      findings.push(
+        finding(
+          'response-codes/success-coverage',
+          `${operationsWithSuccess}/${totalOperations} operations define success responses`,
+        ),
       );
-      feedback.push(
-        `${operationsWithErrors}/${totalOperations} operations define error responses`,
+      findings.push(
+        finding(
+          'response-codes/error-coverage',
+          `${operationsWithErrors}/${totalOperations} operations define error responses`,
+        ),
       );
-      feedback.push(
-        `${operationsWithMultipleResponses}/${totalOperations} operations define multiple response codes`,
+      findings.push(
+        finding(
+          'response-codes/multiple-coverage',
+          `${operationsWithMultipleResponses}/${totalOperations} operations define multiple response codes`,
+        ),
       );
     }
 
@@ -469,64 +1384,99 @@ export class Evaluators {
     );
 
     if (hasAppropriateSuccess && hasAppropriateErrors) {
-      feedback.push('Uses appropriate HTTP status codes');
+      findings.push(
+        finding(
+          'response-codes/standard-codes',
+          'Uses appropriate HTTP status codes',
+        ),
+      );
     } else {
-      suggestions.push(
-        'Use standard HTTP status codes (200, 201, 400, 404, 500, etc.)',
+      findings.push(
+        finding(
+          'response-codes/non-standard-codes',
+          'Common success and error status codes are not used',
+          {
+            suggestion:
+              'Use standard HTTP status codes (200, 201, 400, 404, 500, etc.)',
+          },
+        ),
       );
     }
 
-    if (score < maxScore * 0.5) {
-      suggestions.push(
-        'Define both success and error responses for all operations',
-      );
-      suggestions.push(
-        'Use specific status codes rather than just 200 and 500',
+    if (
+      score <
+      (maxScore - excludedPoints) * this.thresholds.responseCodesSuggestionRatio
+    ) {
+      findings.push(
+        finding(
+          'response-codes/low-score',
+          'Response Codes score is below the suggestion threshold',
+          {
+            suggestion:
+              'Define both success and error responses for all operations',
+          },
+        ),
       );
     }
 
-    return {
+    return createCriteriaScore({
       name: 'Response Codes',
-      score: Math.round(score),
-      maxScore,
-      percentage: Math.round((score / maxScore) * 100),
-      feedback,
-      suggestions,
-    };
+      score,
+      maxScore: maxScore - excludedPoints,
+      findings,
+    });
   }
 
   /**
    * Score Examples & Samples (10 points)
    * Evaluates presence of examples in requests and responses
    */
-  scoreExamples(document: OpenAPIV3.Document): CriteriaScore {
+  scoreExamples(
+    document: OpenAPIV3.Document,
+    suppressions?: Suppressions,
+  ): CriteriaScore {
     const maxScore = 10;
     let score = 0;
-    const feedback: string[] = [];
-    const suggestions: string[] = [];
+    let excludedPoints = 0;
+    const findings: Finding[] = [];
 
-    if (!document.paths) {
-      return {
+    const pathItems = getPathItems(document);
+    if (pathItems.length === 0 && isOpenAPI31(document)) {
+      return pathsOmitted('Examples & Samples', 'examples/paths-omitted');
+    }
+
+    if (!document.paths && pathItems.length === 0) {
+      return createCriteriaScore({
         name: 'Examples & Samples',
         score: 0,
         maxScore,
-        percentage: 0,
-        feedback: ['No paths defined'],
-        suggestions: ['Add request and response examples'],
-      };
+        findings: [
+          finding('examples/no-paths', 'No paths defined', {
+            suggestion: 'Add request and response examples',
+          }),
+        ],
+      });
     }
 
     let operationsWithRequestExamples = 0;
     let operationsWithResponseExamples = 0;
     let totalOperationsWithBodies = 0;
     let totalResponses = 0;
+    let suppressedRequests = 0;
+    let suppressedResponses = 0;
 
-    Object.values(document.paths).forEach((pathItem) => {
+    pathItems.forEach(({ root, name: path, pathItem }) => {
       if (pathItem) {
         const methods = ['get', 'post', 'put', 'patch', 'delete'] as const;
         methods.forEach((method) => {
           const operation = pathItem[method];
           if (operation) {
+            const target = operationTarget(
+              method,
+              pathItemLabel({ root, name: path }),
+            );
+            const pointer = operationPointer(path, method, root);
+
             if (
               operation.requestBody &&
               typeof operation.requestBody === 'object' &&
@@ -535,13 +1485,33 @@ export class Evaluators {
               totalOperationsWithBodies++;
               const hasRequestExample = Object.values(
                 operation.requestBody.content,
-              ).some((mediaType) => mediaType.example || mediaType.examples);
+              ).some(hasMediaTypeExample);
               if (hasRequestExample) {
                 operationsWithRequestExamples++;
+              } else {
+                if (
+                  suppressions?.isSuppressed(
+                    'examples/request-missing',
+                    `${pointer}/requestBody`,
+                  )
+                ) {
+                  suppressedRequests++;
+                }
+                findings.push(
+                  finding(
+                    'examples/request-missing',
+                    'Request body has no example',
+                    {
+                      suggestion: 'Add examples to request bodies',
+                      target,
+                      pointer: `${pointer}/requestBody`,
+                    },
+                  ),
+                );
               }
             }
 
-            Object.values(operation.responses).forEach((response) => {
+            Object.entries(operation.responses).forEach(([code, response]) => {
               if (
                 response &&
                 typeof response === 'object' &&
@@ -550,9 +1520,30 @@ export class Evaluators {
                 totalResponses++;
                 const hasResponseExample = Object.values(
                   response.content || {},
-                ).some((mediaType) => mediaType.example || mediaType.examples);
+                ).some(hasMediaTypeExample);
                 if (hasResponseExample) {
                   operationsWithResponseExamples++;
+                } else {
+                  const responsePointer = `${pointer}${toPointer(['responses', code])}`;
+                  if (
+                    suppressions?.isSuppressed(
+                      'examples/response-missing',
+                      responsePointer,
+                    )
+                  ) {
+                    suppressedResponses++;
+                  }
+                  findings.push(
+                    finding(
+                      'examples/response-missing',
+                      `Response ${code} has no example`,
+                      {
+                        suggestion: 'Add examples to response content',
+                        target,
+                        pointer: responsePointer,
+                      },
+                    ),
+                  );
                 }
               }
             });
@@ -561,150 +1552,521 @@ export class Evaluators {
       }
     });
 
+    [
+      coveragePoints(
+        operationsWithRequestExamples,
+        totalOperationsWithBodies,
+        suppressedRequests,
+        5,
+      ),
+      coveragePoints(
+        operationsWithResponseExamples,
+        totalResponses,
+        suppressedResponses,
+        5,
+      ),
+    ].forEach((points) => {
+      score += points.score;
+      excludedPoints += points.excluded;
+    });
+
     if (totalOperationsWithBodies > 0) {
-      score += (operationsWithRequestExamples / totalOperationsWithBodies) * 5;
-      feedback.push(
-        `${operationsWithRequestExamples}/${totalOperationsWithBodies} request bodies have examples`,
+      findings.push(
+        finding(
+          'examples/request-coverage',
+          `${operationsWithRequestExamples}/${totalOperationsWithBodies} request bodies have examples`,
+        ),
       );
     }
 
     if (totalResponses > 0) {
-      score += (operationsWithResponseExamples / totalResponses) * 5;
-      feedback.push(
-        `${operationsWithResponseExamples}/${totalResponses} responses have examples`,
+      findings.push(
+        finding(
+          'examples/response-coverage',
+          `${operationsWithResponseExamples}/${totalResponses} responses have examples`,
+        ),
       );
     }
 
-    if (score < maxScore * 0.3) {
-      suggestions.push('Add examples to request bodies and response content');
-      suggestions.push(
-        'Examples help developers understand expected data formats',
+    if (
+      score <
+      (maxScore - excludedPoints) * this.thresholds.examplesSuggestionRatio
+    ) {
+      findings.push(
+        finding(
+          'examples/low-score',
+          'Examples & Samples score is below the suggestion threshold',
+          {
+            suggestion:
+              'Examples help developers understand expected data formats',
+          },
+        ),
       );
     }
 
-    return {
+    return createCriteriaScore({
       name: 'Examples & Samples',
-      score: Math.round(score),
-      maxScore,
-      percentage: Math.round((score / maxScore) * 100),
-      feedback,
-      suggestions,
-    };
+      score,
+      maxScore: maxScore - excludedPoints,
+      findings,
+    });
   }
 
   /**
    * Score Security (10 points)
-   * Evaluates security scheme definitions and usage
+   * Evaluates security scheme definitions, their use by operations and how
+   * credentials travel
    */
-  scoreSecurity(document: OpenAPIV3.Document): CriteriaScore {
+  scoreSecurity(
+    document: OpenAPIV3.Document,
+    suppressions?: Suppressions,
+  ): CriteriaScore {
     const maxScore = 10;
     let score = 0;
-    const feedback: string[] = [];
-    const suggestions: string[] = [];
+    let excludedPoints = 0;
+    const findings: Finding[] = [];
 
     const securitySchemes = document.components?.securitySchemes || {};
     const schemeCount = Object.keys(securitySchemes).length;
 
     if (schemeCount > 0) {
-      score += Math.min(5, schemeCount * 2);
-      feedback.push(`Found ${schemeCount} security scheme(s) defined`);
+      score += 2;
+      findings.push(
+        finding(
+          'security/schemes-defined',
+          `Found ${schemeCount} security scheme(s) defined`,
+        ),
+      );
     } else {
-      suggestions.push('Define security schemes in components.securitySchemes');
+      if (suppressions?.isSuppressed('security/no-schemes', '/components')) {
+        excludedPoints += 2;
+      }
+      findings.push(
+        finding('security/no-schemes', 'No security schemes defined', {
+          suggestion: 'Define security schemes in components.securitySchemes',
+          pointer: '/components',
+        }),
+      );
     }
 
     if (document.security && document.security.length > 0) {
-      score += 3;
-      feedback.push('Global security requirements defined');
+      findings.push(
+        finding(
+          'security/global-requirement',
+          'Global security requirements defined',
+        ),
+      );
     }
 
-    let operationsWithSecurity = 0;
+    /**
+     * Add findings for the failing items and the points for the rest
+     */
+    const check = (
+      total: number,
+      failures: Array<{ ruleId: string; pointer: string }>,
+      points: number,
+    ) => {
+      if (total === 0) {
+        excludedPoints += points;
+        return;
+      }
+      const result = coveragePoints(
+        total - failures.length,
+        total,
+        failures.filter(({ ruleId, pointer }) =>
+          suppressions?.isSuppressed(ruleId, pointer),
+        ).length,
+        points,
+      );
+      score += result.score;
+      excludedPoints += result.excluded;
+    };
+
+    // Every security requirement, global and per operation, with its pointer
+    const requirements: Array<{
+      requirement: OpenAPIV3.SecurityRequirementObject;
+      pointer: string;
+      target?: FindingTarget;
+    }> = (document.security ?? []).map((requirement, index) => ({
+      requirement,
+      pointer: toPointer(['security', index]),
+    }));
+
+    // Operations require authentication unless they opt out with
+    // `security: []` (or an empty requirement); write operations may not
     let totalOperations = 0;
+    const unprotected: Array<{ ruleId: string; pointer: string }> = [];
 
-    if (document.paths) {
-      Object.values(document.paths).forEach((pathItem) => {
-        if (pathItem) {
-          const methods = ['get', 'post', 'put', 'patch', 'delete'] as const;
-          methods.forEach((method) => {
-            const operation = pathItem[method];
-            if (operation) {
-              totalOperations++;
-              if (operation.security) {
-                operationsWithSecurity++;
-              }
-            }
+    getPathItems(document).forEach(({ root, name: path, pathItem }) => {
+      const methods = ['get', 'post', 'put', 'patch', 'delete'] as const;
+      methods.forEach((method) => {
+        const operation = pathItem?.[method];
+        if (!operation) return;
+
+        const target = operationTarget(
+          method,
+          pathItemLabel({ root, name: path }),
+        );
+        const pointer = operationPointer(path, method, root);
+        (operation.security ?? []).forEach((requirement, index) => {
+          requirements.push({
+            requirement,
+            pointer: `${pointer}${toPointer(['security', index])}`,
+            target,
+          });
+        });
+        if (root !== 'paths') return;
+
+        totalOperations++;
+        const effective = operation.security ?? document.security ?? [];
+        const optsOut =
+          !!operation.security &&
+          effective.every(
+            (requirement) => Object.keys(requirement).length === 0,
+          );
+        if (optsOut && method !== 'get') {
+          const securityPointer = `${pointer}/security`;
+          unprotected.push({
+            ruleId: 'security/write-opt-out',
+            pointer: securityPointer,
+          });
+          findings.push(
+            finding(
+              'security/write-opt-out',
+              'Write operation opts out of security with an empty requirement',
+              {
+                suggestion:
+                  'Require authentication for operations that change data',
+                target,
+                pointer: securityPointer,
+              },
+            ),
+          );
+        } else if (!optsOut && effective.length === 0) {
+          unprotected.push({
+            ruleId: 'security/operation-unprotected',
+            pointer,
           });
+          findings.push(
+            finding(
+              'security/operation-unprotected',
+              'Operation has no security requirement',
+              {
+                suggestion:
+                  'Require a security scheme globally or on each operation',
+                target,
+                pointer,
+              },
+            ),
+          );
         }
       });
-    }
+    });
 
-    if (totalOperations > 0 && operationsWithSecurity > 0) {
-      score += (operationsWithSecurity / totalOperations) * 2;
-      feedback.push(
-        `${operationsWithSecurity}/${totalOperations} operations have specific security requirements`,
+    check(totalOperations, unprotected, 4);
+    if (totalOperations > 0) {
+      findings.push(
+        finding(
+          'security/operation-coverage',
+          `${totalOperations - unprotected.length}/${totalOperations} operations require authentication or are deliberately public`,
+        ),
       );
     }
 
+    // Requirements name defined schemes and scopes their OAuth2 flows declare
+    const used = new Set<string>();
+    const invalidReferences: Array<{ ruleId: string; pointer: string }> = [];
+    let references = 0;
+    requirements.forEach(({ requirement, pointer, target }) => {
+      Object.entries(requirement).forEach(([name, scopes]) => {
+        references++;
+        used.add(name);
+        const scheme = securitySchemes[name];
+        const schemePointer = `${pointer}${toPointer([name])}`;
+
+        if (!scheme || '$ref' in scheme) {
+          if (!scheme) {
+            invalidReferences.push({
+              ruleId: 'security/undefined-scheme',
+              pointer: schemePointer,
+            });
+            findings.push(
+              finding(
+                'security/undefined-scheme',
+                `Security requirement references undefined scheme "${name}"`,
+                {
+                  suggestion:
+                    'Reference only schemes defined in components.securitySchemes',
+                  target,
+                  pointer: schemePointer,
+                },
+              ),
+            );
+          }
+          return;
+        }
+
+        if (scheme.type !== 'oauth2') return;
+        const declared = Object.values(scheme.flows).flatMap((flow) =>
+          Object.keys(flow?.scopes ?? {}),
+        );
+        const undeclared = (scopes ?? []).filter(
+          (scope) => !declared.includes(scope),
+        );
+        if (undeclared.length > 0) {
+          invalidReferences.push({
+            ruleId: 'security/undeclared-scope',
+            pointer: schemePointer,
+          });
+          findings.push(
+            finding(
+              'security/undeclared-scope',
+              `Scope(s) ${undeclared
+                .map((scope) => `"${scope}"`)
+                .join(', ')} not declared by any flow of "${name}"`,
+              {
+                suggestion:
+                  'Declare every scope operations require in the OAuth2 flows',
+                target,
+                pointer: schemePointer,
+              },
+            ),
+          );
+        }
+      });
+    });
+    check(references, invalidReferences, 2);
+
+    // Schemes are used, complete, and keep credentials out of URLs
+    const schemeIssues = new Map<string, { ruleId: string; pointer: string }>();
+    Object.entries(securitySchemes).forEach(([name, scheme]) => {
+      const pointer = toPointer(['components', 'securitySchemes', name]);
+      const target: FindingTarget = {
+        kind: 'component',
+        name: `securitySchemes/${name}`,
+      };
+      const issue = (
+        ruleId: string,
+        message: string,
+        suggestion: string,
+        at: string = pointer,
+      ) => {
+        if (!schemeIssues.has(name)) {
+          schemeIssues.set(name, { ruleId, pointer: at });
+        }
+        findings.push(
+          finding(ruleId, message, { suggestion, target, pointer: at }),
+        );
+      };
+
+      if (!used.has(name)) {
+        issue(
+          'security/unused-scheme',
+          'Security scheme is declared but never required',
+          'Require the scheme where it applies or remove it',
+        );
+      }
+      if ('$ref' in scheme) return;
+
+      if (scheme.type === 'apiKey' && scheme.in === 'query') {
+        issue(
+          'security/api-key-in-query',
+          `API key "${scheme.name}" is passed in the query string`,
+          'Pass API keys in a header; query strings end up in logs and browser history',
+        );
+      }
+
+      if (scheme.type === 'oauth2') {
+        Object.entries(scheme.flows).forEach(([flowName, flow]) => {
+          const missing = (OAUTH_FLOW_URLS[flowName] ?? []).filter(
+            (field) => !(flow as Record<string, unknown> | undefined)?.[field],
+          );
+          if (missing.length > 0) {
+            issue(
+              'security/flow-missing-url',
+              `OAuth2 ${flowName} flow has no ${missing.join(' or ')}`,
+              'Give OAuth2 flows and OpenID Connect schemes the URLs clients need to obtain tokens',
+              `${pointer}${toPointer(['flows', flowName])}`,
+            );
+          }
+        });
+      }
+
+      if (scheme.type === 'openIdConnect' && !scheme.openIdConnectUrl) {
+        issue(
+          'security/flow-missing-url',
+          'OpenID Connect scheme has no openIdConnectUrl',
+          'Give OAuth2 flows and OpenID Connect schemes the URLs clients need to obtain tokens',
+        );
+      }
+    });
+    check(schemeCount, [...schemeIssues.values()], 1);
+
+    // Servers are reached over TLS; local development servers are exempt
+    const servers: Array<{ url: string; pointer: string }> = (
+      document.servers ?? []
+    ).map(({ url }, index) => ({
+      url,
+      pointer: toPointer(['servers', index]),
+    }));
+    getPathItems(document, ['paths']).forEach(({ name: path, pathItem }) => {
+      (pathItem?.servers ?? []).forEach(({ url }, index) => {
+        servers.push({
+          url,
+          pointer: toPointer(['paths', path, 'servers', index]),
+        });
+      });
+    });
+    const remote = servers.filter(
+      ({ url }) =>
+        /^https?:\/\//i.test(url) &&
+        !/^https?:\/\/(localhost|127\.0\.0\.1|\[::1\]|0\.0\.0\.0)(?=[:/]|$)/i.test(
+          url,
+        ),
+    );
+    const insecure = remote.filter(({ url }) => /^http:\/\//i.test(url));
+    insecure.forEach(({ url, pointer }) => {
+      findings.push(
+        finding(
+          'security/insecure-server',
+          `Server ${url} does not use HTTPS`,
+          {
+            suggestion: 'Serve the API over HTTPS only',
+            pointer,
+          },
+        ),
+      );
+    });
+    check(
+      remote.length,
+      insecure.map(({ pointer }) => ({
+        ruleId: 'security/insecure-server',
+        pointer,
+      })),
+      1,
+    );
+
     if (score === 0) {
-      suggestions.push('Implement authentication and authorization schemes');
-      suggestions.push('Consider API keys, OAuth2, or JWT tokens');
+      findings.push(
+        finding(
+          'security/none',
+          'No authentication or authorization is described',
+          {
+            suggestion:
+              'Implement authentication and authorization schemes such as API keys, OAuth2, or JWT tokens',
+          },
+        ),
+      );
     }
 
-    return {
+    return createCriteriaScore({
       name: 'Security',
-      score: Math.round(score),
-      maxScore,
-      percentage: Math.round((score / maxScore) * 100),
-      feedback,
-      suggestions,
-    };
+      score,
+      maxScore: maxScore - excludedPoints,
+      findings,
+    });
   }
 
   /**
    * Score Best Practices (10 points)
    * Evaluates versioning, servers, tags, and component reuse
    */
-  scoreBestPractices(document: OpenAPIV3.Document): CriteriaScore {
+  scoreBestPractices(
+    document: OpenAPIV3.Document,
+    suppressions?: Suppressions,
+  ): CriteriaScore {
     const maxScore = 10;
     let score = 0;
-    const feedback: string[] = [];
-    const suggestions: string[] = [];
+    let excludedPoints = 0;
+    const findings: Finding[] = [];
 
     if (document.servers && document.servers.length > 0) {
       score += 2;
-      feedback.push(`${document.servers.length} server(s) defined`);
+      findings.push(
+        finding(
+          'best-practices/servers-defined',
+          `${document.servers.length} server(s) defined`,
+        ),
+      );
     } else {
-      suggestions.push('Define servers array with API base URLs');
+      if (suppressions?.isSuppressed('best-practices/no-servers')) {
+        excludedPoints += 2;
+      }
+      findings.push(
+        finding('best-practices/no-servers', 'No servers defined', {
+          suggestion: 'Define servers array with API base URLs',
+        }),
+      );
     }
 
     if (document.info.version && document.info.version !== '1.0.0') {
       score += 2;
-      feedback.push(`API version: ${document.info.version}`);
+      findings.push(
+        finding(
+          'best-practices/version',
+          `API version: ${document.info.version}`,
+        ),
+      );
     }
 
     let operationsWithTags = 0;
+    let suppressedTags = 0;
     let totalOperations = 0;
 
-    if (document.paths) {
-      Object.values(document.paths).forEach((pathItem) => {
-        if (pathItem) {
-          const methods = ['get', 'post', 'put', 'patch', 'delete'] as const;
-          methods.forEach((method) => {
-            const operation = pathItem[method];
-            if (operation) {
-              totalOperations++;
-              if (operation.tags && operation.tags.length > 0) {
-                operationsWithTags++;
+    getPathItems(document).forEach(({ root, name: path, pathItem }) => {
+      if (pathItem) {
+        const methods = ['get', 'post', 'put', 'patch', 'delete'] as const;
+        methods.forEach((method) => {
+          const operation = pathItem[method];
+          if (operation) {
+            totalOperations++;
+            if (operation.tags && operation.tags.length > 0) {
+              operationsWithTags++;
+            } else {
+              const pointer = operationPointer(path, method, root);
+              if (
+                suppressions?.isSuppressed(
+                  'best-practices/operation-missing-tags',
+                  pointer,
+                )
+              ) {
+                suppressedTags++;
               }
+              findings.push(
+                finding(
+                  'best-practices/operation-missing-tags',
+                  'Operation has no tags',
+                  {
+                    suggestion: 'Add tags to organize operations',
+                    target: operationTarget(
+                      method,
+                      pathItemLabel({ root, name: path }),
+                    ),
+                    pointer,
+                  },
+                ),
+              );
             }
-          });
-        }
-      });
-    }
+          }
+        });
+      }
+    });
+
+    const tagging = coveragePoints(
+      operationsWithTags,
+      totalOperations,
+      suppressedTags,
+      3,
+    );
+    score += tagging.score;
+    excludedPoints += tagging.excluded;
 
     if (totalOperations > 0) {
-      score += (operationsWithTags / totalOperations) * 3;
-      feedback.push(
-        `${operationsWithTags}/${totalOperations} operations have tags`,
+      findings.push(
+        finding(
+          'best-practices/tag-coverage',
+          `${operationsWithTags}/${totalOperations} operations have tags`,
+        ),
       );
     }
 
@@ -726,29 +2088,786 @@ export class Evaluators {
 
     if (componentsWithContent.length > 1) {
       score += 2;
-      feedback.push(
-        `Uses ${componentsWithContent.length} component types for reusability`,
+      findings.push(
+        finding(
+          'best-practices/component-reuse',
+          `Uses ${componentsWithContent.length} component types for reusability`,
+        ),
       );
     }
 
     if (document.externalDocs) {
       score += 1;
-      feedback.push('External documentation referenced');
+      findings.push(
+        finding(
+          'best-practices/external-docs',
+          'External documentation referenced',
+        ),
+      );
     }
 
-    if (score < maxScore * 0.4) {
-      suggestions.push('Add tags to organize operations');
-      suggestions.push('Use components for reusable elements');
-      suggestions.push('Define multiple servers for different environments');
+    if (
+      score <
+      (maxScore - excludedPoints) * this.thresholds.bestPracticesSuggestionRatio
+    ) {
+      findings.push(
+        finding(
+          'best-practices/low-score',
+          'Best Practices score is below the suggestion threshold',
+          {
+            suggestion:
+              'Use components for reusable elements and define multiple servers for different environments',
+          },
+        ),
+      );
     }
 
-    return {
+    return createCriteriaScore({
       name: 'Best Practices',
-      score: Math.round(score),
-      maxScore,
-      percentage: Math.round((score / maxScore) * 100),
-      feedback,
-      suggestions,
+      score,
+      maxScore: maxScore - excludedPoints,
+      findings,
+    });
+  }
+
+  /**
+   * Score Naming Consistency (10 points)
+   * Evaluates operationIds and the casing of property, parameter and schema
+   * names against configured or inferred conventions
+   */
+  scoreNaming(
+    document: OpenAPIV3.Document,
+    suppressions?: Suppressions,
+  ): CriteriaScore {
+    const maxScore = 10;
+    let score = 0;
+    let excludedPoints = 0;
+    const findings: Finding[] = [];
+
+    const operations: Array<NamedNode & { operationId?: string }> = [];
+    const parameters = new Map<string, NamedNode & { in: string }>();
+    const addParameter = (
+      parameter: OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject,
+      pointer: string,
+      target: FindingTarget,
+    ) => {
+      if (!('name' in parameter)) return;
+      // Parameters reused by many operations are checked once
+      const key = `${parameter.in}:${parameter.name}`;
+      if (!parameters.has(key)) {
+        parameters.set(key, {
+          name: parameter.name,
+          in: parameter.in,
+          target,
+          pointer,
+        });
+      }
+    };
+    const addParameters = (
+      list: Array<OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject> = [],
+      pointer: string,
+      target: FindingTarget,
+    ) => {
+      list.forEach((parameter, index) => {
+        addParameter(
+          parameter,
+          `${pointer}${toPointer(['parameters', index])}`,
+          target,
+        );
+      });
+    };
+
+    Object.entries(document.components?.parameters ?? {}).forEach(
+      ([name, parameter]) => {
+        addParameter(parameter, toPointer(['components', 'parameters', name]), {
+          kind: 'component',
+          name: `parameters/${name}`,
+        });
+      },
+    );
+
+    getPathItems(document).forEach(({ root, name: path, pathItem }) => {
+      if (!pathItem) return;
+      const label = pathItemLabel({ root, name: path });
+      addParameters(pathItem.parameters, toPointer([root, path]), {
+        kind: 'path',
+        name: label,
+      });
+
+      const methods = ['get', 'post', 'put', 'patch', 'delete'] as const;
+      methods.forEach((method) => {
+        const operation = pathItem[method];
+        if (operation) {
+          const target = operationTarget(method, label);
+          const pointer = operationPointer(path, method, root);
+          operations.push({
+            name: operation.operationId ?? '',
+            operationId: operation.operationId,
+            target,
+            pointer,
+          });
+          addParameters(operation.parameters, pointer, target);
+        }
+      });
+    });
+
+    // operationIds: present (2), unique (1) and consistently cased (2)
+    const missing = operations.filter(({ operationId }) => !operationId);
+    missing.forEach(({ target, pointer }) => {
+      findings.push(
+        finding('naming/operation-id-missing', 'Operation has no operationId', {
+          suggestion: 'Give every operation a unique operationId',
+          target,
+          pointer,
+        }),
+      );
+    });
+    const presence = coveragePoints(
+      operations.length - missing.length,
+      operations.length,
+      missing.filter(({ pointer }) =>
+        suppressions?.isSuppressed('naming/operation-id-missing', pointer),
+      ).length,
+      2,
+    );
+    score += presence.score;
+    excludedPoints += operations.length > 0 ? presence.excluded : 2;
+    if (operations.length > 0) {
+      findings.push(
+        finding(
+          'naming/operation-id-coverage',
+          `${operations.length - missing.length}/${operations.length} operations have an operationId`,
+        ),
+      );
+    }
+
+    const identified = operations.filter(({ operationId }) => operationId);
+    const firstUse = new Map<string, string>();
+    let duplicates = 0;
+    let suppressedDuplicates = 0;
+    identified.forEach(({ name, target, pointer }) => {
+      const first = firstUse.get(name);
+      if (!first) {
+        firstUse.set(name, target?.name ?? '');
+        return;
+      }
+
+      const idPointer = `${pointer}/operationId`;
+      duplicates++;
+      if (
+        suppressions?.isSuppressed('naming/operation-id-duplicate', idPointer)
+      ) {
+        suppressedDuplicates++;
+      }
+      findings.push(
+        finding(
+          'naming/operation-id-duplicate',
+          `operationId "${name}" is also used by ${first}`,
+          {
+            suggestion: 'Give every operation a unique operationId',
+            target,
+            pointer: idPointer,
+          },
+        ),
+      );
+    });
+    if (identified.length === 0) {
+      excludedPoints += 1;
+    } else if (duplicates === suppressedDuplicates) {
+      score += 1;
+    }
+
+    const checks: Array<{
+      nodes: NamedNode[];
+      convention: NamingConvention;
+      kind: { ruleId: string; singular: string; plural: string };
+      points: number;
+    }> = [
+      {
+        nodes: identified.map(({ name, target, pointer }) => ({
+          name,
+          target,
+          pointer: `${pointer}/operationId`,
+        })),
+        convention: this.naming.operationIds,
+        kind: {
+          ruleId: 'naming/operation-id-casing',
+          singular: 'operationId',
+          plural: 'operationIds',
+        },
+        points: 2,
+      },
+      {
+        nodes: collectSchemas(document).flatMap(({ name, schema, pointer }) =>
+          Object.keys(('properties' in schema && schema.properties) || {}).map(
+            (property) => ({
+              name: property,
+              target: { kind: 'component' as const, name: `schemas/${name}` },
+              pointer: `${pointer}${toPointer(['properties', property])}`,
+            }),
+          ),
+        ),
+        convention: this.naming.properties,
+        kind: {
+          ruleId: 'naming/property-casing',
+          singular: 'Property',
+          plural: 'properties',
+        },
+        points: 2,
+      },
+      {
+        nodes: [...parameters.values()].filter(
+          (parameter) => parameter.in === 'query',
+        ),
+        convention: this.naming.queryParameters,
+        kind: {
+          ruleId: 'naming/parameter-casing',
+          singular: 'Query parameter',
+          plural: 'query parameters',
+        },
+        points: 1,
+      },
+      {
+        // OpenAPI ignores header parameters with these names
+        nodes: [...parameters.values()].filter(
+          (parameter) =>
+            parameter.in === 'header' &&
+            !['accept', 'content-type', 'authorization'].includes(
+              parameter.name.toLowerCase(),
+            ),
+        ),
+        convention: this.naming.headerParameters,
+        kind: {
+          ruleId: 'naming/parameter-casing',
+          singular: 'Header parameter',
+          plural: 'header parameters',
+        },
+        points: 1,
+      },
+      {
+        nodes: collectSchemas(document).map(({ name, pointer }) => ({
+          name: name.split('/').at(-1) ?? name,
+          target: { kind: 'component' as const, name: `schemas/${name}` },
+          pointer,
+        })),
+        convention: this.naming.schemas,
+        kind: {
+          ruleId: 'naming/schema-casing',
+          singular: 'Schema name',
+          plural: 'schema names',
+        },
+        points: 1,
+      },
+    ];
+
+    checks.forEach(({ nodes, convention, kind, points }) => {
+      const result = casingPoints(
+        nodes,
+        convention,
+        kind,
+        points,
+        suppressions,
+      );
+      score += result.score;
+      excludedPoints += result.excluded;
+      findings.push(...result.findings);
+    });
+
+    return createCriteriaScore({
+      name: 'Naming Consistency',
+      score,
+      maxScore: maxScore - excludedPoints,
+      findings,
+    });
+  }
+
+  /**
+   * Score Pagination & Collections (10 points)
+   * Evaluates whether list endpoints are paginated in one style, bound their
+   * page size, describe the next page or total, and name sort and filter
+   * parameters alike
+   */
+  scorePagination(
+    document: OpenAPIV3.Document,
+    suppressions?: Suppressions,
+  ): CriteriaScore {
+    const maxScore = 10;
+    let score = 0;
+    let excludedPoints = 0;
+    const findings: Finding[] = [];
+
+    const collections = getPathItems(document, ['paths']).flatMap(
+      ({ name: path, pathItem }) => {
+        const collection =
+          pathItem?.get && collectionOperation(path, pathItem, pathItem.get);
+        return collection ? [collection] : [];
+      },
+    );
+
+    if (collections.length === 0) {
+      return createCriteriaScore({
+        name: 'Pagination & Collections',
+        score: 0,
+        maxScore: 0,
+        findings: [
+          finding(
+            'pagination/no-collections',
+            'No collection endpoints found; pagination checks do not apply',
+          ),
+        ],
+      });
+    }
+
+    /**
+     * Add findings for the failing operations and the points for the rest
+     */
+    const check = (
+      ruleId: string,
+      total: number,
+      failures: Array<{
+        message: string;
+        target: FindingTarget;
+        pointer: string;
+      }>,
+      suggestion: string,
+      points: number,
+    ) => {
+      if (total === 0) {
+        excludedPoints += points;
+        return;
+      }
+
+      failures.forEach(({ message, target, pointer }) => {
+        findings.push(
+          finding(ruleId, message, { suggestion, target, pointer }),
+        );
+      });
+      const result = coveragePoints(
+        total - failures.length,
+        total,
+        failures.filter(({ pointer }) =>
+          suppressions?.isSuppressed(ruleId, pointer),
+        ).length,
+        points,
+      );
+      score += result.score;
+      excludedPoints += result.excluded;
     };
+
+    // Paginated at all (3)
+    const paginated = collections.filter(({ style }) => style);
+    check(
+      'pagination/not-paginated',
+      collections.length,
+      collections
+        .filter(({ style }) => !style)
+        .map(({ target, pointer, parameters }) => ({
+          message: parameters.some(({ key }) => LIMIT_PARAMETERS.includes(key))
+            ? 'Collection endpoint has a limit but no cursor, offset or page parameter'
+            : 'Collection endpoint is not paginated',
+          target,
+          pointer,
+        })),
+      'Paginate list endpoints with cursor/limit or page/size query parameters',
+      3,
+    );
+    findings.push(
+      finding(
+        'pagination/coverage',
+        `${paginated.length}/${collections.length} collection endpoints are paginated`,
+      ),
+    );
+
+    // One pagination style across the API (2)
+    const style = majority(paginated.map((collection) => collection.style));
+    if (style) {
+      findings.push(
+        finding('pagination/style', `Collections use ${style} pagination`),
+      );
+    }
+    check(
+      'pagination/inconsistent-style',
+      paginated.length,
+      paginated
+        .filter((collection) => collection.style !== style)
+        .map(({ target, pointer, style: used }) => ({
+          message: `Uses ${used} pagination; other collection endpoints use ${style} pagination`,
+          target,
+          pointer,
+        })),
+      'Use the same pagination style for every collection endpoint',
+      2,
+    );
+
+    // Page size bounded by a documented maximum (2), also for collections
+    // that are not paginated yet
+    check(
+      'pagination/unbounded-limit',
+      collections.length,
+      collections.flatMap(({ target, pointer, parameters }) => {
+        const limit = parameters.find(({ key }) =>
+          LIMIT_PARAMETERS.includes(key),
+        );
+        if (!limit) {
+          return [
+            {
+              message: 'Collection endpoint has no page size parameter',
+              target,
+              pointer,
+            },
+          ];
+        }
+        return limit.schema?.maximum === undefined
+          ? [
+              {
+                message: `Page size parameter "${limit.name}" has no maximum`,
+                target,
+                pointer: limit.pointer,
+              },
+            ]
+          : [];
+      }),
+      'Document the default and maximum page size with a bounded limit parameter',
+      2,
+    );
+
+    // Page envelope with a next link or total, or a `Link` header (2)
+    check(
+      'pagination/missing-envelope',
+      collections.length,
+      collections.flatMap(({ target, pointer, response }) => {
+        const properties = Object.keys(response?.schema?.properties ?? {}).map(
+          normalizeName,
+        );
+        const links = Object.entries(response?.schema?.properties ?? {}).find(
+          ([name]) => ['links', 'link'].includes(normalizeName(name)),
+        )?.[1];
+        const hasNext =
+          response?.headers.includes('link') ||
+          properties.some((name) =>
+            [...NEXT_PROPERTIES, ...TOTAL_PROPERTIES].includes(name),
+          ) ||
+          (isSchemaObject(links) && 'next' in (links.properties ?? {}));
+        if (hasNext) return [];
+
+        return [
+          {
+            message:
+              response?.schema && schemaTypes(response.schema).includes('array')
+                ? 'Collection response is a bare array without a next link or total'
+                : 'Collection response has no next link or total',
+            target,
+            pointer: response?.pointer ?? pointer,
+          },
+        ];
+      }),
+      'Wrap pages in an envelope with a next link or cursor, or a total count',
+      2,
+    );
+
+    // The same sort and filter parameter names everywhere (1)
+    const named = (names: string[]) =>
+      collections.flatMap(({ target, parameters }) =>
+        parameters
+          .filter(({ key }) => names.includes(key))
+          .map((parameter) => ({ ...parameter, target })),
+      );
+    const inconsistent = [SORT_PARAMETERS, FILTER_PARAMETERS].flatMap(
+      (names) => {
+        const used = named(names);
+        const preferred = majority(used.map(({ name }) => name));
+        return used
+          .filter(({ name }) => name !== preferred)
+          .map(({ name, target, pointer }) => ({
+            message: `Uses "${name}"; other collection endpoints use "${preferred}"`,
+            target,
+            pointer,
+          }));
+      },
+    );
+    check(
+      'pagination/inconsistent-parameters',
+      named([...SORT_PARAMETERS, ...FILTER_PARAMETERS]).length,
+      inconsistent,
+      'Name sort and filter parameters the same on every collection endpoint',
+      1,
+    );
+
+    return createCriteriaScore({
+      name: 'Pagination & Collections',
+      score,
+      maxScore: maxScore - excludedPoints,
+      findings,
+    });
+  }
+
+  /**
+   * Score Error Model (10 points)
+   * Evaluates whether error responses have bodies of one shared model, such
+   * as RFC 9457 problem details, with the fields clients rely on
+   */
+  scoreErrorModel(
+    document: OpenAPIV3.Document,
+    suppressions?: Suppressions,
+  ): CriteriaScore {
+    const maxScore = 10;
+    let score = 0;
+    let excludedPoints = 0;
+    const findings: Finding[] = [];
+
+    const errors: ErrorResponse[] = [];
+    const defaultOnly: Array<{ target: FindingTarget; pointer: string }> = [];
+    let operationsWithErrors = 0;
+
+    getPathItems(document, ['paths']).forEach(({ name: path, pathItem }) => {
+      const methods = ['get', 'post', 'put', 'patch', 'delete'] as const;
+      methods.forEach((method) => {
+        const operation = pathItem?.[method];
+        if (!operation) return;
+
+        const target = operationTarget(method, path);
+        const pointer = operationPointer(path, method);
+        const codes = Object.keys(operation.responses);
+        const explicit = codes.filter((code) => /^[45]/.test(code));
+        const errorCodes =
+          explicit.length > 0
+            ? explicit
+            : codes.filter((code) => code === 'default');
+        if (errorCodes.length === 0) return;
+
+        operationsWithErrors++;
+        if (explicit.length === 0) {
+          defaultOnly.push({
+            target,
+            pointer: `${pointer}${toPointer(['responses', 'default'])}`,
+          });
+        }
+
+        errorCodes.forEach((code) => {
+          const response = operation.responses[code];
+          const content =
+            response && 'content' in response ? (response.content ?? {}) : {};
+          const mediaType =
+            content[PROBLEM_JSON] ??
+            content['application/json'] ??
+            Object.values(content).find((entry) => entry.schema);
+          errors.push({
+            code,
+            target,
+            pointer: `${pointer}${toPointer(['responses', code])}`,
+            schema: isSchemaObject(mediaType?.schema)
+              ? mediaType.schema
+              : undefined,
+            problem: !!content[PROBLEM_JSON]?.schema,
+          });
+        });
+      });
+    });
+
+    if (errors.length === 0) {
+      return createCriteriaScore({
+        name: 'Error Model',
+        score: 0,
+        maxScore: 0,
+        findings: [
+          finding(
+            'error-model/no-error-responses',
+            'No error responses defined; error model checks do not apply',
+          ),
+        ],
+      });
+    }
+
+    const suppressedCount = (ruleId: string, pointers: string[]) =>
+      pointers.filter((pointer) => suppressions?.isSuppressed(ruleId, pointer))
+        .length;
+
+    // Every error response has a body schema (3)
+    const withSchema = errors.filter(
+      (error): error is ErrorResponse & { schema: OpenAPIV3.SchemaObject } =>
+        !!error.schema,
+    );
+    const withoutSchema = errors.filter(({ schema }) => !schema);
+    withoutSchema.forEach(({ code, target, pointer }) => {
+      findings.push(
+        finding(
+          'error-model/missing-schema',
+          `Error response ${code} has no body schema`,
+          {
+            suggestion:
+              'Describe the body of every error response with the shared error model',
+            target,
+            pointer,
+          },
+        ),
+      );
+    });
+    const schemaCoverage = coveragePoints(
+      withSchema.length,
+      errors.length,
+      suppressedCount(
+        'error-model/missing-schema',
+        withoutSchema.map(({ pointer }) => pointer),
+      ),
+      3,
+    );
+    score += schemaCoverage.score;
+    excludedPoints += schemaCoverage.excluded;
+    findings.push(
+      finding(
+        'error-model/schema-coverage',
+        `${withSchema.length}/${errors.length} error responses have a body schema`,
+      ),
+    );
+
+    // Specific error codes besides `default` (1)
+    defaultOnly.forEach(({ target, pointer }) => {
+      findings.push(
+        finding(
+          'error-model/default-only',
+          'Errors are only described by the default response',
+          {
+            suggestion:
+              'Describe the specific 4xx and 5xx responses an operation returns, not only default',
+            target,
+            pointer,
+          },
+        ),
+      );
+    });
+    const specific = coveragePoints(
+      operationsWithErrors - defaultOnly.length,
+      operationsWithErrors,
+      suppressedCount(
+        'error-model/default-only',
+        defaultOnly.map(({ pointer }) => pointer),
+      ),
+      1,
+    );
+    score += specific.score;
+    excludedPoints += specific.excluded;
+
+    // One shared model (3), problem details or a named schema (1), with the
+    // fields clients rely on (2)
+    const modelKey = (
+      error: ErrorResponse & { schema: OpenAPIV3.SchemaObject },
+    ) => (error.problem ? PROBLEM_JSON : errorShape(error.schema));
+    const dominant = majority(withSchema.map(modelKey));
+    const model = withSchema.find((error) => modelKey(error) === dominant);
+    if (!model || !dominant) {
+      return createCriteriaScore({
+        name: 'Error Model',
+        score,
+        maxScore: maxScore - excludedPoints,
+        findings,
+      });
+    }
+
+    const componentName = Object.entries(
+      document.components?.schemas ?? {},
+    ).find(
+      ([, schema]) =>
+        isSchemaObject(schema) &&
+        errorShape(schema) === errorShape(model.schema),
+    )?.[0];
+    const label = model.problem
+      ? PROBLEM_JSON
+      : componentName
+        ? `components.schemas.${componentName}`
+        : `{ ${errorShape(model.schema)} }`;
+
+    const divergent = withSchema.filter(
+      (error) => modelKey(error) !== dominant,
+    );
+    divergent.forEach((error) => {
+      findings.push(
+        finding(
+          'error-model/divergent-shape',
+          `Error response ${error.code} has the shape { ${errorShape(
+            error.schema,
+          )} }${error.problem ? ` (${PROBLEM_JSON})` : ''} instead of the shared model ${label}`,
+          {
+            suggestion: `Return the same error model, ${label}, from every error response`,
+            target: error.target,
+            pointer: error.pointer,
+          },
+        ),
+      );
+    });
+    const consistency = coveragePoints(
+      withSchema.length - divergent.length,
+      withSchema.length,
+      suppressedCount(
+        'error-model/divergent-shape',
+        divergent.map(({ pointer }) => pointer),
+      ),
+      3,
+    );
+    score += consistency.score;
+    excludedPoints += consistency.excluded;
+    findings.push(
+      finding(
+        'error-model/shared-model',
+        `${withSchema.length - divergent.length}/${withSchema.length} error bodies use ${label}`,
+      ),
+    );
+
+    if (model.problem || componentName) {
+      score += 1;
+    } else {
+      findings.push(
+        finding(
+          'error-model/ad-hoc-model',
+          'The error model is defined inline rather than as problem details or a shared schema',
+          {
+            suggestion: `Use ${PROBLEM_JSON} (RFC 9457) or define the error model once in components.schemas`,
+            pointer: model.pointer,
+          },
+        ),
+      );
+      if (
+        suppressions?.isSuppressed('error-model/ad-hoc-model', model.pointer)
+      ) {
+        excludedPoints += 1;
+      }
+    }
+
+    const properties = schemaPropertyNames(model.schema).map(normalizeName);
+    const missingFields = ERROR_MODEL_FIELDS[
+      model.problem ? 'problem' : 'custom'
+    ].filter((names) => !names.some((name) => properties.includes(name)));
+    const fieldCount =
+      ERROR_MODEL_FIELDS[model.problem ? 'problem' : 'custom'].length;
+    if (
+      missingFields.length > 0 &&
+      suppressions?.isSuppressed('error-model/missing-fields', model.pointer)
+    ) {
+      excludedPoints += 2;
+    } else {
+      score += ((fieldCount - missingFields.length) / fieldCount) * 2;
+    }
+    if (missingFields.length > 0) {
+      findings.push(
+        finding(
+          'error-model/missing-fields',
+          `The error model ${label} has no ${missingFields
+            .map((names) => names[0])
+            .join(', ')} field`,
+          {
+            suggestion: model.problem
+              ? 'Include the RFC 9457 members type, title and status in problem details'
+              : 'Give the error model a machine-readable code and a human-readable message',
+            pointer: model.pointer,
+          },
+        ),
+      );
+    }
+
+    return createCriteriaScore({
+      name: 'Error Model',
+      score,
+      maxScore: maxScore - excludedPoints,
+      findings,
+    });
   }
 }
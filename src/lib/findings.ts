@@ -0,0 +1,159 @@
+import type { CriteriaScore } from './evaluators';
+import { parsePointer, toPointer } from './pointer';
+import type { SourceLocation } from './source-map';
+
+/**
+ * How serious a finding is, from most to least severe
+ */
+export type Severity = 'error' | 'warn' | 'info' | 'hint';
+
+export const SEVERITIES: Severity[] = ['error', 'warn', 'info', 'hint'];
+
+/**
+ * The part of the document a finding is about
+ */
+export interface FindingTarget {
+  kind: 'path' | 'operation' | 'component' | 'channel' | 'message' | 'server';
+  /**
+   * e.g. `/pets`, `GET /pets/{id}` or `schemas/Pet`; AsyncAPI channels,
+   * messages and servers by name
+   */
+  name: string;
+}
+
+/**
+ * A single result of a check, identified by a stable rule id
+ */
+export interface Finding {
+  /** Stable identifier of the check, e.g. `descriptions/operation-missing` */
+  ruleId: string;
+  severity: Severity;
+  message: string;
+  suggestion?: string;
+  /** Affected operation, path or component; document-level when omitted */
+  target?: FindingTarget;
+  /** JSON Pointer to the offending node in the document */
+  pointer?: string;
+  /** Position of `pointer` in the source files, filled in by the scorer */
+  location?: SourceLocation;
+}
+
+/**
+ * Compare two findings by severity, most severe first
+ */
+export function compareSeverity(a: Finding, b: Finding): number {
+  return SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity);
+}
+
+/**
+ * Identity of an array element that survives reordering: `in:name` for
+ * parameters, `name` for e.g. tags and `url` for servers
+ */
+function elementKey(element: unknown): string | undefined {
+  if (!element || typeof element !== 'object') return undefined;
+  const { name, in: location, url } = element as Record<string, unknown>;
+  if (typeof name === 'string') {
+    return typeof location === 'string' ? `${location}:${name}` : name;
+  }
+  return typeof url === 'string' ? url : undefined;
+}
+
+/**
+ * Rewrite the array indexes of a pointer into a document as the identity of
+ * the element, e.g. `/paths/~1pets/get/parameters/0` as
+ * `/paths/~1pets/get/parameters/query:limit`. Indexes of elements without an
+ * identity are kept.
+ */
+export function stablePointer(document: unknown, pointer: string): string {
+  let node = document;
+  const segments = parsePointer(pointer).map((segment) => {
+    const element = Array.isArray(node) ? node[Number(segment)] : undefined;
+    node =
+      node && typeof node === 'object'
+        ? (node as Record<string, unknown>)[segment]
+        : undefined;
+    return (element !== undefined && elementKey(element)) || segment;
+  });
+  return toPointer(segments);
+}
+
+/**
+ * Identity of a finding across versions of a document: the rule plus the node
+ * it is about, ignoring the message (which may contain counts). With the
+ * document, array elements in the pointer are identified by `stablePointer`
+ * so that reordering them keeps the identity.
+ */
+export function findingKey(finding: Finding, document?: unknown): string {
+  const pointer =
+    finding.pointer !== undefined && document !== undefined
+      ? stablePointer(document, finding.pointer)
+      : finding.pointer;
+  return `${finding.ruleId}@${pointer ?? finding.target?.name ?? ''}`;
+}
+
+/**
+ * Human readable label for a finding target
+ */
+export function formatTarget(target: FindingTarget | undefined): string {
+  return target ? target.name : 'document';
+}
+
+/**
+ * Findings worth acting on: errors, warnings and hints
+ */
+export function getIssues(findings: Finding[]): Finding[] {
+  return findings.filter((f) => f.severity !== 'info').sort(compareSeverity);
+}
+
+/**
+ * Build a CriteriaScore from its findings.
+ * `feedback` holds the document-level observations and `suggestions` the
+ * distinct suggestions, ordered by severity.
+ */
+export function createCriteriaScore(criteria: {
+  name: string;
+  score: number;
+  maxScore: number;
+  findings: Finding[];
+}): CriteriaScore {
+  const { name, score, maxScore, findings } = criteria;
+
+  const feedback = findings
+    .filter((f) => !f.target && f.severity !== 'hint')
+    .map((f) => f.message);
+
+  const suggestions = [
+    ...new Set(
+      [...findings]
+        .sort(compareSeverity)
+        .map((f) => f.suggestion)
+        .filter((s): s is string => !!s),
+    ),
+  ];
+
+  return {
+    name,
+    score: Math.round(score),
+    maxScore,
+    percentage: maxScore > 0 ? Math.round((score / maxScore) * 100) : 0,
+    findings,
+    feedback,
+    suggestions,
+  };
+}
+
+/**
+ * Distinct suggestions across findings, most severe first
+ */
+export function getPrioritySuggestions(
+  findings: Finding[],
+  limit = 5,
+): string[] {
+  return [
+    ...new Set(
+      getIssues(findings)
+        .map((f) => f.suggestion)
+        .filter((s): s is string => !!s),
+    ),
+  ].slice(0, limit);
+}
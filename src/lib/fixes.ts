@@ -0,0 +1,603 @@
+import type { OpenAPIV3 } from 'openapi-types';
+import {
+  type Document,
+  isMap,
+  isPair,
+  isScalar,
+  isSeq,
+  type Node,
+  type Pair,
+  parseDocument,
+  stringify,
+  type ToStringOptions,
+  type YAMLMap,
+  type YAMLSeq,
+} from 'yaml';
+import { isAsyncAPI, type SpecDocument } from './asyncapi';
+import { toPointer } from './pointer';
+import { isSwagger2 } from './swagger2';
+
+/**
+ * Identifiers of the available fixes
+ */
+export type FixId =
+  | 'operation-ids'
+  | 'declare-tags'
+  | 'error-responses'
+  | 'path-case';
+
+/**
+ * A mechanical change `applyFixes` can make to a specification
+ */
+export interface FixDefinition {
+  id: FixId;
+  description: string;
+  /** Rule whose findings the fix addresses, if any */
+  ruleId?: string;
+  /**
+   * Changes the API contract, e.g. renames paths. Such fixes only run when
+   * chosen explicitly.
+   */
+  breaking?: boolean;
+}
+
+/**
+ * Every fix, in the order they are applied
+ */
+export const FIXES: FixDefinition[] = [
+  {
+    id: 'operation-ids',
+    description: 'Add an operationId to operations without one',
+    ruleId: 'naming/operation-id-missing',
+  },
+  {
+    id: 'declare-tags',
+    description: 'Declare tags used by operations in the top-level tags',
+  },
+  {
+    id: 'error-responses',
+    description:
+      'Reference a shared error response from operations without a 4xx or 5xx response',
+    ruleId: 'response-codes/missing-error',
+  },
+  {
+    id: 'path-case',
+    description: 'Rename path segments to lowercase words separated by hyphens',
+    ruleId: 'paths-operations/naming',
+    breaking: true,
+  },
+];
+
+/**
+ * Fixes applied when none are chosen: every fix that keeps the contract
+ */
+export const DEFAULT_FIXES: FixId[] = FIXES.filter((fix) => !fix.breaking).map(
+  (fix) => fix.id,
+);
+
+/**
+ * One change made by a fix
+ */
+export interface AppliedFix {
+  fix: FixId;
+  /** JSON Pointer of the changed node, in the original document */
+  pointer: string;
+  message: string;
+}
+
+/**
+ * Outcome of applying fixes to the text of a specification
+ */
+export interface FixResult {
+  original: string;
+  /** The text with the fixes applied; equal to `original` if none applied */
+  fixed: string;
+  applied: AppliedFix[];
+}
+
+const HTTP_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+  'trace',
+] as const;
+
+/**
+ * Status codes implied by the names of shared responses, e.g. `NotFound`
+ */
+const STATUS_NAMES: Array<[RegExp, string]> = [
+  [/bad-?request|invalid/i, '400'],
+  [/unauthori[sz]ed|unauthenticated/i, '401'],
+  [/forbidden/i, '403'],
+  [/not-?found/i, '404'],
+  [/conflict/i, '409'],
+  [/unprocessable|validation/i, '422'],
+  [/too-?many-?requests|rate-?limit/i, '429'],
+  [/unavailable/i, '503'],
+];
+
+/**
+ * Edits the text of a specification by splicing changes in at the source
+ * positions of its nodes, so everything that is not edited keeps its
+ * formatting, key order and comments. JSON is parsed as YAML flow
+ * collections and edited the same way.
+ */
+class SpecEditor {
+  private document: Document.Parsed;
+  private edits: Array<{
+    offset: number;
+    end: number;
+    text: string;
+    /** Nesting of the edited collection; inner edits go first */
+    depth: number;
+  }> = [];
+  private json: boolean;
+  /** One level of indentation, detected from the text */
+  private unit: string;
+  private options: ToStringOptions;
+
+  constructor(private content: string) {
+    this.document = parseDocument(content);
+    if (this.document.errors.length > 0 || !isMap(this.document.contents)) {
+      throw new Error(
+        `Failed to parse specification: ${
+          this.document.errors[0]?.message ?? 'expected a mapping'
+        }`,
+      );
+    }
+
+    this.json = content.trim().startsWith('{');
+    this.unit = /^\S[^\n]*\n([ \t]+)\S/m.exec(content)?.[1] ?? '  ';
+    this.options = {
+      indent: this.unit.length,
+      lineWidth: 0,
+      // Keep `- item` at the indentation of its parent key if it was there
+      indentSeq: !/^( *)\S[^\n]*:[ \t]*\n\1- /m.test(content),
+      singleQuote: /^\s*'[^'\n]*'\s*:/m.test(content),
+      flowCollectionPadding: !/[{[][^\s\]}]/.test(content),
+    };
+  }
+
+  /** The document as plain data */
+  get value(): unknown {
+    return this.document.toJS();
+  }
+
+  private column(offset: number): number {
+    return offset - (this.content.lastIndexOf('\n', offset - 1) + 1);
+  }
+
+  /**
+   * Serialize a value to start at `column`; continuation lines are indented
+   * to match. Flow values are written on one line unless `multiline` is set
+   * for JSON.
+   */
+  private serialize(
+    value: unknown,
+    column: number,
+    flow: boolean,
+    multiline = false,
+  ): string {
+    const text = this.json
+      ? JSON.stringify(value, null, multiline ? this.unit : undefined)
+      : stringify(value, {
+          ...this.options,
+          ...(flow && { collectionStyle: 'flow' as const }),
+        }).replace(/\n$/, '');
+    return text.replace(/\n/g, `\n${' '.repeat(column)}`);
+  }
+
+  private collection(path: string[]): YAMLMap | YAMLSeq | undefined {
+    const node = this.document.getIn(path, true);
+    return isMap(node) || isSeq(node) ? node : undefined;
+  }
+
+  /**
+   * Insert an entry, `key: value` for maps, at the end of a collection
+   */
+  private insert(
+    path: string[],
+    entry: (column: number, flow: boolean, multiline: boolean) => string,
+    first = false,
+  ): boolean {
+    const target = this.collection(path);
+    if (!target) return false;
+    const depth = path.length;
+    const [start, end] = target.range ?? [0, 0];
+    const last = target.items[target.items.length - 1];
+    const lastNode = (isPair(last) ? (last.value ?? last.key) : last) as
+      | Node
+      | undefined;
+
+    if (!target.flow) {
+      const column = this.column(start);
+      if (first) {
+        this.edits.push({
+          offset: start,
+          end: start,
+          text: `${entry(column, false, true)}\n${' '.repeat(column)}`,
+          depth,
+        });
+        return true;
+      }
+
+      // Block collections end after the newline of their last line
+      const newline = this.content[end - 1] === '\n' ? '' : '\n';
+      this.edits.push({
+        offset: end,
+        end,
+        text: `${newline}${' '.repeat(column)}${entry(column, false, true)}\n`,
+        depth,
+      });
+      return true;
+    }
+
+    const close = end - 1;
+    const firstItem = target.items[0] as Node | Pair | undefined;
+    const firstStart = (isPair(firstItem) ? firstItem.key : firstItem) as
+      | Node
+      | undefined;
+    const multiline = this.content.slice(start, end).includes('\n');
+
+    if (!lastNode?.range || !firstStart?.range) {
+      // Empty collection: `{}` or `[]`
+      const column = this.column(start) + this.unit.length;
+      this.edits.push({
+        offset: close,
+        end: close,
+        text: entry(column, true, false),
+        depth,
+      });
+      return true;
+    }
+
+    const column = this.column(firstStart.range[0]);
+    this.edits.push({
+      offset: lastNode.range[1],
+      end: lastNode.range[1],
+      text: multiline
+        ? `,\n${' '.repeat(column)}${entry(column, true, true)}`
+        : `, ${entry(column, true, false)}`,
+      depth,
+    });
+    return true;
+  }
+
+  /**
+   * Add a key that does not exist yet to the map at `path`
+   * @param first - Add the key before the others in block maps
+   * @returns Whether the map was found
+   */
+  add(path: string[], key: string, value: unknown, first = false): boolean {
+    if (!isMap(this.collection(path))) return false;
+
+    return this.insert(
+      path,
+      (column, flow, multiline) =>
+        flow
+          ? `${this.serialize(key, column, true)}: ${this.serialize(
+              value,
+              column,
+              true,
+              multiline,
+            )}`
+          : this.serialize({ [key]: value }, column, false),
+      first,
+    );
+  }
+
+  /**
+   * Append an item to the sequence at `path`
+   * @returns Whether the sequence was found
+   */
+  append(path: string[], value: unknown): boolean {
+    if (!isSeq(this.collection(path))) return false;
+
+    return this.insert(path, (column, flow, multiline) =>
+      flow
+        ? this.serialize(value, column, true, multiline)
+        : this.serialize([value], column, false),
+    );
+  }
+
+  /**
+   * Rename a key of the map at `path`, keeping its position and quotes
+   * @returns Whether the key was found
+   */
+  renameKey(path: string[], from: string, to: string): boolean {
+    const map = this.collection(path);
+    const key = isMap(map)
+      ? map.items.find(
+          (pair) => isScalar(pair.key) && String(pair.key.value) === from,
+        )?.key
+      : undefined;
+    if (!isScalar(key) || !key.range) return false;
+
+    const quoted =
+      key.type === 'QUOTE_DOUBLE'
+        ? JSON.stringify(to)
+        : key.type === 'QUOTE_SINGLE'
+          ? `'${to.replace(/'/g, "''")}'`
+          : to;
+    this.edits.push({
+      offset: key.range[0],
+      end: key.range[1],
+      text: quoted,
+      depth: path.length,
+    });
+    return true;
+  }
+
+  /**
+   * The text with every edit applied
+   */
+  toString(): string {
+    // Apply from the end so offsets stay valid. At equal offsets, edits of
+    // inner collections come first in the text, then in the order made.
+    return this.edits
+      .map((edit, index) => ({ ...edit, index }))
+      .sort(
+        (a, b) => b.offset - a.offset || a.depth - b.depth || b.index - a.index,
+      )
+      .reduce(
+        (text, edit) =>
+          `${text.slice(0, edit.offset)}${edit.text}${text.slice(edit.end)}`,
+        this.content,
+      );
+  }
+}
+
+const capitalize = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * `get /pets/{petId}/toys` → `getPetsToysByPetId`
+ */
+function operationIdFor(method: string, path: string): string {
+  const words = (segment: string) =>
+    segment
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map(capitalize)
+      .join('');
+  const segments = path.split('/').filter(Boolean);
+  const names = segments.filter((segment) => !segment.startsWith('{'));
+  const params = segments.filter((segment) => segment.startsWith('{'));
+
+  return `${method}${names.map(words).join('')}${
+    params.length > 0 ? `By${params.map(words).join('And')}` : ''
+  }`;
+}
+
+/**
+ * `userProfiles` and `user_profiles` → `user-profiles`
+ */
+function kebabSegment(segment: string): string {
+  return segment
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1-$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+function operationsOf(document: OpenAPIV3.Document): Array<{
+  path: string;
+  method: string;
+  operation: OpenAPIV3.OperationObject;
+}> {
+  return Object.entries(document.paths ?? {}).flatMap(([path, pathItem]) =>
+    pathItem && !('$ref' in pathItem)
+      ? HTTP_METHODS.flatMap((method) => {
+          const operation = pathItem[method];
+          return operation ? [{ path, method, operation }] : [];
+        })
+      : [],
+  );
+}
+
+function fixOperationIds(
+  document: OpenAPIV3.Document,
+  editor: SpecEditor,
+): AppliedFix[] {
+  const operations = operationsOf(document);
+  const taken = new Set(
+    operations.flatMap(({ operation }) =>
+      operation.operationId ? [operation.operationId] : [],
+    ),
+  );
+
+  return operations
+    .filter(({ operation }) => !operation.operationId)
+    .flatMap(({ path, method }): AppliedFix[] => {
+      const base = operationIdFor(method, path);
+      let operationId = base;
+      for (let n = 2; taken.has(operationId); n++) {
+        operationId = `${base}${n}`;
+      }
+
+      if (
+        !editor.add(['paths', path, method], 'operationId', operationId, true)
+      ) {
+        return [];
+      }
+      taken.add(operationId);
+      return [
+        {
+          fix: 'operation-ids',
+          pointer: toPointer(['paths', path, method]),
+          message: `Added operationId "${operationId}" to ${method.toUpperCase()} ${path}`,
+        },
+      ];
+    });
+}
+
+function fixTags(
+  document: OpenAPIV3.Document,
+  editor: SpecEditor,
+): AppliedFix[] {
+  const declared = new Set((document.tags ?? []).map((tag) => tag.name));
+  const used = [
+    ...new Set(
+      operationsOf(document).flatMap(({ operation }) => operation.tags ?? []),
+    ),
+  ];
+
+  const missing = used.filter((tag) => !declared.has(tag));
+  if (missing.length === 0) return [];
+
+  const added = document.tags
+    ? missing.filter((tag) => editor.append(['tags'], { name: tag }))
+    : editor.add(
+          [],
+          'tags',
+          missing.map((tag) => ({ name: tag })),
+        )
+      ? missing
+      : [];
+  return added.map((tag) => ({
+    fix: 'declare-tags',
+    pointer: '/tags',
+    message: `Declared tag "${tag}"`,
+  }));
+}
+
+/**
+ * The shared response to reference for errors and the status code to use
+ */
+function sharedErrorResponse(
+  document: OpenAPIV3.Document,
+): { name: string; code: string } | undefined {
+  const responses = Object.keys(document.components?.responses ?? {}).map(
+    (name) => ({
+      name,
+      code:
+        /(?:^|\D)([45]\d\d)(?:\D|$)/.exec(name)?.[1] ??
+        STATUS_NAMES.find(([pattern]) => pattern.test(name))?.[1],
+    }),
+  );
+
+  // A generic error response fits any operation, as does a server error
+  const generic = responses.find(
+    (response) => !response.code && /error|problem|fault/i.test(response.name),
+  );
+  if (generic) return { name: generic.name, code: '500' };
+
+  const serverError = responses.find((response) =>
+    response.code?.startsWith('5'),
+  );
+  return serverError?.code
+    ? { name: serverError.name, code: serverError.code }
+    : undefined;
+}
+
+function fixErrorResponses(
+  document: OpenAPIV3.Document,
+  editor: SpecEditor,
+): AppliedFix[] {
+  const shared = sharedErrorResponse(document);
+  if (!shared) return [];
+
+  return operationsOf(document)
+    .filter(
+      ({ operation }) =>
+        operation.responses &&
+        !Object.keys(operation.responses).some(
+          (code) => code.startsWith('4') || code.startsWith('5'),
+        ),
+    )
+    .flatMap(({ path, method }): AppliedFix[] =>
+      editor.add(['paths', path, method, 'responses'], shared.code, {
+        $ref: `#/components/responses/${shared.name}`,
+      })
+        ? [
+            {
+              fix: 'error-responses',
+              pointer: toPointer(['paths', path, method, 'responses']),
+              message: `Added ${shared.code} response "${shared.name}" to ${method.toUpperCase()} ${path}`,
+            },
+          ]
+        : [],
+    );
+}
+
+function fixPathCase(
+  document: OpenAPIV3.Document,
+  editor: SpecEditor,
+): AppliedFix[] {
+  const paths = new Set(Object.keys(document.paths ?? {}));
+  const applied: AppliedFix[] = [];
+
+  [...paths].forEach((path) => {
+    const renamed = path
+      .split('/')
+      .map((segment) =>
+        segment.startsWith('{') ? segment : kebabSegment(segment),
+      )
+      .join('/');
+    // Leave paths alone that would lose a segment or collide with another
+    if (
+      renamed === path ||
+      renamed.split('/').length !== path.split('/').length ||
+      renamed.includes('//') ||
+      paths.has(renamed)
+    ) {
+      return;
+    }
+
+    if (!editor.renameKey(['paths'], path, renamed)) return;
+    paths.delete(path);
+    paths.add(renamed);
+    applied.push({
+      fix: 'path-case',
+      pointer: toPointer(['paths', path]),
+      message: `Renamed path ${path} to ${renamed}`,
+    });
+  });
+
+  return applied;
+}
+
+const APPLY: Record<
+  FixId,
+  (document: OpenAPIV3.Document, editor: SpecEditor) => AppliedFix[]
+> = {
+  'operation-ids': fixOperationIds,
+  'declare-tags': fixTags,
+  'error-responses': fixErrorResponses,
+  'path-case': fixPathCase,
+};
+
+/**
+ * Apply fixes to the text of an OpenAPI 3 specification, changing nothing
+ * but the fixed nodes. `$ref`ed path items in other files are not changed.
+ * @param content - JSON or YAML text of the root document
+ * @param fixes - Fixes to apply (default: `DEFAULT_FIXES`)
+ * @throws For Swagger 2.0 and AsyncAPI documents, and unparseable text
+ */
+export function applyFixes(
+  content: string,
+  fixes: FixId[] = DEFAULT_FIXES,
+): FixResult {
+  const editor = new SpecEditor(content);
+  const parsed = editor.value as SpecDocument;
+  if (isSwagger2(parsed) || isAsyncAPI(parsed)) {
+    throw new Error('Only OpenAPI 3 documents can be fixed');
+  }
+
+  // Fixes see the document as it was before any of them ran
+  const applied = FIXES.filter((fix) => fixes.includes(fix.id)).flatMap((fix) =>
+    APPLY[fix.id](parsed as OpenAPIV3.Document, editor),
+  );
+
+  return {
+    original: content,
+    fixed: applied.length > 0 ? editor.toString() : content,
+    applied,
+  };
+}
@@ -0,0 +1,620 @@
+import { writeFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import consola from 'consola';
+import { specFormat, specVersion } from './asyncapi';
+import type { BreakdownEntry } from './breakdown';
+import {
+  formatTarget,
+  getIssues,
+  getPrioritySuggestions,
+  type Severity,
+} from './findings';
+import { toJsonScoringReport } from './json-report';
+import { importModule } from './modules';
+import type { ScoringResult } from './reporter';
+import { toSarifLog } from './sarif';
+import { formatLocation } from './source-map';
+import type { SuppressedFinding } from './suppressions';
+import type { SpecConversion } from './swagger2';
+import type { ValidationResult } from './validator';
+
+/**
+ * What a formatter produces: text, or bytes for binary formats
+ */
+export type FormatterOutput = string | Uint8Array;
+
+/**
+ * Extra information available to formatters
+ */
+export interface FormatterContext {
+  /**
+   * Validate the scored specification, for formats that include validation
+   * findings. Validation runs on first call only.
+   */
+  validate(): Promise<ValidationResult>;
+}
+
+/**
+ * Renders a scoring result in one output format, selected with `--format`
+ */
+export interface ReportFormatter {
+  /** Name selected with `--format`, e.g. `markdown` */
+  name: string;
+  /** Describes the output in messages, e.g. `Markdown report` */
+  label?: string;
+  /** File written when `--output` is omitted; stdout when unset */
+  defaultOutput?: string;
+  format(
+    result: ScoringResult,
+    context: FormatterContext,
+  ): FormatterOutput | Promise<FormatterOutput>;
+}
+
+export const SEVERITY_ICONS: Record<Severity, string> = {
+  error: '❌',
+  warn: '⚠️',
+  info: 'ℹ️',
+  hint: '💡',
+};
+
+export const capitalize = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+const percentageHex = (percentage: number) =>
+  percentage >= 80 ? '#22c55e' : percentage >= 60 ? '#eab308' : '#ef4444';
+
+export const formatFailedChecks = (entry: BreakdownEntry) =>
+  Object.entries(entry.failedChecks)
+    .map(([check, count]) =>
+      entry.operations.length > 1 ? `${check} (${count})` : check,
+    )
+    .join(', ');
+
+const escapeTableCell = (value: string) => value.replace(/\|/g, '\\|');
+
+export const formatSuppressionSource = (finding: SuppressedFinding) =>
+  finding.suppression.source === 'inline'
+    ? `x-specscore-ignore at ${finding.suppression.pointer || '/'}`
+    : finding.suppression.source;
+
+export const formatConversion = (conversion: SpecConversion) =>
+  `Upgraded from Swagger ${conversion.from} to OpenAPI ${conversion.to}`;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const toJson = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
+
+/**
+ * Render a scoring result as a Markdown report
+ */
+export function formatMarkdownReport(result: ScoringResult): string {
+  const date = new Date().toISOString().split('T')[0];
+
+  const format = specFormat(result.document);
+
+  let markdown = `# ${format} Specification Report
+
+Generated on: ${date}  
+
+## API Information
+
+| Field | Value |
+|-------|-------|
+| **Title** | ${result.document.info.title} |
+| **Version** | ${result.document.info.version} |
+| **${format} Version** | ${specVersion(result.document)}${
+    result.conversion ? ` (${formatConversion(result.conversion)})` : ''
+  } |
+| **Overall Score** | **${result.totalScore}/100 (Grade: ${result.grade})** |
+
+## Scoring Breakdown
+
+| Criteria | Score | Max | Percentage | Status |
+|----------|-------|-----|------------|---------|
+`;
+
+  result.criteria.forEach((criteria) => {
+    const status =
+      criteria.maxScore === 0
+        ? '➖'
+        : criteria.percentage >= 80
+          ? '✅'
+          : criteria.percentage >= 60
+            ? '⚠️'
+            : '❌';
+    markdown += `| ${criteria.name} | ${criteria.score} | ${criteria.maxScore} | ${criteria.percentage}% | ${status} |\n`;
+  });
+
+  markdown += `\n## Detailed Analysis\n\n`;
+
+  result.criteria.forEach((criteria) => {
+    markdown += `### ${criteria.name} (${criteria.score}/${criteria.maxScore})\n\n`;
+
+    if (criteria.feedback.length > 0) {
+      markdown += `**Findings:**\n`;
+      criteria.feedback.forEach((item) => {
+        markdown += `- ${item}\n`;
+      });
+      markdown += `\n`;
+    }
+
+    const issues = getIssues(criteria.findings);
+    if (issues.length > 0) {
+      markdown += `**Issues:**\n\n`;
+      markdown += `| Severity | Rule | Target | Location | Message |\n`;
+      markdown += `|----------|------|--------|----------|---------|\n`;
+      issues.forEach((issue) => {
+        markdown += `| ${SEVERITY_ICONS[issue.severity]} ${issue.severity} | \`${issue.ruleId}\` | ${escapeTableCell(
+          formatTarget(issue.target),
+        )} | ${
+          issue.location ? `\`${formatLocation(issue.location)}\`` : ''
+        } | ${escapeTableCell(issue.message)} |\n`;
+      });
+      markdown += `\n`;
+    }
+
+    if (criteria.suggestions.length > 0) {
+      markdown += `**Suggestions:**\n`;
+      criteria.suggestions.forEach((suggestion) => {
+        markdown += `- ${suggestion}\n`;
+      });
+      markdown += `\n`;
+    }
+  });
+
+  if (result.breakdown && result.breakdown.entries.length > 0) {
+    markdown += `## Breakdown by ${capitalize(result.breakdown.by)}\n\n`;
+    markdown += `| ${capitalize(result.breakdown.by)} | Score | Percentage | Failed Checks |\n`;
+    markdown += `|------|-------|------------|---------------|\n`;
+    result.breakdown.entries.forEach((entry) => {
+      markdown += `| ${escapeTableCell(entry.key)} | ${entry.score}/${entry.maxScore} | ${entry.percentage}% | ${formatFailedChecks(entry)} |\n`;
+    });
+    markdown += `\n`;
+  }
+
+  if (result.conversion && result.conversion.warnings.length > 0) {
+    markdown += `## Conversion Warnings\n\n`;
+    result.conversion.warnings.forEach((warning) => {
+      markdown += `- ${warning}\n`;
+    });
+    markdown += `\n`;
+  }
+
+  if (result.suppressed && result.suppressed.length > 0) {
+    markdown += `## Suppressed Findings\n\n`;
+    markdown += `| Rule | Target | Location | Reason | Source |\n`;
+    markdown += `|------|--------|----------|--------|--------|\n`;
+    result.suppressed.forEach((finding) => {
+      markdown += `| \`${finding.ruleId}\` | ${escapeTableCell(
+        formatTarget(finding.target),
+      )} | ${
+        finding.location ? `\`${formatLocation(finding.location)}\`` : ''
+      } | ${escapeTableCell(finding.suppression.reason ?? '')} | ${escapeTableCell(
+        formatSuppressionSource(finding),
+      )} |\n`;
+    });
+    markdown += `\n`;
+  }
+
+  if (result.feedback.length > 0) {
+    markdown += `## Overall Feedback\n\n`;
+    result.feedback.forEach((item) => {
+      markdown += `- ${item}\n`;
+    });
+    markdown += `\n`;
+  }
+
+  const prioritySuggestions = getPrioritySuggestions(
+    result.criteria.flatMap((c) => c.findings),
+  );
+  if (prioritySuggestions.length > 0) {
+    markdown += `## Priority Improvements\n\n`;
+    prioritySuggestions.forEach((suggestion, index) => {
+      markdown += `${index + 1}. ${suggestion}\n`;
+    });
+  }
+
+  markdown += `\n---\n*Report generated by score-api CLI tool*`;
+
+  return markdown;
+}
+
+/**
+ * Render a scoring result as a standalone HTML page
+ */
+export function formatHtmlReport(result: ScoringResult): string {
+  const gradeColor =
+    result.grade === 'A'
+      ? '#22c55e'
+      : result.grade === 'B'
+        ? '#3b82f6'
+        : result.grade === 'C'
+          ? '#eab308'
+          : '#ef4444';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${specFormat(result.document)} Report - ${result.document.info.title}</title>
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; background: #f8fafc; }
+        .container { max-width: 1200px; margin: 0 auto; padding: 20px; }
+        .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 2rem; border-radius: 12px; margin-bottom: 2rem; }
+        .title { font-size: 2.5rem; font-weight: bold; margin-bottom: 0.5rem; }
+        .subtitle { opacity: 0.9; font-size: 1.1rem; }
+        .score-card { background: white; padding: 2rem; border-radius: 12px; box-shadow: 0 4px 6px rgba(0,0,0,0.1); margin-bottom: 2rem; }
+        .score-display { text-align: center; padding: 1rem; }
+        .score-number { font-size: 3rem; font-weight: bold; color: ${gradeColor}; }
+        .grade { font-size: 1.5rem; font-weight: bold; color: ${gradeColor}; margin-left: 0.5rem; }
+        .info-grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(200px, 1fr)); gap: 1rem; margin: 1rem 0; }
+        .info-item { background: #f1f5f9; padding: 1rem; border-radius: 8px; }
+        .info-label { font-weight: bold; color: #64748b; margin-bottom: 0.25rem; }
+        .criteria-grid { display: grid; gap: 1rem; margin-bottom: 2rem; }
+        .criteria-card { background: white; padding: 1.5rem; border-radius: 12px; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
+        .criteria-header { display: flex; justify-content: space-between; align-items: center; margin-bottom: 1rem; }
+        .criteria-name { font-size: 1.25rem; font-weight: bold; }
+        .criteria-score { font-size: 1.1rem; font-weight: bold; }
+        .progress-bar { background: #e2e8f0; height: 8px; border-radius: 4px; overflow: hidden; margin-bottom: 1rem; }
+        .progress-fill { height: 100%; transition: width 0.3s ease; }
+        .feedback-list { list-style: none; }
+        .feedback-item { padding: 0.5rem 0; border-bottom: 1px solid #e2e8f0; }
+        .feedback-item:last-child { border-bottom: none; }
+        .issue-list { list-style: none; margin-top: 1rem; }
+        .issue-item { padding: 0.35rem 0; font-size: 0.95rem; }
+        .severity { display: inline-block; min-width: 3.5rem; text-align: center; padding: 0 0.4rem; border-radius: 4px; font-size: 0.8rem; font-weight: bold; color: white; }
+        .severity-error { background: #ef4444; }
+        .severity-warn { background: #f59e0b; }
+        .severity-hint { background: #64748b; }
+        .breakdown-table { width: 100%; border-collapse: collapse; }
+        .breakdown-table th, .breakdown-table td { text-align: left; padding: 0.5rem; border-bottom: 1px solid #e2e8f0; }
+        .location { color: #64748b; font-family: monospace; font-size: 0.85rem; }
+        .suggestions { background: #fef3c7; border-left: 4px solid #f59e0b; padding: 1rem; border-radius: 0 8px 8px 0; margin-top: 1rem; }
+        .section { background: white; padding: 2rem; border-radius: 12px; box-shadow: 0 2px 4px rgba(0,0,0,0.1); margin-bottom: 2rem; }
+        .section-title { font-size: 1.5rem; font-weight: bold; margin-bottom: 1rem; color: #1e293b; }
+        .footer { text-align: center; padding: 2rem; color: #64748b; }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <div class="title">📊 ${specFormat(result.document)} Specification Report</div>
+        </div>
+
+        <div class="score-card">
+            <div class="score-display">
+                <div class="score-number">${
+                  result.totalScore
+                }<span style="font-size: 1.5rem; color: #64748b;">/100</span><span class="grade">${
+                  result.grade
+                }</span></div>
+            </div>
+            
+            <div class="info-grid">
+                <div class="info-item">
+                    <div class="info-label">API Title</div>
+                    <div>${result.document.info.title}</div>
+                </div>
+                <div class="info-item">
+                    <div class="info-label">Version</div>
+                    <div>${result.document.info.version}</div>
+                </div>
+                <div class="info-item">
+                    <div class="info-label">${specFormat(result.document)} Version</div>
+                    <div>${specVersion(result.document)}${
+                      result.conversion
+                        ? `<br><small>${formatConversion(result.conversion)}</small>`
+                        : ''
+                    }</div>
+                </div>
+                <div class="info-item">
+                    <div class="info-label">Grade</div>
+                    <div style="color: ${gradeColor}; font-weight: bold;">${
+                      result.grade
+                    }</div>
+                </div>
+            </div>
+        </div>
+
+        <div class="section">
+            <div class="section-title">🎯 Scoring Breakdown</div>
+            <div class="criteria-grid">
+                ${result.criteria
+                  .map((criteria) => {
+                    const color =
+                      criteria.maxScore === 0
+                        ? '#9ca3af'
+                        : percentageHex(criteria.percentage);
+                    return `
+                    <div class="criteria-card">
+                        <div class="criteria-header">
+                            <div class="criteria-name">${criteria.name}</div>
+                            <div class="criteria-score" style="color: ${color};">${
+                              criteria.score
+                            }/${criteria.maxScore} (${criteria.percentage}%)</div>
+                        </div>
+                        <div class="progress-bar">
+                            <div class="progress-fill" style="width: ${
+                              criteria.percentage
+                            }%; background-color: ${color};"></div>
+                        </div>
+                        ${
+                          criteria.feedback.length > 0
+                            ? `
+                            <ul class="feedback-list">
+                                ${criteria.feedback
+                                  .map(
+                                    (item) =>
+                                      `<li class="feedback-item">• ${item}</li>`,
+                                  )
+                                  .join('')}
+                            </ul>
+                        `
+                            : ''
+                        }
+                        ${
+                          getIssues(criteria.findings).length > 0
+                            ? `
+                            <ul class="issue-list">
+                                ${getIssues(criteria.findings)
+                                  .map(
+                                    (issue) =>
+                                      `<li class="issue-item"><span class="severity severity-${issue.severity}">${issue.severity}</span> <code>${issue.ruleId}</code> <strong>${escapeHtml(
+                                        formatTarget(issue.target),
+                                      )}</strong> ${escapeHtml(issue.message)}${
+                                        issue.location
+                                          ? ` <span class="location">${escapeHtml(
+                                              formatLocation(issue.location),
+                                            )}</span>`
+                                          : ''
+                                      }</li>`,
+                                  )
+                                  .join('')}
+                            </ul>
+                        `
+                            : ''
+                        }
+                        ${
+                          criteria.suggestions.length > 0
+                            ? `
+                            <div class="suggestions">
+                                <strong>💡 Suggestions:</strong>
+                                <ul style="margin-top: 0.5rem;">
+                                    ${criteria.suggestions
+                                      .map(
+                                        (suggestion) =>
+                                          `<li>• ${suggestion}</li>`,
+                                      )
+                                      .join('')}
+                                </ul>
+                            </div>
+                        `
+                            : ''
+                        }
+                    </div>
+                  `;
+                  })
+                  .join('')}
+            </div>
+        </div>
+
+        ${
+          result.breakdown && result.breakdown.entries.length > 0
+            ? `
+            <div class="section">
+                <div class="section-title">📉 Breakdown by ${capitalize(
+                  result.breakdown.by,
+                )}</div>
+                <table class="breakdown-table">
+                    <thead><tr><th>${capitalize(
+                      result.breakdown.by,
+                    )}</th><th>Score</th><th>Failed Checks</th></tr></thead>
+                    <tbody>
+                    ${result.breakdown.entries
+                      .map(
+                        (entry) =>
+                          `<tr><td><code>${escapeHtml(entry.key)}</code></td><td style="color: ${percentageHex(
+                            entry.percentage,
+                          )}; font-weight: bold;">${entry.percentage}%</td><td>${escapeHtml(
+                            formatFailedChecks(entry),
+                          )}</td></tr>`,
+                      )
+                      .join('')}
+                    </tbody>
+                </table>
+            </div>
+        `
+            : ''
+        }
+
+        ${
+          result.conversion && result.conversion.warnings.length > 0
+            ? `
+            <div class="section">
+                <div class="section-title">🔄 Conversion Warnings</div>
+                <ul class="feedback-list">
+                    ${result.conversion.warnings
+                      .map(
+                        (warning) =>
+                          `<li class="feedback-item">• ${escapeHtml(warning)}</li>`,
+                      )
+                      .join('')}
+                </ul>
+            </div>
+        `
+            : ''
+        }
+
+        ${
+          result.suppressed && result.suppressed.length > 0
+            ? `
+            <div class="section">
+                <div class="section-title">🔕 Suppressed Findings</div>
+                <table class="breakdown-table">
+                    <thead><tr><th>Rule</th><th>Target</th><th>Reason</th><th>Source</th></tr></thead>
+                    <tbody>
+                    ${result.suppressed
+                      .map(
+                        (finding) =>
+                          `<tr><td><code>${finding.ruleId}</code></td><td>${escapeHtml(
+                            formatTarget(finding.target),
+                          )}${
+                            finding.location
+                              ? ` <span class="location">${escapeHtml(
+                                  formatLocation(finding.location),
+                                )}</span>`
+                              : ''
+                          }</td><td>${escapeHtml(
+                            finding.suppression.reason ?? '',
+                          )}</td><td>${escapeHtml(
+                            formatSuppressionSource(finding),
+                          )}</td></tr>`,
+                      )
+                      .join('')}
+                    </tbody>
+                </table>
+            </div>
+        `
+            : ''
+        }
+
+        ${
+          result.feedback.length > 0
+            ? `
+            <div class="section">
+                <div class="section-title">💬 Overall Feedback</div>
+                <ul class="feedback-list">
+                    ${result.feedback
+                      .map((item) => `<li class="feedback-item">• ${item}</li>`)
+                      .join('')}
+                </ul>
+            </div>
+        `
+            : ''
+        }
+
+        <div class="footer">
+            <p>Report generated by <strong>score-api</strong> CLI tool</p>
+        </div>
+    </div>
+</body>
+</html>`;
+}
+
+/**
+ * Formatters behind the built-in `--format` values other than `console`
+ */
+export const BUILTIN_FORMATTERS: ReportFormatter[] = [
+  {
+    name: 'markdown',
+    label: 'Markdown report',
+    defaultOutput: 'report.md',
+    format: formatMarkdownReport,
+  },
+  {
+    name: 'html',
+    label: 'HTML report',
+    defaultOutput: 'report.html',
+    format: formatHtmlReport,
+  },
+  {
+    name: 'json',
+    label: 'JSON report',
+    format: (result) => toJson(toJsonScoringReport(result)),
+  },
+  {
+    name: 'sarif',
+    label: 'SARIF log',
+    format: async (result, context) =>
+      toJson(toSarifLog(result, await context.validate())),
+  },
+];
+
+/**
+ * Helper for formatter authors to get type checking on their formatter
+ */
+export function defineFormatter(formatter: ReportFormatter): ReportFormatter {
+  return formatter;
+}
+
+export function isFormatter(value: unknown): value is ReportFormatter {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof (value as ReportFormatter).name === 'string' &&
+    typeof (value as ReportFormatter).format === 'function'
+  );
+}
+
+/**
+ * Whether a `--format` value names a formatter module rather than a format
+ */
+export function isFormatterPath(format: string): boolean {
+  return /[\\/]/.test(format) || /\.[cm]?[jt]s$/.test(format);
+}
+
+/**
+ * Loads a formatter module from disk.
+ * The module may default-export a formatter or a `format` function, or
+ * provide a named `formatter` export. Functions are named after the file.
+ */
+export async function loadFormatter(
+  modulePath: string,
+): Promise<ReportFormatter> {
+  let module: { default?: unknown; formatter?: unknown };
+  try {
+    module = await importModule(modulePath);
+  } catch (error) {
+    throw new Error(
+      `Failed to load formatter ${modulePath}: ${
+        error instanceof Error ? error.message : error
+      }`,
+    );
+  }
+
+  const exported = module.default ?? module.formatter;
+
+  if (isFormatter(exported)) {
+    return exported;
+  }
+
+  if (typeof exported === 'function') {
+    return {
+      name: basename(modulePath, extname(modulePath)),
+      format: exported as ReportFormatter['format'],
+    };
+  }
+
+  throw new Error(
+    `Invalid formatter ${modulePath}: expected a default export with a "format" function, or a format function`,
+  );
+}
+
+/**
+ * Write formatter output to a file, or to stdout when no path is given
+ */
+export async function writeReport(
+  output: FormatterOutput,
+  outputPath: string | undefined,
+  label = 'Report',
+): Promise<void> {
+  if (!outputPath) {
+    process.stdout.write(output);
+    return;
+  }
+
+  try {
+    await writeFile(outputPath, output);
+    consola.success(`📄 ${label} generated: ${outputPath}`);
+  } catch (error) {
+    consola.error(`Failed to write ${label}: ${error}`);
+    throw error;
+  }
+}
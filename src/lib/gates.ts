@@ -0,0 +1,170 @@
+import { getIssues, SEVERITIES, type Severity } from './findings';
+import type { ScoringResult } from './reporter';
+
+/**
+ * Exit codes used by `report` and `breaking` when a quality gate is breached
+ */
+export const GATE_EXIT_CODES = {
+  /** `--min-score`, `--min-grade` or `--min-criterion` not met */
+  score: 2,
+  /** Findings at or above the `--fail-on` severity */
+  findings: 3,
+  /** `breaking` found breaking changes that are not approved */
+  breaking: 4,
+} as const;
+
+const GRADES = ['A', 'B', 'C', 'D', 'F'];
+
+/**
+ * Severities `--fail-on` accepts; info findings are positive notes and never
+ * fail a build
+ */
+export type FailOnSeverity = Exclude<Severity, 'info'>;
+
+export const FAIL_ON_SEVERITIES = SEVERITIES.filter(
+  (severity): severity is FailOnSeverity => severity !== 'info',
+);
+
+/**
+ * Minimum percentage for a single criterion, matched by evaluator id or name
+ */
+export interface CriterionMinimum {
+  criterion: string;
+  minPercentage: number;
+}
+
+/**
+ * Conditions a scoring result must meet
+ */
+export interface QualityGates {
+  minScore?: number;
+  minGrade?: string;
+  minCriteria?: CriterionMinimum[];
+  /** Fail when any finding is at least this severe */
+  failOn?: FailOnSeverity;
+}
+
+/**
+ * A gate the scoring result did not meet
+ */
+export interface GateFailure {
+  gate: 'min-score' | 'min-grade' | 'min-criterion' | 'fail-on';
+  message: string;
+}
+
+/**
+ * Parse a `--min-criterion` value such as `Security=80%` or `security=80`
+ */
+export function parseCriterionMinimum(value: string): CriterionMinimum {
+  const match = /^(.+?)\s*=\s*(\d+(?:\.\d+)?)%?$/.exec(value.trim());
+  const minPercentage = Number(match?.[2]);
+
+  if (!match?.[1] || minPercentage > 100) {
+    throw new Error(
+      `Invalid criterion minimum "${value}". Use <criterion>=<percentage>, e.g. "Security=80%"`,
+    );
+  }
+
+  return { criterion: match[1], minPercentage };
+}
+
+/**
+ * Check that the gate values themselves are usable
+ * @throws Error describing the first invalid gate
+ */
+export function validateGates(gates: QualityGates): void {
+  if (
+    gates.minScore !== undefined &&
+    (!Number.isFinite(gates.minScore) ||
+      gates.minScore < 0 ||
+      gates.minScore > 100)
+  ) {
+    throw new Error('--min-score must be a number between 0 and 100');
+  }
+
+  if (gates.minGrade !== undefined && !GRADES.includes(gates.minGrade)) {
+    throw new Error(`--min-grade must be one of: ${GRADES.join(', ')}`);
+  }
+
+  if (
+    gates.failOn !== undefined &&
+    !FAIL_ON_SEVERITIES.includes(gates.failOn)
+  ) {
+    throw new Error(
+      `--fail-on must be one of: ${FAIL_ON_SEVERITIES.join(', ')}`,
+    );
+  }
+}
+
+/**
+ * Evaluate quality gates against a scoring result
+ * @returns The gates that failed; empty when every gate passed
+ */
+export function checkGates(
+  result: ScoringResult,
+  gates: QualityGates,
+): GateFailure[] {
+  const failures: GateFailure[] = [];
+
+  if (gates.minScore !== undefined && result.totalScore < gates.minScore) {
+    failures.push({
+      gate: 'min-score',
+      message: `Total score ${result.totalScore} is below the minimum of ${gates.minScore}`,
+    });
+  }
+
+  if (
+    gates.minGrade !== undefined &&
+    GRADES.indexOf(result.grade) > GRADES.indexOf(gates.minGrade)
+  ) {
+    failures.push({
+      gate: 'min-grade',
+      message: `Grade ${result.grade} is below the minimum grade ${gates.minGrade}`,
+    });
+  }
+
+  gates.minCriteria?.forEach(({ criterion, minPercentage }) => {
+    const wanted = criterion.toLowerCase();
+    const score = result.criteria.find(
+      (c) => c.id === criterion || c.name.toLowerCase() === wanted,
+    );
+
+    if (!score) {
+      failures.push({
+        gate: 'min-criterion',
+        message: `Criterion "${criterion}" was not scored`,
+      });
+    } else if (score.maxScore > 0 && score.percentage < minPercentage) {
+      failures.push({
+        gate: 'min-criterion',
+        message: `${score.name} scored ${score.percentage}%, below the minimum of ${minPercentage}%`,
+      });
+    }
+  });
+
+  if (gates.failOn !== undefined) {
+    const threshold = SEVERITIES.indexOf(gates.failOn);
+    const count = getIssues(result.criteria.flatMap((c) => c.findings)).filter(
+      (f) => SEVERITIES.indexOf(f.severity) <= threshold,
+    ).length;
+
+    if (count > 0) {
+      failures.push({
+        gate: 'fail-on',
+        message: `${count} finding(s) at or above severity "${gates.failOn}"`,
+      });
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Exit code for a set of gate failures; score gates take precedence
+ */
+export function gateExitCode(failures: GateFailure[]): number {
+  if (failures.length === 0) return 0;
+  return failures.some((failure) => failure.gate !== 'fail-on')
+    ? GATE_EXIT_CODES.score
+    : GATE_EXIT_CODES.findings;
+}
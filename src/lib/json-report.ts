@@ -0,0 +1,278 @@
+import { writeFile } from 'node:fs/promises';
+import consola from 'consola';
+import { isAsyncAPI, type SpecDocument } from './asyncapi';
+import type { ScoreBreakdown } from './breakdown';
+import type { ContractChange } from './breaking';
+import type { SpecDiff } from './diff';
+import type { CriteriaScore } from './evaluators';
+import type { Finding } from './findings';
+import type { Portfolio } from './portfolio';
+import type { ScoringResult } from './reporter';
+import type { SarifLog } from './sarif';
+import type { SuppressedFinding } from './suppressions';
+import type { SpecConversion } from './swagger2';
+import type { ValidationResult } from './validator';
+
+/**
+ * Version of the JSON report format. Bumped on breaking changes only;
+ * new optional fields keep the same version.
+ */
+export const JSON_REPORT_VERSION = '1.0';
+
+const SCHEMA_BASE_URL =
+  'https://raw.githubusercontent.com/DhairyaMajmudar/SpecScore/main/schemas';
+
+/**
+ * Title, version and OpenAPI version of the scored or validated document
+ */
+export interface JsonApiInfo {
+  title: string;
+  version: string;
+  /** Set for OpenAPI documents */
+  openapi?: string;
+  /** Set for AsyncAPI documents */
+  asyncapi?: string;
+}
+
+/**
+ * `report --format json` output, described by
+ * `schemas/scoring-result.v1.schema.json`
+ */
+export interface JsonScoringReport {
+  $schema: string;
+  schemaVersion: typeof JSON_REPORT_VERSION;
+  kind: 'scoring-result';
+  generatedAt: string;
+  source: string;
+  api: JsonApiInfo;
+  totalScore: number;
+  grade: string;
+  criteria: CriteriaScore[];
+  feedback: string[];
+  breakdown?: ScoreBreakdown;
+  suppressed?: SuppressedFinding[];
+  conversion?: SpecConversion;
+}
+
+/**
+ * `validate --format json` output, described by
+ * `schemas/validation-result.v1.schema.json`
+ */
+export interface JsonValidationReport {
+  $schema: string;
+  schemaVersion: typeof JSON_REPORT_VERSION;
+  kind: 'validation-result';
+  generatedAt: string;
+  source: string;
+  api?: JsonApiInfo;
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  findings: Finding[];
+  stats?: ValidationResult['stats'];
+  conversion?: SpecConversion;
+}
+
+/**
+ * `diff --format json` output: a `SpecDiff` with the report header
+ */
+export interface JsonDiffReport extends SpecDiff {
+  schemaVersion: typeof JSON_REPORT_VERSION;
+  kind: 'score-diff';
+  generatedAt: string;
+}
+
+/**
+ * `report --format json` output for several specifications: a `Portfolio`
+ * with the report header
+ */
+export interface JsonPortfolioReport extends Portfolio {
+  schemaVersion: typeof JSON_REPORT_VERSION;
+  kind: 'portfolio';
+  generatedAt: string;
+}
+
+/**
+ * `validate --format json` output for several specifications
+ */
+export interface JsonValidationBatchReport {
+  schemaVersion: typeof JSON_REPORT_VERSION;
+  kind: 'validation-batch';
+  generatedAt: string;
+  summary: { total: number; valid: number; invalid: number };
+  results: JsonValidationReport[];
+}
+
+/**
+ * `breaking --format json` output
+ */
+export interface JsonBreakingReport {
+  schemaVersion: typeof JSON_REPORT_VERSION;
+  kind: 'breaking-changes';
+  generatedAt: string;
+  base: string;
+  head: string;
+  summary: { total: number; breaking: number; unapproved: number };
+  changes: ContractChange[];
+}
+
+const apiInfo = (document: SpecDocument): JsonApiInfo => ({
+  title: document.info?.title ?? '',
+  version: document.info?.version ?? '',
+  ...(isAsyncAPI(document)
+    ? { asyncapi: document.asyncapi ?? '' }
+    : { openapi: document.openapi ?? '' }),
+});
+
+/**
+ * Convert a scoring result to the JSON report format.
+ * The parsed document is left out; `source` points back to it.
+ */
+export function toJsonScoringReport(result: ScoringResult): JsonScoringReport {
+  return {
+    $schema: `${SCHEMA_BASE_URL}/scoring-result.v1.schema.json`,
+    schemaVersion: JSON_REPORT_VERSION,
+    kind: 'scoring-result',
+    generatedAt: new Date().toISOString(),
+    source: result.source,
+    api: apiInfo(result.document),
+    totalScore: result.totalScore,
+    grade: result.grade,
+    criteria: result.criteria,
+    feedback: result.feedback,
+    ...(result.breakdown && { breakdown: result.breakdown }),
+    ...(result.suppressed?.length && { suppressed: result.suppressed }),
+    ...(result.conversion && { conversion: result.conversion }),
+  };
+}
+
+/**
+ * Convert a validation result to the JSON report format
+ * @param result - Result of `OpenAPIValidator.validateSpec`
+ * @param source - File path or URL that was validated
+ */
+export function toJsonValidationReport(
+  result: ValidationResult,
+  source: string,
+): JsonValidationReport {
+  return {
+    $schema: `${SCHEMA_BASE_URL}/validation-result.v1.schema.json`,
+    schemaVersion: JSON_REPORT_VERSION,
+    kind: 'validation-result',
+    generatedAt: new Date().toISOString(),
+    source,
+    ...(result.document && { api: apiInfo(result.document) }),
+    isValid: result.isValid,
+    errors: result.errors,
+    warnings: result.warnings,
+    findings: result.findings,
+    ...(result.stats && { stats: result.stats }),
+    ...(result.conversion && { conversion: result.conversion }),
+  };
+}
+
+/**
+ * Convert a score diff to the JSON report format
+ */
+export function toJsonDiffReport(diff: SpecDiff): JsonDiffReport {
+  return {
+    schemaVersion: JSON_REPORT_VERSION,
+    kind: 'score-diff',
+    generatedAt: new Date().toISOString(),
+    ...diff,
+  };
+}
+
+/**
+ * Convert a portfolio to the JSON report format
+ */
+export function toJsonPortfolioReport(
+  portfolio: Portfolio,
+): JsonPortfolioReport {
+  return {
+    schemaVersion: JSON_REPORT_VERSION,
+    kind: 'portfolio',
+    generatedAt: new Date().toISOString(),
+    ...portfolio,
+  };
+}
+
+/**
+ * Convert the validation results of several specifications to the JSON
+ * report format
+ * @param results - Each result with the file path or URL that was validated
+ */
+export function toJsonValidationBatchReport(
+  results: Array<{ source: string; result: ValidationResult }>,
+): JsonValidationBatchReport {
+  const valid = results.filter(({ result }) => result.isValid).length;
+  return {
+    schemaVersion: JSON_REPORT_VERSION,
+    kind: 'validation-batch',
+    generatedAt: new Date().toISOString(),
+    summary: {
+      total: results.length,
+      valid,
+      invalid: results.length - valid,
+    },
+    results: results.map(({ source, result }) =>
+      toJsonValidationReport(result, source),
+    ),
+  };
+}
+
+/**
+ * Convert detected contract changes to the JSON report format
+ */
+export function toJsonBreakingReport(
+  changes: ContractChange[],
+  base: string,
+  head: string,
+): JsonBreakingReport {
+  const breaking = changes.filter((change) => change.breaking);
+  return {
+    schemaVersion: JSON_REPORT_VERSION,
+    kind: 'breaking-changes',
+    generatedAt: new Date().toISOString(),
+    base,
+    head,
+    summary: {
+      total: changes.length,
+      breaking: breaking.length,
+      unapproved: breaking.filter((change) => !change.approved).length,
+    },
+    changes,
+  };
+}
+
+/**
+ * Write a JSON report (or SARIF log) to a file, or to stdout when no path is
+ * given
+ */
+export async function writeJsonReport(
+  report:
+    | JsonScoringReport
+    | JsonValidationReport
+    | JsonDiffReport
+    | JsonBreakingReport
+    | JsonPortfolioReport
+    | JsonValidationBatchReport
+    | SarifLog,
+  outputPath?: string,
+  label = 'JSON report',
+): Promise<void> {
+  const json = `${JSON.stringify(report, null, 2)}\n`;
+
+  if (!outputPath) {
+    process.stdout.write(json);
+    return;
+  }
+
+  try {
+    await writeFile(outputPath, json, 'utf-8');
+    consola.success(`🧾 ${label} generated: ${outputPath}`);
+  } catch (error) {
+    consola.error(`Failed to write ${label}: ${error}`);
+    throw error;
+  }
+}
@@ -0,0 +1,57 @@
+import { readFile, unlink, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const TYPESCRIPT_EXTENSIONS = ['.ts', '.mts', '.cts'];
+
+/**
+ * Transpile a TypeScript module for Node, which cannot import `.ts` files.
+ * The output is written next to the source, so that its package and
+ * relative JavaScript imports resolve as they would from the source.
+ */
+async function transpile(path: string): Promise<string> {
+  let ts: typeof import('typescript');
+  try {
+    ts = (await import('typescript')).default;
+  } catch {
+    throw new Error(
+      'TypeScript modules need the "typescript" package under Node; install it, run with bun, or use a .js or .mjs module',
+    );
+  }
+
+  const { outputText } = ts.transpileModule(await readFile(path, 'utf-8'), {
+    fileName: path,
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+    },
+  });
+  const output = join(
+    dirname(path),
+    `.${basename(path, extname(path))}.${process.pid}.${Date.now()}.mjs`,
+  );
+  await writeFile(output, outputText, 'utf-8');
+  return output;
+}
+
+/**
+ * Import a plugin, formatter or config module from disk. TypeScript modules
+ * are imported as is under Bun and transpiled first under Node; a
+ * transpiled module may import packages and JavaScript files, but not other
+ * TypeScript files.
+ */
+export async function importModule(
+  modulePath: string,
+): Promise<{ default?: unknown } & Record<string, unknown>> {
+  const path = resolve(modulePath);
+  if (process.versions.bun || !TYPESCRIPT_EXTENSIONS.includes(extname(path))) {
+    return import(pathToFileURL(path).href);
+  }
+
+  const transpiled = await transpile(path);
+  try {
+    return await import(pathToFileURL(transpiled).href);
+  } finally {
+    await unlink(transpiled).catch(() => {});
+  }
+}
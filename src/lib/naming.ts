@@ -0,0 +1,103 @@
+/**
+ * Casing styles recognised in names, in order of preference when inferring
+ * a convention from a tie
+ */
+export const CASINGS = [
+  'camelCase',
+  'PascalCase',
+  'snake_case',
+  'Train-Case',
+  'kebab-case',
+] as const;
+
+export type Casing = (typeof CASINGS)[number];
+
+/**
+ * Casing a kind of name must follow, or `infer` to use the casing most of
+ * those names in the document already follow
+ */
+export type NamingConvention = Casing | 'infer';
+
+/**
+ * Naming conventions checked by the `naming` criterion
+ */
+export interface NamingConventions {
+  operationIds: NamingConvention;
+  /** Property names declared by `components.schemas` */
+  properties: NamingConvention;
+  queryParameters: NamingConvention;
+  headerParameters: NamingConvention;
+  /** Names of `components.schemas` entries */
+  schemas: NamingConvention;
+}
+
+export const DEFAULT_NAMING: NamingConventions = {
+  operationIds: 'infer',
+  properties: 'infer',
+  queryParameters: 'infer',
+  headerParameters: 'infer',
+  schemas: 'PascalCase',
+};
+
+const CASING_PATTERNS: Record<Casing, RegExp> = {
+  camelCase: /^[a-z][a-zA-Z0-9]*$/,
+  PascalCase: /^[A-Z][a-zA-Z0-9]*$/,
+  snake_case: /^[a-z][a-z0-9]*(?:_[a-z0-9]+)*$/,
+  'kebab-case': /^[a-z][a-z0-9]*(?:-[a-z0-9]+)*$/,
+  'Train-Case': /^[A-Z][a-zA-Z0-9]*(?:-[A-Z0-9][a-zA-Z0-9]*)*$/,
+};
+
+/**
+ * Whether a name follows a casing. Single words follow several casings, e.g.
+ * `id` is camelCase, snake_case and kebab-case.
+ */
+export function hasCasing(name: string, casing: Casing): boolean {
+  return CASING_PATTERNS[casing].test(name);
+}
+
+/**
+ * The casing most of the names follow, preferring earlier `CASINGS` on a
+ * tie; undefined when none of them follows any casing
+ */
+export function inferCasing(names: string[]): Casing | undefined {
+  let best: Casing | undefined;
+  let bestCount = 0;
+
+  for (const casing of CASINGS) {
+    const count = names.filter((name) => hasCasing(name, casing)).length;
+    if (count > bestCount) {
+      best = casing;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Rewrite a name in a casing, e.g. `user_id` as `userId` in camelCase
+ */
+export function toCasing(name: string, casing: Casing): string {
+  const words = name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+  const capitalized = words.map(
+    (word) => `${word.charAt(0).toUpperCase()}${word.slice(1)}`,
+  );
+
+  switch (casing) {
+    case 'camelCase':
+      return [words[0] ?? '', ...capitalized.slice(1)].join('');
+    case 'PascalCase':
+      return capitalized.join('');
+    case 'snake_case':
+      return words.join('_');
+    case 'kebab-case':
+      return words.join('-');
+    case 'Train-Case':
+      return capitalized.join('-');
+  }
+}
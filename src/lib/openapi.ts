@@ -0,0 +1,138 @@
+import type { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
+import { toPointer } from './pointer';
+
+/**
+ * Default `jsonSchemaDialect` of OpenAPI 3.1 documents
+ */
+export const OAS_BASE_DIALECT =
+  'https://spec.openapis.org/oas/3.1/dialect/base';
+
+/**
+ * Where a path item is defined: `paths`, or `webhooks` in OpenAPI 3.1
+ */
+export type PathItemRoot = 'paths' | 'webhooks';
+
+/**
+ * A path item with the key it is defined under
+ */
+export interface PathItemEntry {
+  root: PathItemRoot;
+  /** Path, e.g. `/pets`, or webhook name */
+  name: string;
+  pathItem: OpenAPIV3.PathItemObject | undefined;
+}
+
+/**
+ * A reusable schema and where it is defined
+ */
+export interface SchemaEntry {
+  /** e.g. `Pet`, or `Pet/$defs/Tag` for a nested definition */
+  name: string;
+  schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject;
+  pointer: string;
+  /** Whether the schema is defined in the `$defs` of another schema */
+  nested: boolean;
+}
+
+export function isOpenAPI31(document: { openapi?: unknown }): boolean {
+  return (
+    typeof document.openapi === 'string' && document.openapi.startsWith('3.1')
+  );
+}
+
+/**
+ * Webhooks of an OpenAPI 3.1 document; empty for earlier versions
+ */
+export function getWebhooks(
+  document: OpenAPIV3.Document,
+): Record<string, OpenAPIV3.PathItemObject | undefined> {
+  if (!isOpenAPI31(document)) return {};
+  return ((document as unknown as OpenAPIV3_1.Document).webhooks ??
+    {}) as Record<string, OpenAPIV3.PathItemObject | undefined>;
+}
+
+/**
+ * Path items of a document, followed by its webhooks unless `roots` says
+ * otherwise
+ */
+export function getPathItems(
+  document: OpenAPIV3.Document,
+  roots: PathItemRoot[] = ['paths', 'webhooks'],
+): PathItemEntry[] {
+  return roots.flatMap((root) =>
+    Object.entries(
+      root === 'paths' ? (document.paths ?? {}) : getWebhooks(document),
+    ).map(([name, pathItem]) => ({ root, name, pathItem })),
+  );
+}
+
+/**
+ * Label of a path item in findings: the path, or `webhook:<name>`
+ */
+export function pathItemLabel(entry: Pick<PathItemEntry, 'root' | 'name'>) {
+  return entry.root === 'webhooks' ? `webhook:${entry.name}` : entry.name;
+}
+
+/**
+ * Types declared by a schema. OpenAPI 3.1 allows `type` to be a list such as
+ * `[string, 'null']`; `'null'` is left out unless `includeNull` is set.
+ */
+export function schemaTypes(
+  schema: { type?: unknown } | undefined,
+  includeNull = false,
+): string[] {
+  const types = Array.isArray(schema?.type) ? schema.type : [schema?.type];
+  return types.filter(
+    (type): type is string =>
+      typeof type === 'string' && (includeNull || type !== 'null'),
+  );
+}
+
+/**
+ * Whether a media type has an example, either its own `example`/`examples`
+ * or a JSON Schema `examples` list on its schema (OpenAPI 3.1)
+ */
+export function hasMediaTypeExample(
+  mediaType: OpenAPIV3.MediaTypeObject,
+): boolean {
+  if (mediaType.example !== undefined || mediaType.examples) return true;
+
+  const schema = mediaType.schema as { examples?: unknown } | undefined;
+  return Array.isArray(schema?.examples) && schema.examples.length > 0;
+}
+
+/**
+ * Schemas in `components.schemas`, including the definitions nested in their
+ * `$defs` (OpenAPI 3.1)
+ */
+export function collectSchemas(document: OpenAPIV3.Document): SchemaEntry[] {
+  const entries: SchemaEntry[] = [];
+
+  const add = (
+    name: string,
+    schema: SchemaEntry['schema'],
+    segments: string[],
+    nested: boolean,
+  ) => {
+    entries.push({ name, schema, pointer: toPointer(segments), nested });
+
+    const defs = (schema as { $defs?: Record<string, SchemaEntry['schema']> })
+      .$defs;
+    Object.entries(defs ?? {}).forEach(([defName, def]) => {
+      add(
+        `${name}/$defs/${defName}`,
+        def,
+        [...segments, '$defs', defName],
+        true,
+      );
+    });
+  };
+
+  Object.entries(document.components?.schemas ?? {}).forEach(
+    ([name, schema]) => {
+      add(name, schema, ['components', 'schemas', name], false);
+    },
+  );
+
+  return entries;
+}
@@ -1,6 +1,50 @@
 import { readFile } from 'node:fs/promises';
 import { load } from 'js-yaml';
-import type { OpenAPIV3 } from 'openapi-types';
+import { LineCounter, parseDocument } from 'yaml';
+import type { SpecDocument } from './asyncapi';
+import { splitRef } from './pointer';
+import { type SourceLocation, SourceMap } from './source-map';
+import {
+  type ConvertedSpec,
+  convertSwagger2,
+  isSwagger2,
+  type SpecConversion,
+} from './swagger2';
+
+/**
+ * A parsed specification together with the positions of its nodes
+ */
+export interface ParsedSpec {
+  /** An OpenAPI or AsyncAPI document, see `isAsyncAPI` */
+  document: SpecDocument;
+  sourceMap: SourceMap;
+  /**
+   * Parsed content of the root file and of every file reachable through
+   * `$ref`s, keyed by path or URL; see `resolveRefs`
+   */
+  files: Map<string, unknown>;
+  /** Set when the input was a Swagger 2.0 document upgraded to OpenAPI 3 */
+  conversion?: SpecConversion;
+}
+
+/**
+ * Name of an in-memory document that was given no source
+ */
+export const IN_MEMORY_SOURCE = '<document>';
+
+/**
+ * Thrown when a specification is not valid JSON or YAML.
+ * Carries the position of the syntax error when it can be determined.
+ */
+export class SpecParseError extends Error {
+  constructor(
+    message: string,
+    readonly location?: SourceLocation,
+  ) {
+    super(message);
+    this.name = 'SpecParseError';
+  }
+}
 
 /**
  * Parses an OpenAPI specification from a URL or file path.
@@ -48,35 +92,168 @@ export class OpenAPIParser {
     }
   }
 
-  private parseContent(content: string, source: string): OpenAPIV3.Document {
+  private parseContent(content: string, source: string): SpecDocument {
     try {
       if (content.trim().startsWith('{')) {
-        return JSON.parse(content) as OpenAPIV3.Document;
+        return JSON.parse(content) as SpecDocument;
       }
 
-      const parsedContent = load(content) as OpenAPIV3.Document;
+      const parsedContent = load(content) as SpecDocument;
 
       return parsedContent;
     } catch (error) {
-      throw new Error(
+      throw new SpecParseError(
         `Failed to parse OpenAPI spec from ${source}: ${
           error instanceof Error ? error.message : error
         }`,
+        this.locateSyntaxError(content, source),
       );
     }
   }
 
-  async parse(source: string): Promise<OpenAPIV3.Document> {
-    let content: string;
+  /**
+   * Find the position of the first syntax error in unparseable content
+   */
+  private locateSyntaxError(
+    content: string,
+    source: string,
+  ): SourceLocation | undefined {
+    const lineCounter = new LineCounter();
+    const { errors } = parseDocument(content, { lineCounter });
+    const position = errors[0]?.linePos?.[0];
 
+    return position
+      ? { file: source, line: position.line, column: position.col }
+      : undefined;
+  }
+
+  private async read(source: string): Promise<string> {
     if (source.startsWith('https://') || source.startsWith('http://')) {
-      content = await this.parseUrl(source);
-    } else {
-      content = await this.parseFile(source);
+      return this.parseUrl(source);
+    }
+    return this.parseFile(source);
+  }
+
+  /**
+   * Collect the files referenced through `$ref` by a parsed value
+   */
+  private collectFileRefs(value: unknown, file: string): string[] {
+    const files = new Set<string>();
+    const seen = new Set<unknown>();
+
+    const walk = (node: unknown) => {
+      if (!node || typeof node !== 'object' || seen.has(node)) return;
+      seen.add(node);
+
+      if (Array.isArray(node)) {
+        node.forEach(walk);
+        return;
+      }
+
+      for (const [key, child] of Object.entries(node)) {
+        if (key === '$ref' && typeof child === 'string') {
+          const target = splitRef(child, file);
+          if (target.file !== file) files.add(target.file);
+        } else {
+          walk(child);
+        }
+      }
+    };
+
+    walk(value);
+    return [...files];
+  }
+
+  /**
+   * Read every file reachable through `$ref`s once, registering it with the
+   * source map and keeping its parsed content.
+   * Files that cannot be read are skipped; validation reports them.
+   */
+  private async addReferencedFiles(
+    value: unknown,
+    file: string,
+    sourceMap: SourceMap,
+    files: Map<string, unknown>,
+  ): Promise<void> {
+    for (const referenced of this.collectFileRefs(value, file)) {
+      if (sourceMap.hasFile(referenced)) continue;
+
+      try {
+        const content = await this.read(referenced);
+        sourceMap.addFile(referenced, content);
+        const parsed = load(content);
+        files.set(referenced, parsed);
+        await this.addReferencedFiles(parsed, referenced, sourceMap, files);
+      } catch {
+        // unreadable references are reported by the validator
+      }
     }
+  }
+
+  /**
+   * Upgrade Swagger 2.0 documents to OpenAPI 3; other documents are returned
+   * as they are
+   */
+  private upgrade(
+    document: SpecDocument,
+  ): Omit<Partial<ConvertedSpec>, 'document'> & { document: SpecDocument } {
+    return isSwagger2(document) ? convertSwagger2(document) : { document };
+  }
+
+  async parse(source: string): Promise<SpecDocument> {
+    const content = await this.read(source);
 
     const document = this.parseContent(content, source);
 
-    return document;
+    return this.upgrade(document).document;
+  }
+
+  /**
+   * Parse a specification and build a source map covering the document and
+   * every file it references
+   * @param source - File path or URL to the OpenAPI specification
+   */
+  async load(source: string): Promise<ParsedSpec> {
+    const content = await this.read(source);
+    const { document, conversion, pointers } = this.upgrade(
+      this.parseContent(content, source),
+    );
+
+    const sourceMap = new SourceMap(source);
+    sourceMap.addFile(source, content);
+    pointers?.forEach(([pointer, original]) => {
+      sourceMap.addAlias(pointer, original);
+    });
+    const files = new Map<string, unknown>([[source, document]]);
+    await this.addReferencedFiles(document, source, sourceMap, files);
+
+    return { document, sourceMap, files, ...(conversion && { conversion }) };
+  }
+
+  /**
+   * Build a `ParsedSpec` for a document that is already in memory. Without
+   * its text, findings in the document itself carry no location.
+   * @param document - Parsed specification; it is copied, not modified
+   * @param source - Path or URL naming the document; relative `$ref`s
+   * resolve against it
+   */
+  async loadDocument(
+    document: SpecDocument,
+    source: string = IN_MEMORY_SOURCE,
+  ): Promise<ParsedSpec> {
+    const { document: upgraded, conversion } = this.upgrade(
+      structuredClone(document),
+    );
+
+    const sourceMap = new SourceMap(source);
+    const files = new Map<string, unknown>([[source, upgraded]]);
+    await this.addReferencedFiles(upgraded, source, sourceMap, files);
+
+    return {
+      document: upgraded,
+      sourceMap,
+      files,
+      ...(conversion && { conversion }),
+    };
   }
 }
@@ -0,0 +1,106 @@
+import type { OpenAPIV3 } from 'openapi-types';
+import type { CriteriaScore } from './evaluators';
+import { isFormatter, type ReportFormatter } from './formatters';
+import { importModule } from './modules';
+import type { Suppressions } from './suppressions';
+
+/**
+ * Extra information passed to evaluators for a scoring run
+ */
+export interface EvaluationContext {
+  /**
+   * Rules ignored through `x-specscore-ignore` or an ignore file. Suppressed
+   * findings are removed by the scorer; evaluators use this to leave the
+   * suppressed checks out of their score.
+   */
+  suppressions: Suppressions;
+}
+
+/**
+ * A single scoring criterion that can be registered with the scorer. Plugin
+ * evaluators score OpenAPI documents; the built-in AsyncAPI criteria use
+ * `CriteriaEvaluator<AsyncAPIDocument>`.
+ */
+export interface CriteriaEvaluator<D = OpenAPIV3.Document> {
+  /** Stable identifier of the criterion, e.g. `schema-types` */
+  id: string;
+  /** Short label shown while the criterion is being evaluated */
+  label: string;
+  evaluate(
+    document: D,
+    context?: EvaluationContext,
+  ): CriteriaScore | Promise<CriteriaScore>;
+}
+
+/**
+ * A plugin bundles one or more evaluators, and optionally report formatters,
+ * under a common name
+ */
+export interface ScorerPlugin {
+  name: string;
+  evaluators: CriteriaEvaluator[];
+  /** Formats made available to `--format` and `formatReport` */
+  formatters?: ReportFormatter[];
+}
+
+/**
+ * Helper for plugin authors to get type checking on their plugin definition
+ */
+export function definePlugin(plugin: ScorerPlugin): ScorerPlugin {
+  return plugin;
+}
+
+function isEvaluator(value: unknown): value is CriteriaEvaluator {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof (value as CriteriaEvaluator).id === 'string' &&
+    typeof (value as CriteriaEvaluator).evaluate === 'function'
+  );
+}
+
+function isPlugin(value: unknown): value is ScorerPlugin {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    Array.isArray((value as ScorerPlugin).evaluators) &&
+    (value as ScorerPlugin).evaluators.every(isEvaluator) &&
+    ((value as ScorerPlugin).formatters ?? []).every(isFormatter)
+  );
+}
+
+/**
+ * Loads a plugin module from disk.
+ * The module may default-export a plugin, a single evaluator or an array of
+ * evaluators, or provide a named `evaluators` export.
+ */
+export async function loadPlugin(modulePath: string): Promise<ScorerPlugin> {
+  let module: { default?: unknown; evaluators?: unknown };
+  try {
+    module = await importModule(modulePath);
+  } catch (error) {
+    throw new Error(
+      `Failed to load plugin ${modulePath}: ${
+        error instanceof Error ? error.message : error
+      }`,
+    );
+  }
+
+  const exported = module.default ?? module.evaluators;
+
+  if (isPlugin(exported)) {
+    return exported;
+  }
+
+  if (isEvaluator(exported)) {
+    return { name: modulePath, evaluators: [exported] };
+  }
+
+  if (Array.isArray(exported) && exported.every(isEvaluator)) {
+    return { name: modulePath, evaluators: exported };
+  }
+
+  throw new Error(
+    `Invalid plugin ${modulePath}: expected a default export with an "evaluators" array, an evaluator or an array of evaluators`,
+  );
+}
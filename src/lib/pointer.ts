@@ -0,0 +1,72 @@
+import { dirname, join } from 'node:path';
+
+/**
+ * Build a JSON Pointer (RFC 6901) from unescaped path segments
+ */
+export function toPointer(segments: Array<string | number>): string {
+  return segments
+    .map(
+      (segment) =>
+        `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`,
+    )
+    .join('');
+}
+
+/**
+ * Split a JSON Pointer into unescaped path segments.
+ * Accepts both `/a/b` and URI fragment form `#/a/b`.
+ */
+export function parsePointer(pointer: string): string[] {
+  const isFragment = pointer.startsWith('#');
+  const path = isFragment ? pointer.slice(1) : pointer;
+  if (!path) return [];
+
+  return path
+    .slice(1)
+    .split('/')
+    .map((segment) =>
+      (isFragment ? decodeURIComponent(segment) : segment)
+        .replace(/~1/g, '/')
+        .replace(/~0/g, '~'),
+    );
+}
+
+/**
+ * Pointer to an operation, e.g. `/paths/~1pets/get` or `/webhooks/newPet/post`
+ */
+export function operationPointer(
+  path: string,
+  method: string,
+  root: 'paths' | 'webhooks' = 'paths',
+): string {
+  return toPointer([root, path, method]);
+}
+
+/**
+ * Split a `$ref` into the file it points to and the pointer inside that file.
+ * Relative file references are resolved against the referencing file.
+ * @param ref - Value of the `$ref`, e.g. `./schemas.yaml#/Pet`
+ * @param baseFile - Path or URL of the file containing the `$ref`
+ */
+export function splitRef(
+  ref: string,
+  baseFile: string,
+): { file: string; pointer: string } {
+  const hashIndex = ref.indexOf('#');
+  const filePart = hashIndex === -1 ? ref : ref.slice(0, hashIndex);
+  const pointer = hashIndex === -1 ? '' : ref.slice(hashIndex + 1);
+
+  if (!filePart) {
+    return { file: baseFile, pointer };
+  }
+
+  if (/^https?:\/\//.test(filePart)) {
+    return { file: filePart, pointer };
+  }
+
+  if (/^https?:\/\//.test(baseFile)) {
+    return { file: new URL(filePart, baseFile).href, pointer };
+  }
+
+  return { file: join(dirname(baseFile), filePart), pointer };
+}
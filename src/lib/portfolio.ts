@@ -0,0 +1,379 @@
+import chalk from 'chalk';
+import consola from 'consola';
+import { formatSpecVersion, specFormat } from './asyncapi';
+import { DEFAULT_GRADES, type GradeThresholds, gradeFor } from './config';
+import { getIssues } from './findings';
+import type { ScoringResult } from './reporter';
+
+/**
+ * Most APIs listed as worst offenders
+ */
+export const PORTFOLIO_WORST_COUNT = 5;
+
+/**
+ * Outcome of scoring one specification of a batch
+ */
+export interface BatchOutcome {
+  source: string;
+  result?: ScoringResult;
+  /** Why the specification could not be scored */
+  error?: string;
+}
+
+/**
+ * One scored API of a portfolio
+ */
+export interface PortfolioEntry {
+  source: string;
+  title: string;
+  version: string;
+  /** e.g. `OpenAPI 3.0.3` */
+  spec: string;
+  totalScore: number;
+  grade: string;
+  issues: { error: number; warn: number; hint: number };
+  /** Criterion with the lowest percentage */
+  weakest?: { id?: string; name: string; percentage: number };
+}
+
+/**
+ * Average percentage of one criterion over the APIs scored by it
+ */
+export interface PortfolioCriterion {
+  id?: string;
+  name: string;
+  /** OpenAPI and AsyncAPI documents are scored by different criteria */
+  format: 'OpenAPI' | 'AsyncAPI';
+  averagePercentage: number;
+  apis: number;
+}
+
+/**
+ * Aggregate report over several specifications
+ */
+export interface Portfolio {
+  /** Average total score of the scored APIs */
+  totalScore: number;
+  grade: string;
+  /** Scored APIs, in input order */
+  apis: PortfolioEntry[];
+  criteria: PortfolioCriterion[];
+  /** Lowest-scoring APIs below the portfolio score, worst first */
+  worst: PortfolioEntry[];
+  failed: Array<{ source: string; error: string }>;
+}
+
+const average = (values: number[]) =>
+  values.length > 0
+    ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length)
+    : 0;
+
+function toEntry(source: string, result: ScoringResult): PortfolioEntry {
+  const issues = getIssues(result.criteria.flatMap((c) => c.findings));
+  const count = (severity: string) =>
+    issues.filter((f) => f.severity === severity).length;
+  const weakest = result.criteria
+    .filter((c) => c.maxScore > 0)
+    .reduce<PortfolioEntry['weakest']>(
+      (lowest, c) =>
+        !lowest || c.percentage < lowest.percentage
+          ? { id: c.id, name: c.name, percentage: c.percentage }
+          : lowest,
+      undefined,
+    );
+
+  return {
+    source,
+    title: result.document.info?.title ?? '',
+    version: result.document.info?.version ?? '',
+    spec: formatSpecVersion(result.document),
+    totalScore: result.totalScore,
+    grade: result.grade,
+    issues: { error: count('error'), warn: count('warn'), hint: count('hint') },
+    ...(weakest && { weakest }),
+  };
+}
+
+/**
+ * Aggregate the results of a batch into a portfolio
+ * @param outcomes - One outcome per specification, in input order
+ * @param grades - Grade boundaries for the portfolio score
+ */
+export function buildPortfolio(
+  outcomes: BatchOutcome[],
+  grades: GradeThresholds = DEFAULT_GRADES,
+): Portfolio {
+  const apis = outcomes.flatMap(({ source, result }) =>
+    result ? [toEntry(source, result)] : [],
+  );
+  const totalScore = average(apis.map((api) => api.totalScore));
+
+  const byCriterion = new Map<string, PortfolioCriterion & { sum: number }>();
+  outcomes.forEach(({ result }) => {
+    if (!result) return;
+    const format = specFormat(result.document);
+    result.criteria
+      .filter((c) => c.maxScore > 0)
+      .forEach((c) => {
+        const key = `${format} ${c.id ?? c.name}`;
+        const entry = byCriterion.get(key) ?? {
+          ...(c.id && { id: c.id }),
+          name: c.name,
+          format,
+          averagePercentage: 0,
+          apis: 0,
+          sum: 0,
+        };
+        entry.apis++;
+        entry.sum += c.percentage;
+        byCriterion.set(key, entry);
+      });
+  });
+
+  return {
+    totalScore,
+    grade: gradeFor(totalScore, grades),
+    apis,
+    criteria: [...byCriterion.values()].map(({ sum, ...criterion }) => ({
+      ...criterion,
+      averagePercentage: Math.round(sum / criterion.apis),
+    })),
+    worst: apis
+      .filter((api) => api.totalScore < totalScore)
+      .sort(
+        (a, b) =>
+          a.totalScore - b.totalScore || a.source.localeCompare(b.source),
+      )
+      .slice(0, PORTFOLIO_WORST_COUNT),
+    failed: outcomes.flatMap(({ source, result, error }) =>
+      result ? [] : [{ source, error: error ?? 'Unknown error' }],
+    ),
+  };
+}
+
+const criterionLabel = (criterion: PortfolioCriterion) =>
+  criterion.format === 'AsyncAPI'
+    ? `${criterion.name} (AsyncAPI)`
+    : criterion.name;
+
+const formatIssues = (issues: PortfolioEntry['issues']) =>
+  `${issues.error} errors, ${issues.warn} warnings, ${issues.hint} hints`;
+
+const formatWeakest = (entry: PortfolioEntry) =>
+  entry.weakest ? `${entry.weakest.name} (${entry.weakest.percentage}%)` : '-';
+
+const escapeTableCell = (value: string) => value.replace(/\|/g, '\\|');
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Render a portfolio as Markdown
+ */
+export function formatPortfolioMarkdown(portfolio: Portfolio): string {
+  const date = new Date().toISOString().split('T')[0];
+  const lines = [
+    '# API Portfolio Report',
+    '',
+    `Generated on: ${date}  `,
+    '',
+    `**Portfolio Score:** ${portfolio.totalScore}/100 (Grade: ${portfolio.grade}) across ${portfolio.apis.length} API(s)`,
+    '',
+    '## APIs',
+    '',
+    '| API | Source | Spec | Score | Grade | Issues | Weakest Criterion |',
+    '|-----|--------|------|-------|-------|--------|-------------------|',
+    ...portfolio.apis.map(
+      (api) =>
+        `| ${escapeTableCell(api.title)} ${api.version} | \`${api.source}\` | ${api.spec} | ${api.totalScore} | ${api.grade} | ${formatIssues(api.issues)} | ${escapeTableCell(formatWeakest(api))} |`,
+    ),
+    '',
+    '## Criteria Averages',
+    '',
+    '| Criteria | Average | APIs |',
+    '|----------|---------|------|',
+    ...portfolio.criteria.map(
+      (c) => `| ${criterionLabel(c)} | ${c.averagePercentage}% | ${c.apis} |`,
+    ),
+    '',
+  ];
+
+  if (portfolio.worst.length > 0) {
+    lines.push('## Worst Offenders', '');
+    portfolio.worst.forEach((api, index) => {
+      lines.push(
+        `${index + 1}. **${api.title}** (\`${api.source}\`) - ${api.totalScore}/100, weakest: ${formatWeakest(api)}`,
+      );
+    });
+    lines.push('');
+  }
+
+  if (portfolio.failed.length > 0) {
+    lines.push('## Not Scored', '');
+    portfolio.failed.forEach(({ source, error }) => {
+      lines.push(`- \`${source}\`: ${error}`);
+    });
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a portfolio as a standalone HTML page
+ */
+export function formatPortfolioHtml(portfolio: Portfolio): string {
+  const row = (cells: Array<string | number>) =>
+    `<tr>${cells.map((cell) => `<td>${escapeHtml(String(cell))}</td>`).join('')}</tr>`;
+  const list = (items: string[]) =>
+    `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>API Portfolio Report</title>
+    <style>
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; background: #f8fafc; margin: 0; }
+        .container { max-width: 1200px; margin: 0 auto; padding: 20px; }
+        .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 2rem; border-radius: 12px; margin-bottom: 2rem; }
+        .title { font-size: 2.5rem; font-weight: bold; }
+        .section { background: white; padding: 2rem; border-radius: 12px; box-shadow: 0 2px 4px rgba(0,0,0,0.1); margin-bottom: 2rem; }
+        .section-title { font-size: 1.5rem; font-weight: bold; margin-bottom: 1rem; color: #1e293b; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { text-align: left; padding: 0.5rem; border-bottom: 1px solid #e2e8f0; }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <div class="title">📊 API Portfolio Report</div>
+            <div>Portfolio score ${portfolio.totalScore}/100 (Grade ${portfolio.grade}) across ${portfolio.apis.length} API(s)</div>
+        </div>
+
+        <div class="section">
+            <div class="section-title">APIs</div>
+            <table>
+                <tr><th>API</th><th>Source</th><th>Spec</th><th>Score</th><th>Grade</th><th>Issues</th><th>Weakest Criterion</th></tr>
+                ${portfolio.apis
+                  .map((api) =>
+                    row([
+                      `${api.title} ${api.version}`,
+                      api.source,
+                      api.spec,
+                      api.totalScore,
+                      api.grade,
+                      formatIssues(api.issues),
+                      formatWeakest(api),
+                    ]),
+                  )
+                  .join('\n                ')}
+            </table>
+        </div>
+
+        <div class="section">
+            <div class="section-title">Criteria Averages</div>
+            <table>
+                <tr><th>Criteria</th><th>Average</th><th>APIs</th></tr>
+                ${portfolio.criteria
+                  .map((c) =>
+                    row([criterionLabel(c), `${c.averagePercentage}%`, c.apis]),
+                  )
+                  .join('\n                ')}
+            </table>
+        </div>
+${
+  portfolio.worst.length > 0
+    ? `
+        <div class="section">
+            <div class="section-title">Worst Offenders</div>
+            ${list(
+              portfolio.worst.map(
+                (api) =>
+                  `${api.title} (${api.source}) - ${api.totalScore}/100, weakest: ${formatWeakest(api)}`,
+              ),
+            )}
+        </div>
+`
+    : ''
+}${
+  portfolio.failed.length > 0
+    ? `
+        <div class="section">
+            <div class="section-title">Not Scored</div>
+            ${list(portfolio.failed.map(({ source, error }) => `${source}: ${error}`))}
+        </div>
+`
+    : ''
+}    </div>
+</body>
+</html>`;
+}
+
+/**
+ * Print a portfolio to the console
+ */
+export function printPortfolio(portfolio: Portfolio, duration: number): void {
+  const scoreColor = (score: number) =>
+    score >= 80 ? chalk.green : score >= 60 ? chalk.yellow : chalk.red;
+
+  consola.log('');
+  consola.info(chalk.bold('API Portfolio Report'));
+  consola.log(
+    `   ${chalk.cyan('Portfolio Score:')} ${scoreColor(
+      portfolio.totalScore,
+    ).bold(
+      `${portfolio.totalScore}/100 (${portfolio.grade})`,
+    )} across ${portfolio.apis.length} API(s)`,
+  );
+  consola.log('');
+
+  consola.info(chalk.blue.bold('APIs:'));
+  portfolio.apis.forEach((api) => {
+    consola.log(
+      `   ${scoreColor(api.totalScore)(String(api.totalScore).padStart(3))} ${api.grade}  ${chalk.white(
+        api.title,
+      )} ${chalk.gray(`${api.source} · ${formatIssues(api.issues)}`)}`,
+    );
+  });
+  consola.log('');
+
+  consola.info(chalk.blue.bold('Criteria Averages:'));
+  portfolio.criteria.forEach((c) => {
+    consola.log(
+      `   ${chalk.cyan(criterionLabel(c).padEnd(40))} ${scoreColor(
+        c.averagePercentage,
+      )(
+        `${c.averagePercentage}%`.padStart(4),
+      )} ${chalk.gray(`(${c.apis} API(s))`)}`,
+    );
+  });
+  consola.log('');
+
+  if (portfolio.worst.length > 0) {
+    consola.info(chalk.blue.bold('Worst Offenders:'));
+    portfolio.worst.forEach((api, index) => {
+      consola.log(
+        `   ${index + 1}. ${chalk.white(api.title)} ${chalk.gray(api.source)} ${scoreColor(
+          api.totalScore,
+        )(`${api.totalScore}/100`)}, weakest: ${formatWeakest(api)}`,
+      );
+    });
+    consola.log('');
+  }
+
+  if (portfolio.failed.length > 0) {
+    consola.warn(chalk.yellow.bold('Not Scored:'));
+    portfolio.failed.forEach(({ source, error }) => {
+      consola.log(`   ${chalk.red('✗')} ${source}: ${chalk.gray(error)}`);
+    });
+    consola.log('');
+  }
+
+  consola.success(`Scored ${portfolio.apis.length} API(s) in ${duration}ms`);
+}
@@ -0,0 +1,46 @@
+import chalk from 'chalk';
+import consola from 'consola';
+
+/**
+ * Progress of one step of a validation or scoring run
+ */
+export interface ProgressEvent {
+  /** `parse`, `validate`, `analyze`, or the id of the criterion being scored */
+  step: string;
+  status: 'start' | 'complete' | 'fail';
+  /** Human-readable description, e.g. `Evaluating security` */
+  label: string;
+  /** Criteria scored so far, including this one once complete; scoring only */
+  progress?: { completed: number; total: number };
+}
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+const COMPLETE_MESSAGES: Record<string, string> = {
+  parse: 'Document parsed successfully',
+  validate: 'Validation successful!',
+  analyze: 'Document structure analysis completed',
+};
+
+/**
+ * Default listener of the scorer and validator: logs every step through
+ * consola, as the CLI shows it
+ */
+export function logProgress(event: ProgressEvent): void {
+  if (event.status === 'start') {
+    consola.start(`${event.label}...`);
+  } else if (event.status === 'fail') {
+    consola.fail(chalk.red.bold(`${event.label} failed`));
+  } else {
+    consola.success(
+      chalk.green.bold(
+        COMPLETE_MESSAGES[event.step] ?? `${event.label} completed`,
+      ),
+    );
+  }
+}
+
+/**
+ * Listener that ignores every event
+ */
+export const silentProgress: ProgressListener = () => {};
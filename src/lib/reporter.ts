@@ -1,9 +1,57 @@
-import { writeFile } from 'node:fs/promises';
 import chalk from 'chalk';
 import consola from 'consola';
 import type { OpenAPIV3 } from 'openapi-types';
+import {
+  type AsyncAPIDocument,
+  isAsyncAPI,
+  type SpecDocument,
+  specFormat,
+} from './asyncapi';
+import { AsyncAPIEvaluators } from './asyncapi-evaluators';
+import {
+  type BreakdownGrouping,
+  buildBreakdown,
+  type ScoreBreakdown,
+} from './breakdown';
+import {
+  DEFAULT_GRADES,
+  type GradeThresholds,
+  gradeFor,
+  type SpecScoreConfig,
+} from './config';
 import { type CriteriaScore, Evaluators } from './evaluators';
-import { OpenAPIParser } from './parser';
+import {
+  createCriteriaScore,
+  type Finding,
+  formatTarget,
+  getIssues,
+  getPrioritySuggestions,
+} from './findings';
+import {
+  BUILTIN_FORMATTERS,
+  capitalize,
+  type FormatterOutput,
+  formatConversion,
+  formatFailedChecks,
+  formatHtmlReport,
+  formatMarkdownReport,
+  formatSuppressionSource,
+  type ReportFormatter,
+  SEVERITY_ICONS,
+  writeReport,
+} from './formatters';
+import { IN_MEMORY_SOURCE, OpenAPIParser, type ParsedSpec } from './parser';
+import type { CriteriaEvaluator, ScorerPlugin } from './plugins';
+import { logProgress, type ProgressListener } from './progress';
+import { resolveRefs } from './resolver';
+import { formatLocation, type SourceMap } from './source-map';
+import {
+  type SuppressedFinding,
+  type Suppression,
+  Suppressions,
+} from './suppressions';
+import type { SpecConversion } from './swagger2';
+import { OpenAPIValidator, type ValidationResult } from './validator';
 
 /**
  * Complete scoring result for the OpenAPI specification
@@ -13,7 +61,47 @@ export interface ScoringResult {
   grade: string;
   criteria: CriteriaScore[];
   feedback: string[];
-  document: OpenAPIV3.Document;
+  /** Scores per operation, path or tag, when requested */
+  breakdown?: ScoreBreakdown;
+  /** Findings left out of the score by `x-specscore-ignore` or an ignore file */
+  suppressed?: SuppressedFinding[];
+  /** Set when the input was upgraded, e.g. from Swagger 2.0 */
+  conversion?: SpecConversion;
+  /** File path or URL the specification was read from */
+  source: string;
+  /** Every file or URL that was read, `source` first, then `$ref` targets */
+  files?: string[];
+  /** The scored OpenAPI or AsyncAPI document, with `$ref`s resolved */
+  document: SpecDocument;
+}
+
+/**
+ * Options accepted by the OpenAPIScorer constructor
+ */
+export interface ScorerOptions {
+  plugins?: ScorerPlugin[];
+  config?: SpecScoreConfig;
+  /** Suppressions loaded from an ignore file, see `loadIgnoreFile` */
+  suppressions?: Suppression[];
+  /** Pause between steps like the interactive CLI does (default: true) */
+  delays?: boolean;
+  /** Receives every step of a run; logs through consola by default */
+  onProgress?: ProgressListener;
+}
+
+const MAX_CONSOLE_ISSUES = 5;
+const MAX_CONSOLE_BREAKDOWN = 10;
+
+/**
+ * Options for a single scoreSpec run
+ */
+export interface ScoreSpecOptions {
+  by?: BreakdownGrouping;
+}
+
+interface ScoringStep<D = OpenAPIV3.Document> {
+  evaluator: CriteriaEvaluator<D>;
+  delay: number;
 }
 
 /**
@@ -23,83 +111,306 @@ export interface ScoringResult {
 export class OpenAPIScorer {
   private parser: OpenAPIParser;
   private evaluators: Evaluators;
-
-  constructor() {
+  private asyncEvaluators: AsyncAPIEvaluators;
+  private steps: ScoringStep[] = [];
+  /** Built-in criteria for AsyncAPI documents; plugins do not apply */
+  private asyncSteps: ScoringStep<AsyncAPIDocument>[] = [];
+  private config: SpecScoreConfig;
+  private grades: GradeThresholds;
+  private suppressions: Suppression[];
+  private delays: boolean;
+  private onProgress: ProgressListener;
+  private formatters = new Map(
+    BUILTIN_FORMATTERS.map((formatter) => [formatter.name, formatter]),
+  );
+
+  constructor(options: ScorerOptions = {}) {
     this.parser = new OpenAPIParser();
-    this.evaluators = new Evaluators();
+    this.delays = options.delays ?? true;
+    this.onProgress = options.onProgress ?? logProgress;
+    this.config = options.config ?? {};
+    this.suppressions = options.suppressions ?? [];
+    this.grades = { ...DEFAULT_GRADES, ...this.config.grades };
+    this.evaluators = new Evaluators(
+      this.config.thresholds,
+      this.config.naming,
+    );
+    this.asyncEvaluators = new AsyncAPIEvaluators(this.config.thresholds);
+
+    this.registerBuiltin(
+      'schema-types',
+      '🔍 Analyzing schema & types',
+      600,
+      (document, context) =>
+        this.evaluators.scoreSchemaAndTypes(document, context?.suppressions),
+    );
+    this.registerBuiltin(
+      'descriptions',
+      '📝 Evaluating descriptions & documentation',
+      700,
+      (document, context) =>
+        this.evaluators.scoreDescriptions(document, context?.suppressions),
+    );
+    this.registerBuiltin(
+      'paths-operations',
+      'Analyzing paths & operations',
+      500,
+      (document, context) =>
+        this.evaluators.scorePathsAndOperations(
+          document,
+          context?.suppressions,
+        ),
+    );
+    this.registerBuiltin(
+      'response-codes',
+      'Evaluating response codes',
+      400,
+      (document, context) =>
+        this.evaluators.scoreResponseCodes(document, context?.suppressions),
+    );
+    this.registerBuiltin(
+      'examples',
+      'Checking examples & samples',
+      300,
+      (document, context) =>
+        this.evaluators.scoreExamples(document, context?.suppressions),
+    );
+    this.registerBuiltin(
+      'security',
+      'Evaluating security',
+      400,
+      (document, context) =>
+        this.evaluators.scoreSecurity(document, context?.suppressions),
+    );
+    this.registerBuiltin(
+      'best-practices',
+      'Checking best practices',
+      500,
+      (document, context) =>
+        this.evaluators.scoreBestPractices(document, context?.suppressions),
+    );
+    this.registerBuiltin(
+      'naming',
+      'Checking naming conventions',
+      0,
+      (document, context) =>
+        this.evaluators.scoreNaming(document, context?.suppressions),
+    );
+    this.registerBuiltin(
+      'pagination',
+      'Checking pagination of collections',
+      0,
+      (document, context) =>
+        this.evaluators.scorePagination(document, context?.suppressions),
+    );
+    this.registerBuiltin(
+      'error-model',
+      'Checking the error model',
+      0,
+      (document, context) =>
+        this.evaluators.scoreErrorModel(document, context?.suppressions),
+    );
+
+    this.registerAsyncBuiltin(
+      'async-descriptions',
+      '📝 Evaluating channel & operation descriptions',
+      700,
+      (document, context) =>
+        this.asyncEvaluators.scoreDescriptions(document, context?.suppressions),
+    );
+    this.registerAsyncBuiltin(
+      'async-payloads',
+      '🔍 Analyzing message payloads',
+      600,
+      (document, context) =>
+        this.asyncEvaluators.scorePayloads(document, context?.suppressions),
+    );
+    this.registerAsyncBuiltin(
+      'async-examples',
+      'Checking message examples',
+      300,
+      (document, context) =>
+        this.asyncEvaluators.scoreExamples(document, context?.suppressions),
+    );
+    this.registerAsyncBuiltin(
+      'async-security',
+      'Evaluating server security',
+      400,
+      (document, context) =>
+        this.asyncEvaluators.scoreSecurity(document, context?.suppressions),
+    );
+    this.registerAsyncBuiltin(
+      'async-bindings',
+      'Checking protocols & bindings',
+      400,
+      (document, context) =>
+        this.asyncEvaluators.scoreBindings(document, context?.suppressions),
+    );
+
+    options.plugins?.forEach((plugin) => this.use(plugin));
   }
 
   private delay = (ms: number) =>
-    new Promise((resolve) => setTimeout(resolve, ms));
+    this.delays
+      ? new Promise((resolve) => setTimeout(resolve, ms))
+      : Promise.resolve();
+
+  private registerBuiltin(
+    id: string,
+    label: string,
+    delay: number,
+    evaluate: CriteriaEvaluator['evaluate'],
+  ): void {
+    this.steps.push({ evaluator: { id, label, evaluate }, delay });
+  }
+
+  private registerAsyncBuiltin(
+    id: string,
+    label: string,
+    delay: number,
+    evaluate: CriteriaEvaluator<AsyncAPIDocument>['evaluate'],
+  ): void {
+    this.asyncSteps.push({ evaluator: { id, label, evaluate }, delay });
+  }
 
   /**
-   * Scores an OpenAPI specification based on multiple criteria
-   * @param source - File path or URL to the OpenAPI specification
+   * Registers an additional evaluator whose result is included in the score
+   * @param evaluator - Evaluator returning a CriteriaScore
+   */
+  registerEvaluator(evaluator: CriteriaEvaluator): this {
+    if (this.steps.some((step) => step.evaluator.id === evaluator.id)) {
+      throw new Error(`Evaluator "${evaluator.id}" is already registered`);
+    }
+
+    this.steps.push({ evaluator, delay: 0 });
+    return this;
+  }
+
+  /**
+   * Registers every evaluator and formatter provided by a plugin
+   * @param plugin - Plugin definition, see `loadPlugin` for loading from disk
+   */
+  use(plugin: ScorerPlugin): this {
+    plugin.evaluators.forEach((evaluator) => this.registerEvaluator(evaluator));
+    plugin.formatters?.forEach((formatter) =>
+      this.registerFormatter(formatter),
+    );
+    return this;
+  }
+
+  /**
+   * Scores an OpenAPI or AsyncAPI specification based on multiple criteria.
+   * AsyncAPI documents are scored by the built-in AsyncAPI criteria only.
+   * @param source - File path or URL to the specification
+   * @param options - Set `by` to include a per-operation, path or tag
+   * breakdown; ignored for AsyncAPI documents
    * @returns Promise<ScoringResult> - Detailed scoring results
    */
-  async scoreSpec(source: string): Promise<ScoringResult> {
+  async scoreSpec(
+    source: string,
+    options: ScoreSpecOptions = {},
+  ): Promise<ScoringResult> {
+    return this.score(() => this.parser.load(source), options);
+  }
+
+  /**
+   * Scores an OpenAPI or AsyncAPI document that is already in memory
+   * @param document - Parsed specification; it is not modified
+   * @param source - Names the document in results; relative `$ref`s resolve
+   * against it (default: `<document>`)
+   * @param options - See `scoreSpec`
+   */
+  async scoreDocument(
+    document: SpecDocument,
+    source?: string,
+    options: ScoreSpecOptions = {},
+  ): Promise<ScoringResult> {
+    return this.score(
+      () => this.parser.loadDocument(document, source),
+      options,
+    );
+  }
+
+  private async score(
+    load: () => Promise<ParsedSpec>,
+    options: ScoreSpecOptions,
+  ): Promise<ScoringResult> {
     // Step 1: Parse document
-    consola.start('Parsing OpenAPI document...');
+    const parseStep = { step: 'parse', label: 'Parsing API document' };
+    this.onProgress({ ...parseStep, status: 'start' });
     await this.delay(800);
-    const document = await this.parser.parse(source);
-    consola.success('Document parsed successfully');
-
-    // Step 2: Analyze schema and types
-    consola.start('🔍 Analyzing schema & types...');
-    await this.delay(600);
-    const schemaScore = this.evaluators.scoreSchemaAndTypes(document);
-    consola.success(chalk.green.bold('Schema analysis completed'));
-
-    // Step 3: Check descriptions and documentation
-    consola.start('📝 Evaluating descriptions & documentation...');
-    await this.delay(700);
-    const descriptionScore = this.evaluators.scoreDescriptions(document);
-    consola.success('Documentation analysis completed');
-
-    // Step 4: Analyze paths and operations
-    consola.start('Analyzing paths & operations...');
-    await this.delay(500);
-    const pathsScore = this.evaluators.scorePathsAndOperations(document);
-    consola.success(chalk.green.bold('Paths analysis completed'));
-
-    // Step 5: Check response codes
-    consola.start('Evaluating response codes...');
-    await this.delay(400);
-    const responseCodesScore = this.evaluators.scoreResponseCodes(document);
-    consola.success(chalk.green.bold('Response codes analysis completed'));
-
-    // Step 6: Check examples and samples
-    consola.start('Checking examples & samples...');
-    await this.delay(300);
-    const examplesScore = this.evaluators.scoreExamples(document);
-    consola.success(chalk.green.bold('Examples analysis completed'));
-
-    // Step 7: Analyze security
-    consola.start('Evaluating security...');
-    await this.delay(400);
-    const securityScore = this.evaluators.scoreSecurity(document);
-    consola.success(chalk.green.bold('Security analysis completed'));
-
-    // Step 8: Check best practices
-    consola.start('Checking best practices...');
-    await this.delay(500);
-    const bestPracticesScore = this.evaluators.scoreBestPractices(document);
-    consola.success(chalk.green.bold('Best practices analysis completed'));
-
-    const criteria = [
-      schemaScore,
-      descriptionScore,
-      pathsScore,
-      responseCodesScore,
-      examplesScore,
-      securityScore,
-      bestPracticesScore,
-    ];
-
-    const totalScore = criteria.reduce(
-      (sum, criteria) => sum + criteria.score,
-      0,
+    let parsed: ParsedSpec;
+    try {
+      parsed = await load();
+    } catch (error) {
+      this.onProgress({ ...parseStep, status: 'fail' });
+      throw error;
+    }
+    const { sourceMap } = parsed;
+    const source = sourceMap.rootFile;
+    // Evaluators see resolved objects; pointers still locate the `$ref` site
+    const document = resolveRefs(parsed);
+    this.onProgress({ ...parseStep, status: 'complete' });
+    const suppressions = Suppressions.fromDocument(document, this.suppressions);
+
+    // Step 2: Run every registered evaluator in order
+    const criteria: CriteriaScore[] = [];
+    const suppressed: SuppressedFinding[] = [];
+    const allSteps: ScoringStep<SpecDocument>[] = isAsyncAPI(document)
+      ? this.asyncSteps
+      : this.steps;
+    const steps = allSteps.filter(
+      ({ evaluator }) =>
+        this.config.criteria?.[evaluator.id]?.enabled !== false,
     );
+    for (const [index, { evaluator, delay }] of steps.entries()) {
+      const criterionConfig = this.config.criteria?.[evaluator.id];
+      const step = { step: evaluator.id, label: evaluator.label };
+      const total = steps.length;
+      this.onProgress({
+        ...step,
+        status: 'start',
+        progress: { completed: index, total },
+      });
+      await this.delay(delay);
+
+      try {
+        const score = this.withoutSuppressed(
+          this.withFindings(
+            evaluator.id,
+            await evaluator.evaluate(document, { suppressions }),
+          ),
+          suppressions,
+          suppressed,
+        );
+        criteria.push({
+          ...this.applyWeight(score, criterionConfig?.weight),
+          id: evaluator.id,
+        });
+      } catch (error) {
+        this.onProgress({
+          ...step,
+          status: 'fail',
+          progress: { completed: index, total },
+        });
+        throw new Error(
+          `Evaluator "${evaluator.id}" failed: ${
+            error instanceof Error ? error.message : error
+          }`,
+        );
+      }
+
+      this.onProgress({
+        ...step,
+        status: 'complete',
+        progress: { completed: index + 1, total },
+      });
+    }
+
+    criteria.forEach((c) => this.attachLocations(c.findings, sourceMap));
+    this.attachLocations(suppressed, sourceMap);
+
+    const totalScore = this.calculateTotalScore(criteria);
     const grade = this.calculateGrade(totalScore);
 
     return {
@@ -107,19 +418,139 @@ export class OpenAPIScorer {
       grade,
       criteria,
       feedback: this.generateOverallFeedback(totalScore, criteria),
+      breakdown:
+        options.by && !isAsyncAPI(document)
+          ? buildBreakdown(document, options.by, {
+              thresholds: this.config.thresholds,
+              disabledCriteria: Object.entries(this.config.criteria ?? {})
+                .filter(([, criterion]) => criterion.enabled === false)
+                .map(([id]) => id),
+            })
+          : undefined,
+      suppressed,
+      ...(parsed.conversion && { conversion: parsed.conversion }),
+      source,
+      files: [...parsed.files.keys()],
       document,
     };
   }
 
+  /**
+   * Move suppressed findings out of a criterion and re-derive its feedback
+   * and suggestions from the findings that remain
+   */
+  private withoutSuppressed(
+    criteria: CriteriaScore,
+    suppressions: Suppressions,
+    suppressed: SuppressedFinding[],
+  ): CriteriaScore {
+    const partition = suppressions.partition(criteria.findings);
+    if (partition.suppressed.length === 0) {
+      return criteria;
+    }
+
+    suppressed.push(...partition.suppressed);
+    const derived = createCriteriaScore({
+      ...criteria,
+      findings: partition.findings,
+    });
+    return {
+      ...criteria,
+      findings: partition.findings,
+      feedback: derived.feedback,
+      suggestions: derived.suggestions,
+    };
+  }
+
+  /**
+   * Resolve the pointer of each finding to a file/line/column position
+   */
+  private attachLocations(findings: Finding[], sourceMap: SourceMap): void {
+    findings.forEach((finding) => {
+      if (finding.pointer !== undefined && !finding.location) {
+        finding.location = sourceMap.locate(finding.pointer);
+      }
+    });
+  }
+
+  /**
+   * Fill in whichever of `findings` or `feedback`/`suggestions` a plugin left
+   * out, so renderers can rely on both
+   */
+  private withFindings(id: string, criteria: CriteriaScore): CriteriaScore {
+    if (!Array.isArray(criteria.findings)) {
+      const findings: Finding[] = [
+        ...(criteria.feedback ?? []).map((message) => ({
+          ruleId: `${id}/feedback`,
+          severity: 'info' as const,
+          message,
+        })),
+        ...(criteria.suggestions ?? []).map((suggestion) => ({
+          ruleId: `${id}/suggestion`,
+          severity: 'hint' as const,
+          message: suggestion,
+          suggestion,
+        })),
+      ];
+      return {
+        ...criteria,
+        findings,
+        feedback: criteria.feedback ?? [],
+        suggestions: criteria.suggestions ?? [],
+      };
+    }
+
+    if (!criteria.feedback || !criteria.suggestions) {
+      const derived = createCriteriaScore(criteria);
+      return {
+        ...criteria,
+        feedback: criteria.feedback ?? derived.feedback,
+        suggestions: criteria.suggestions ?? derived.suggestions,
+      };
+    }
+
+    return criteria;
+  }
+
+  /**
+   * Rescale a criterion to the weight configured for it; criteria without
+   * applicable checks (0/0) stay out of the total whatever their weight
+   */
+  private applyWeight(
+    criteria: CriteriaScore,
+    weight: number | undefined,
+  ): CriteriaScore {
+    if (
+      weight === undefined ||
+      weight === criteria.maxScore ||
+      criteria.maxScore === 0
+    ) {
+      return criteria;
+    }
+
+    return {
+      ...criteria,
+      score: Math.round((criteria.score / criteria.maxScore) * weight),
+      maxScore: weight,
+    };
+  }
+
+  /**
+   * Sum criteria scores, normalised to 100 so that plugin criteria do not
+   * shift the grade boundaries
+   */
+  private calculateTotalScore(criteria: CriteriaScore[]): number {
+    const score = criteria.reduce((sum, c) => sum + c.score, 0);
+    const maxScore = criteria.reduce((sum, c) => sum + c.maxScore, 0);
+
+    return maxScore > 0 ? Math.round((score / maxScore) * 100) : 0;
+  }
+
   /**
    * Calculate letter grade based on total score
    */
   private calculateGrade(score: number): string {
-    if (score >= 80) return 'A';
-    if (score >= 70) return 'B';
-    if (score >= 60) return 'C';
-    if (score >= 50) return 'D';
-    return 'F';
+    return gradeFor(score, this.grades);
   }
 
   /**
@@ -131,19 +562,19 @@ export class OpenAPIScorer {
   ): string[] {
     const feedback: string[] = [];
 
-    if (totalScore >= 80) {
+    if (totalScore >= this.grades.A) {
       feedback.push(
         'Excellent! Your OpenAPI specification follows industry best practices.',
       );
-    } else if (totalScore >= 70) {
+    } else if (totalScore >= this.grades.B) {
       feedback.push(
         'Good job! Your API specification is well-structured with minor areas for improvement.',
       );
-    } else if (totalScore >= 60) {
+    } else if (totalScore >= this.grades.C) {
       feedback.push(
         'Your API specification is decent but has several areas that could be improved.',
       );
-    } else if (totalScore >= 50) {
+    } else if (totalScore >= this.grades.D) {
       feedback.push(
         'Your API specification needs significant improvements to meet best practices.',
       );
@@ -154,7 +585,7 @@ export class OpenAPIScorer {
     }
 
     const weakAreas = criteria
-      .filter((c) => c.percentage < 50)
+      .filter((c) => c.maxScore > 0 && c.percentage < 50)
       .sort((a, b) => a.percentage - b.percentage)
       .slice(0, 3);
 
@@ -168,288 +599,88 @@ export class OpenAPIScorer {
   }
 
   /**
-   * Generate Markdown report and save to file
+   * Registers a formatter for `formatReport`
+   * @param formatter - Formatter whose name is not taken yet
    */
-  async generateMarkdownReport(
-    result: ScoringResult,
-    outputPath: string,
-  ): Promise<void> {
-    const markdown = this.generateMarkdownContent(result);
-
-    try {
-      await writeFile(outputPath, markdown, 'utf-8');
-      consola.success(`📄 Markdown report generated: ${outputPath}`);
-    } catch (error) {
-      consola.error(`Failed to write markdown report: ${error}`);
-      throw error;
+  registerFormatter(formatter: ReportFormatter): this {
+    if (this.formatters.has(formatter.name)) {
+      throw new Error(`Formatter "${formatter.name}" is already registered`);
     }
+
+    this.formatters.set(formatter.name, formatter);
+    return this;
   }
 
   /**
-   * Generate HTML report and save to file
+   * Formatter registered under a name, built-in or added by a plugin
    */
-  async generateHtmlReport(
-    result: ScoringResult,
-    outputPath: string,
-  ): Promise<void> {
-    const html = this.generateHtmlContent(result);
-
-    try {
-      await writeFile(outputPath, html, 'utf-8');
-      consola.success(`🌐 HTML report generated: ${outputPath}`);
-    } catch (error) {
-      consola.error(`Failed to write HTML report: ${error}`);
-      throw error;
-    }
+  getFormatter(name: string): ReportFormatter | undefined {
+    return this.formatters.get(name);
   }
 
   /**
-   * Generate markdown content for the report
+   * Names of every registered formatter
    */
-  private generateMarkdownContent(result: ScoringResult): string {
-    const date = new Date().toISOString().split('T')[0];
-
-    let markdown = `# OpenAPI Specification Report
-
-Generated on: ${date}  
-
-## API Information
-
-| Field | Value |
-|-------|-------|
-| **Title** | ${result.document.info.title} |
-| **Version** | ${result.document.info.version} |
-| **OpenAPI Version** | ${result.document.openapi} |
-| **Overall Score** | **${result.totalScore}/100 (Grade: ${result.grade})** |
-
-## Scoring Breakdown
+  get formats(): string[] {
+    return [...this.formatters.keys()];
+  }
 
-| Criteria | Score | Max | Percentage | Status |
-|----------|-------|-----|------------|---------|
-`;
+  /**
+   * Render a scoring result with a formatter
+   * @param result - Result of `scoreSpec` or `scoreDocument`
+   * @param format - Name of a registered formatter, e.g. `markdown`, or a
+   * formatter, e.g. one returned by `loadFormatter`
+   */
+  async formatReport(
+    result: ScoringResult,
+    format: string | ReportFormatter,
+  ): Promise<FormatterOutput> {
+    const formatter =
+      typeof format === 'string' ? this.formatters.get(format) : format;
+    if (!formatter) {
+      throw new Error(
+        `Unknown format "${format}". Use one of: ${this.formats.join(', ')}`,
+      );
+    }
 
-    result.criteria.forEach((criteria) => {
-      const status =
-        criteria.percentage >= 80
-          ? '✅'
-          : criteria.percentage >= 60
-            ? '⚠️'
-            : '❌';
-      markdown += `| ${criteria.name} | ${criteria.score} | ${criteria.maxScore} | ${criteria.percentage}% | ${status} |\n`;
+    let validation: Promise<ValidationResult> | undefined;
+    const validator = new OpenAPIValidator({
+      delays: this.delays,
+      onProgress: this.onProgress,
     });
-
-    markdown += `\n## Detailed Analysis\n\n`;
-
-    result.criteria.forEach((criteria) => {
-      markdown += `### ${criteria.name} (${criteria.score}/${criteria.maxScore})\n\n`;
-
-      if (criteria.feedback.length > 0) {
-        markdown += `**Findings:**\n`;
-        criteria.feedback.forEach((item) => {
-          markdown += `- ${item}\n`;
-        });
-        markdown += `\n`;
-      }
-
-      if (criteria.suggestions.length > 0) {
-        markdown += `**Suggestions:**\n`;
-        criteria.suggestions.forEach((suggestion) => {
-          markdown += `- ${suggestion}\n`;
-        });
-        markdown += `\n`;
-      }
+    return formatter.format(result, {
+      validate: () => {
+        validation ??=
+          result.source === IN_MEMORY_SOURCE
+            ? validator.validateDocument(result.document)
+            : validator.validateSpec(result.source);
+        return validation;
+      },
     });
+  }
 
-    if (result.feedback.length > 0) {
-      markdown += `## Overall Feedback\n\n`;
-      result.feedback.forEach((item) => {
-        markdown += `- ${item}\n`;
-      });
-      markdown += `\n`;
-    }
-
-    const allSuggestions = result.criteria.flatMap((c) => c.suggestions);
-    if (allSuggestions.length > 0) {
-      markdown += `## Priority Improvements\n\n`;
-      allSuggestions.slice(0, 5).forEach((suggestion, index) => {
-        markdown += `${index + 1}. ${suggestion}\n`;
-      });
-    }
-
-    markdown += `\n---\n*Report generated by score-api CLI tool*`;
-
-    return markdown;
+  /**
+   * Generate Markdown report and save to file
+   */
+  async generateMarkdownReport(
+    result: ScoringResult,
+    outputPath: string,
+  ): Promise<void> {
+    await writeReport(
+      formatMarkdownReport(result),
+      outputPath,
+      'Markdown report',
+    );
   }
 
   /**
-   * Generate HTML content for the report
+   * Generate HTML report and save to file
    */
-  private generateHtmlContent(result: ScoringResult): string {
-    const gradeColor =
-      result.grade === 'A'
-        ? '#22c55e'
-        : result.grade === 'B'
-          ? '#3b82f6'
-          : result.grade === 'C'
-            ? '#eab308'
-            : '#ef4444';
-
-    return `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>OpenAPI Report - ${result.document.info.title}</title>
-    <style>
-        * { margin: 0; padding: 0; box-sizing: border-box; }
-        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; background: #f8fafc; }
-        .container { max-width: 1200px; margin: 0 auto; padding: 20px; }
-        .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 2rem; border-radius: 12px; margin-bottom: 2rem; }
-        .title { font-size: 2.5rem; font-weight: bold; margin-bottom: 0.5rem; }
-        .subtitle { opacity: 0.9; font-size: 1.1rem; }
-        .score-card { background: white; padding: 2rem; border-radius: 12px; box-shadow: 0 4px 6px rgba(0,0,0,0.1); margin-bottom: 2rem; }
-        .score-display { text-align: center; padding: 1rem; }
-        .score-number { font-size: 3rem; font-weight: bold; color: ${gradeColor}; }
-        .grade { font-size: 1.5rem; font-weight: bold; color: ${gradeColor}; margin-left: 0.5rem; }
-        .info-grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(200px, 1fr)); gap: 1rem; margin: 1rem 0; }
-        .info-item { background: #f1f5f9; padding: 1rem; border-radius: 8px; }
-        .info-label { font-weight: bold; color: #64748b; margin-bottom: 0.25rem; }
-        .criteria-grid { display: grid; gap: 1rem; margin-bottom: 2rem; }
-        .criteria-card { background: white; padding: 1.5rem; border-radius: 12px; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
-        .criteria-header { display: flex; justify-content: space-between; align-items: center; margin-bottom: 1rem; }
-        .criteria-name { font-size: 1.25rem; font-weight: bold; }
-        .criteria-score { font-size: 1.1rem; font-weight: bold; }
-        .progress-bar { background: #e2e8f0; height: 8px; border-radius: 4px; overflow: hidden; margin-bottom: 1rem; }
-        .progress-fill { height: 100%; transition: width 0.3s ease; }
-        .feedback-list { list-style: none; }
-        .feedback-item { padding: 0.5rem 0; border-bottom: 1px solid #e2e8f0; }
-        .feedback-item:last-child { border-bottom: none; }
-        .suggestions { background: #fef3c7; border-left: 4px solid #f59e0b; padding: 1rem; border-radius: 0 8px 8px 0; margin-top: 1rem; }
-        .section { background: white; padding: 2rem; border-radius: 12px; box-shadow: 0 2px 4px rgba(0,0,0,0.1); margin-bottom: 2rem; }
-        .section-title { font-size: 1.5rem; font-weight: bold; margin-bottom: 1rem; color: #1e293b; }
-        .footer { text-align: center; padding: 2rem; color: #64748b; }
-    </style>
-</head>
-<body>
-    <div class="container">
-        <div class="header">
-            <div class="title">📊 OpenAPI Specification Report</div>
-        </div>
-
-        <div class="score-card">
-            <div class="score-display">
-                <div class="score-number">${
-                  result.totalScore
-                }<span style="font-size: 1.5rem; color: #64748b;">/100</span><span class="grade">${
-                  result.grade
-                }</span></div>
-            </div>
-            
-            <div class="info-grid">
-                <div class="info-item">
-                    <div class="info-label">API Title</div>
-                    <div>${result.document.info.title}</div>
-                </div>
-                <div class="info-item">
-                    <div class="info-label">Version</div>
-                    <div>${result.document.info.version}</div>
-                </div>
-                <div class="info-item">
-                    <div class="info-label">OpenAPI Version</div>
-                    <div>${result.document.openapi}</div>
-                </div>
-                <div class="info-item">
-                    <div class="info-label">Grade</div>
-                    <div style="color: ${gradeColor}; font-weight: bold;">${
-                      result.grade
-                    }</div>
-                </div>
-            </div>
-        </div>
-
-        <div class="section">
-            <div class="section-title">🎯 Scoring Breakdown</div>
-            <div class="criteria-grid">
-                ${result.criteria
-                  .map((criteria) => {
-                    const color =
-                      criteria.percentage >= 80
-                        ? '#22c55e'
-                        : criteria.percentage >= 60
-                          ? '#eab308'
-                          : '#ef4444';
-                    return `
-                    <div class="criteria-card">
-                        <div class="criteria-header">
-                            <div class="criteria-name">${criteria.name}</div>
-                            <div class="criteria-score" style="color: ${color};">${
-                              criteria.score
-                            }/${criteria.maxScore} (${criteria.percentage}%)</div>
-                        </div>
-                        <div class="progress-bar">
-                            <div class="progress-fill" style="width: ${
-                              criteria.percentage
-                            }%; background-color: ${color};"></div>
-                        </div>
-                        ${
-                          criteria.feedback.length > 0
-                            ? `
-                            <ul class="feedback-list">
-                                ${criteria.feedback
-                                  .map(
-                                    (item) =>
-                                      `<li class="feedback-item">• ${item}</li>`,
-                                  )
-                                  .join('')}
-                            </ul>
-                        `
-                            : ''
-                        }
-                        ${
-                          criteria.suggestions.length > 0
-                            ? `
-                            <div class="suggestions">
-                                <strong>💡 Suggestions:</strong>
-                                <ul style="margin-top: 0.5rem;">
-                                    ${criteria.suggestions
-                                      .map(
-                                        (suggestion) =>
-                                          `<li>• ${suggestion}</li>`,
-                                      )
-                                      .join('')}
-                                </ul>
-                            </div>
-                        `
-                            : ''
-                        }
-                    </div>
-                  `;
-                  })
-                  .join('')}
-            </div>
-        </div>
-
-        ${
-          result.feedback.length > 0
-            ? `
-            <div class="section">
-                <div class="section-title">💬 Overall Feedback</div>
-                <ul class="feedback-list">
-                    ${result.feedback
-                      .map((item) => `<li class="feedback-item">• ${item}</li>`)
-                      .join('')}
-                </ul>
-            </div>
-        `
-            : ''
-        }
-
-        <div class="footer">
-            <p>Report generated by <strong>score-api</strong> CLI tool</p>
-        </div>
-    </div>
-</body>
-</html>`;
+  async generateHtmlReport(
+    result: ScoringResult,
+    outputPath: string,
+  ): Promise<void> {
+    await writeReport(formatHtmlReport(result), outputPath, 'HTML report');
   }
 
   /**
@@ -467,7 +698,9 @@ Generated on: ${date}
             ? 'yellow'
             : 'red';
 
-    consola.info(chalk.bold(`OpenAPI Specification Report`));
+    consola.info(
+      chalk.bold(`${specFormat(result.document)} Specification Report`),
+    );
     consola.log(
       `   ${chalk.cyan('API Title:')} ${chalk.white(
         result.document.info.title,
@@ -478,6 +711,13 @@ Generated on: ${date}
         result.document.info.version,
       )}`,
     );
+    if (result.conversion) {
+      consola.log(
+        `   ${chalk.cyan('Input:')} ${chalk.white(
+          formatConversion(result.conversion),
+        )}`,
+      );
+    }
     consola.log(
       `   ${chalk.cyan('Overall Score:')} ${chalk[gradeColor].bold(
         `${result.totalScore}/100 (${result.grade})`,
@@ -488,11 +728,13 @@ Generated on: ${date}
     consola.info(chalk.blue.bold('Detailed Scoring:'));
     result.criteria.forEach((criteria) => {
       const percentageColor =
-        criteria.percentage >= 80
-          ? 'green'
-          : criteria.percentage >= 60
-            ? 'yellow'
-            : 'red';
+        criteria.maxScore === 0
+          ? 'gray'
+          : criteria.percentage >= 80
+            ? 'green'
+            : criteria.percentage >= 60
+              ? 'yellow'
+              : 'red';
 
       consola.log(
         `   ${chalk.cyan(criteria.name.padEnd(25))} ${chalk[percentageColor](
@@ -505,9 +747,87 @@ Generated on: ${date}
           consola.log(`     ${chalk.gray('•')} ${chalk.gray(item)}`);
         });
       }
+
+      const issues = getIssues(criteria.findings).filter(
+        (issue) => issue.target && issue.severity !== 'hint',
+      );
+      issues.slice(0, MAX_CONSOLE_ISSUES).forEach((issue) => {
+        const color = issue.severity === 'error' ? 'red' : 'yellow';
+        consola.log(
+          `     ${chalk[color](SEVERITY_ICONS[issue.severity])} ${chalk.white(
+            `${formatTarget(issue.target)}:`,
+          )} ${chalk.gray(issue.message)} ${chalk.dim(`[${issue.ruleId}]`)}${
+            issue.location
+              ? `\n       ${chalk.dim(formatLocation(issue.location))}`
+              : ''
+          }`,
+        );
+      });
+      if (issues.length > MAX_CONSOLE_ISSUES) {
+        consola.log(
+          `     ${chalk.gray(`… and ${issues.length - MAX_CONSOLE_ISSUES} more`)}`,
+        );
+      }
     });
     consola.log('');
 
+    if (result.breakdown && result.breakdown.entries.length > 0) {
+      consola.info(
+        chalk.blue.bold(
+          `Lowest Scoring by ${capitalize(result.breakdown.by)}:`,
+        ),
+      );
+      result.breakdown.entries
+        .slice(0, MAX_CONSOLE_BREAKDOWN)
+        .forEach((entry) => {
+          const color =
+            entry.percentage >= 80
+              ? 'green'
+              : entry.percentage >= 60
+                ? 'yellow'
+                : 'red';
+          consola.log(
+            `   ${chalk[color](`${entry.percentage}%`.padStart(4))} ${chalk.white(
+              entry.key,
+            )} ${chalk.gray(formatFailedChecks(entry))}`,
+          );
+        });
+      consola.log('');
+    }
+
+    if (result.conversion && result.conversion.warnings.length > 0) {
+      consola.info(
+        chalk.blue.bold(
+          `Conversion Warnings (${result.conversion.warnings.length}):`,
+        ),
+      );
+      result.conversion.warnings.forEach((warning) => {
+        consola.log(`   ${chalk.yellow('•')} ${chalk.gray(warning)}`);
+      });
+      consola.log('');
+    }
+
+    if (result.suppressed && result.suppressed.length > 0) {
+      consola.info(
+        chalk.blue.bold(`Suppressed Findings (${result.suppressed.length}):`),
+      );
+      result.suppressed.forEach((finding) => {
+        consola.log(
+          `   ${chalk.gray('○')} ${chalk.white(
+            `${formatTarget(finding.target)}:`,
+          )} ${chalk.gray(finding.message)} ${chalk.dim(`[${finding.ruleId}]`)}`,
+        );
+        consola.log(
+          `     ${chalk.dim(
+            [finding.suppression.reason, formatSuppressionSource(finding)]
+              .filter(Boolean)
+              .join(' — '),
+          )}`,
+        );
+      });
+      consola.log('');
+    }
+
     if (result.feedback.length > 0) {
       consola.info(chalk.blue.bold('Overall Feedback:'));
       result.feedback.forEach((item) => {
@@ -516,10 +836,12 @@ Generated on: ${date}
       consola.log('');
     }
 
-    const allSuggestions = result.criteria.flatMap((c) => c.suggestions);
-    if (allSuggestions.length > 0) {
+    const prioritySuggestions = getPrioritySuggestions(
+      result.criteria.flatMap((c) => c.findings),
+    );
+    if (prioritySuggestions.length > 0) {
       consola.info(chalk.blue.bold('Suggestions for Improvement:'));
-      allSuggestions.slice(0, 5).forEach((suggestion) => {
+      prioritySuggestions.forEach((suggestion) => {
         consola.log(`   ${chalk.yellow('•')} ${suggestion}`);
       });
       consola.log('');
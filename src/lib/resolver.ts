@@ -0,0 +1,81 @@
+import type { SpecDocument } from './asyncapi';
+import type { ParsedSpec } from './parser';
+import { parsePointer, splitRef } from './pointer';
+
+/**
+ * Follow a JSON Pointer into a parsed value
+ */
+function getAt(value: unknown, pointer: string): unknown {
+  let node = value;
+  for (const segment of parsePointer(`#${pointer}`)) {
+    if (!node || typeof node !== 'object') return undefined;
+    node = (node as Record<string, unknown>)[segment];
+  }
+  return node;
+}
+
+/**
+ * Replaces every `$ref` in a parsed specification with the value it points
+ * to, so evaluators see the resolved objects. Internal, relative file and URL
+ * references are resolved from `ParsedSpec.files`, which holds each file
+ * once.
+ *
+ * A reference back to a node that is still being resolved (e.g. a recursive
+ * schema) is left as a `$ref`, as are references that cannot be resolved;
+ * the validator reports the latter. Keys next to a `$ref` override the
+ * resolved value. Pointers into the result still locate the `$ref` site,
+ * since `SourceMap` follows references itself.
+ */
+export function resolveRefs(spec: ParsedSpec): SpecDocument {
+  const resolved = new Map<string, unknown>();
+
+  const resolveNode = (
+    node: unknown,
+    file: string,
+    stack: Set<string>,
+  ): unknown => {
+    if (!node || typeof node !== 'object') return node;
+
+    if (Array.isArray(node)) {
+      return node.map((item) => resolveNode(item, file, stack));
+    }
+
+    const { $ref, ...siblings } = node as Record<string, unknown>;
+    if (typeof $ref !== 'string') {
+      return Object.fromEntries(
+        Object.entries(node).map(([key, value]) => [
+          key,
+          resolveNode(value, file, stack),
+        ]),
+      );
+    }
+
+    const target = splitRef($ref, file);
+    const key = `${target.file}#${target.pointer}`;
+    const targetValue = getAt(spec.files.get(target.file), target.pointer);
+    if (stack.has(key) || targetValue === undefined) {
+      return node;
+    }
+
+    if (!resolved.has(key)) {
+      resolved.set(
+        key,
+        resolveNode(targetValue, target.file, new Set([...stack, key])),
+      );
+    }
+
+    const value = resolved.get(key);
+    return Object.keys(siblings).length > 0 &&
+      value &&
+      typeof value === 'object' &&
+      !Array.isArray(value)
+      ? { ...value, ...(resolveNode(siblings, file, stack) as object) }
+      : value;
+  };
+
+  return resolveNode(
+    spec.document,
+    spec.sourceMap.rootFile,
+    new Set(),
+  ) as SpecDocument;
+}
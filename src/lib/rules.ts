@@ -0,0 +1,569 @@
+import type { Severity } from './findings';
+
+/**
+ * Description of a check emitted by an evaluator
+ */
+export interface RuleDefinition {
+  id: string;
+  /** Id of the evaluator that owns the rule */
+  criterion: string;
+  severity: Severity;
+  description: string;
+}
+
+const rule = (
+  id: string,
+  severity: Severity,
+  description: string,
+): RuleDefinition => ({
+  id,
+  criterion: id.split('/')[0] ?? id,
+  severity,
+  description,
+});
+
+/**
+ * Every rule emitted by the built-in evaluators
+ */
+export const BUILTIN_RULES: RuleDefinition[] = [
+  // Schema & Types
+  rule('schema-types/schemas-defined', 'info', 'Reusable schemas are defined'),
+  rule('schema-types/no-schemas', 'warn', 'No reusable schemas are defined'),
+  rule(
+    'schema-types/typed-schemas',
+    'info',
+    'Object schemas declare their properties',
+  ),
+  rule(
+    'schema-types/free-form-object',
+    'warn',
+    'Object schema has neither properties nor additionalProperties',
+  ),
+  rule(
+    'schema-types/free-form-count',
+    'info',
+    'Number of free-form object schemas',
+  ),
+  rule(
+    'schema-types/schema-usage',
+    'info',
+    'Share of operations using schemas for their bodies',
+  ),
+  rule(
+    'schema-types/media-type-missing-schema',
+    'warn',
+    'Request or response content has no schema',
+  ),
+  rule(
+    'schema-types/low-score',
+    'hint',
+    'Schema & Types score is below the suggestion threshold',
+  ),
+
+  // Descriptions & Documentation
+  rule('descriptions/info-present', 'info', 'API has a meaningful description'),
+  rule('descriptions/info-missing', 'warn', 'API description is missing'),
+  rule(
+    'descriptions/operation-coverage',
+    'info',
+    'Share of operations with descriptions',
+  ),
+  rule(
+    'descriptions/operation-missing',
+    'warn',
+    'Operation has no meaningful description',
+  ),
+  rule(
+    'descriptions/parameter-coverage',
+    'info',
+    'Share of parameters with descriptions',
+  ),
+  rule(
+    'descriptions/parameter-missing',
+    'warn',
+    'Parameter has no description',
+  ),
+  rule(
+    'descriptions/response-coverage',
+    'info',
+    'Share of responses with descriptions',
+  ),
+  rule('descriptions/response-missing', 'warn', 'Response has no description'),
+  rule('descriptions/path-missing', 'hint', 'Path item has no description'),
+  rule(
+    'descriptions/low-score',
+    'hint',
+    'Descriptions score is below the suggestion threshold',
+  ),
+
+  // Paths & Operations
+  rule('paths-operations/no-paths', 'error', 'No paths are defined'),
+  rule(
+    'paths-operations/paths-omitted',
+    'info',
+    'OpenAPI 3.1 document without paths; the criterion does not apply',
+  ),
+  rule(
+    'paths-operations/naming-coverage',
+    'info',
+    'Share of paths following RESTful naming conventions',
+  ),
+  rule(
+    'paths-operations/naming',
+    'warn',
+    'Path segments are not lowercase nouns separated by hyphens',
+  ),
+  rule(
+    'paths-operations/crud-patterns',
+    'info',
+    'Paths offering both list and create operations',
+  ),
+  rule(
+    'paths-operations/no-overlap',
+    'info',
+    'No overlapping or redundant paths',
+  ),
+  rule(
+    'paths-operations/overlapping-path',
+    'warn',
+    'Path overlaps with another path that differs only by parameter names',
+  ),
+  rule(
+    'paths-operations/low-score',
+    'hint',
+    'Paths & Operations score is below the suggestion threshold',
+  ),
+
+  // Response Codes
+  rule('response-codes/no-paths', 'error', 'No operations to evaluate'),
+  rule(
+    'response-codes/paths-omitted',
+    'info',
+    'OpenAPI 3.1 document without paths; the criterion does not apply',
+  ),
+  rule(
+    'response-codes/success-coverage',
+    'info',
+    'Share of operations defining a success response',
+  ),
+  rule(
+    'response-codes/missing-success',
+    'warn',
+    'Operation defines no 2xx response',
+  ),
+  rule(
+    'response-codes/error-coverage',
+    'info',
+    'Share of operations defining an error response',
+  ),
+  rule(
+    'response-codes/missing-error',
+    'warn',
+    'Operation defines no 4xx or 5xx response',
+  ),
+  rule(
+    'response-codes/multiple-coverage',
+    'info',
+    'Share of operations defining multiple response codes',
+  ),
+  rule(
+    'response-codes/single-response',
+    'hint',
+    'Operation defines a single response code',
+  ),
+  rule(
+    'response-codes/standard-codes',
+    'info',
+    'Standard HTTP status codes are used',
+  ),
+  rule(
+    'response-codes/non-standard-codes',
+    'warn',
+    'Common success or error status codes are not used',
+  ),
+  rule(
+    'response-codes/low-score',
+    'hint',
+    'Response Codes score is below the suggestion threshold',
+  ),
+
+  // Examples & Samples
+  rule('examples/no-paths', 'error', 'No operations to evaluate'),
+  rule(
+    'examples/paths-omitted',
+    'info',
+    'OpenAPI 3.1 document without paths or webhooks; the criterion does not apply',
+  ),
+  rule(
+    'examples/request-coverage',
+    'info',
+    'Share of request bodies with examples',
+  ),
+  rule('examples/request-missing', 'warn', 'Request body has no example'),
+  rule(
+    'examples/response-coverage',
+    'info',
+    'Share of responses with examples',
+  ),
+  rule('examples/response-missing', 'warn', 'Response content has no example'),
+  rule(
+    'examples/low-score',
+    'hint',
+    'Examples score is below the suggestion threshold',
+  ),
+
+  // Security
+  rule('security/schemes-defined', 'info', 'Security schemes are defined'),
+  rule('security/no-schemes', 'warn', 'No security schemes are defined'),
+  rule(
+    'security/global-requirement',
+    'info',
+    'Global security requirements are defined',
+  ),
+  rule(
+    'security/operation-coverage',
+    'info',
+    'Share of operations requiring authentication or deliberately public',
+  ),
+  rule(
+    'security/operation-unprotected',
+    'warn',
+    'Operation has no security requirement',
+  ),
+  rule(
+    'security/write-opt-out',
+    'warn',
+    'Write operation opts out of security with an empty requirement',
+  ),
+  rule(
+    'security/undefined-scheme',
+    'error',
+    'Security requirement references an undefined scheme',
+  ),
+  rule(
+    'security/undeclared-scope',
+    'error',
+    'OAuth2 scope is not declared by the flows of its scheme',
+  ),
+  rule(
+    'security/unused-scheme',
+    'warn',
+    'Security scheme is declared but never required',
+  ),
+  rule(
+    'security/flow-missing-url',
+    'error',
+    'OAuth2 flow or OpenID Connect scheme lacks a required URL',
+  ),
+  rule(
+    'security/api-key-in-query',
+    'warn',
+    'API key is passed in the query string',
+  ),
+  rule('security/insecure-server', 'warn', 'Server URL does not use HTTPS'),
+  rule(
+    'security/none',
+    'hint',
+    'No authentication or authorization is described',
+  ),
+
+  // Best Practices
+  rule('best-practices/servers-defined', 'info', 'Servers are defined'),
+  rule('best-practices/no-servers', 'warn', 'No servers are defined'),
+  rule('best-practices/version', 'info', 'API version is set'),
+  rule('best-practices/tag-coverage', 'info', 'Share of operations with tags'),
+  rule(
+    'best-practices/operation-missing-tags',
+    'warn',
+    'Operation has no tags',
+  ),
+  rule(
+    'best-practices/component-reuse',
+    'info',
+    'Several component types are used for reuse',
+  ),
+  rule(
+    'best-practices/external-docs',
+    'info',
+    'External documentation is referenced',
+  ),
+  rule(
+    'best-practices/low-score',
+    'hint',
+    'Best Practices score is below the suggestion threshold',
+  ),
+
+  // Naming Consistency
+  rule(
+    'naming/conventions',
+    'info',
+    'Share of names following their configured or inferred casing',
+  ),
+  rule('naming/operation-id-missing', 'warn', 'Operation has no operationId'),
+  rule(
+    'naming/operation-id-coverage',
+    'info',
+    'Share of operations with an operationId',
+  ),
+  rule(
+    'naming/operation-id-duplicate',
+    'error',
+    'operationId is used by more than one operation',
+  ),
+  rule(
+    'naming/operation-id-casing',
+    'warn',
+    'operationId does not follow the naming convention',
+  ),
+  rule(
+    'naming/property-casing',
+    'warn',
+    'Schema property name does not follow the naming convention',
+  ),
+  rule(
+    'naming/parameter-casing',
+    'warn',
+    'Query or header parameter name does not follow the naming convention',
+  ),
+  rule(
+    'naming/schema-casing',
+    'warn',
+    'Schema name does not follow the naming convention',
+  ),
+
+  // Pagination & Collections
+  rule(
+    'pagination/no-collections',
+    'info',
+    'No collection endpoints to check for pagination',
+  ),
+  rule(
+    'pagination/coverage',
+    'info',
+    'Share of collection endpoints that are paginated',
+  ),
+  rule(
+    'pagination/not-paginated',
+    'warn',
+    'Collection endpoint is not paginated',
+  ),
+  rule('pagination/style', 'info', 'Pagination style used by most collections'),
+  rule(
+    'pagination/inconsistent-style',
+    'warn',
+    'Collection endpoint uses a different pagination style than the rest',
+  ),
+  rule(
+    'pagination/unbounded-limit',
+    'warn',
+    'Page size is not bounded by a documented maximum',
+  ),
+  rule(
+    'pagination/missing-envelope',
+    'warn',
+    'Page response has neither a next link nor a total',
+  ),
+  rule(
+    'pagination/inconsistent-parameters',
+    'hint',
+    'Sort or filter parameter is named differently than on other collections',
+  ),
+
+  // Error Model
+  rule(
+    'error-model/no-error-responses',
+    'info',
+    'No error responses to check for an error model',
+  ),
+  rule(
+    'error-model/schema-coverage',
+    'info',
+    'Share of error responses with a body schema',
+  ),
+  rule(
+    'error-model/missing-schema',
+    'warn',
+    'Error response has no body schema',
+  ),
+  rule(
+    'error-model/shared-model',
+    'info',
+    'Share of error bodies using the shared error model',
+  ),
+  rule(
+    'error-model/divergent-shape',
+    'warn',
+    'Error body differs from the shared error model',
+  ),
+  rule(
+    'error-model/ad-hoc-model',
+    'hint',
+    'Error model is neither problem details nor a shared schema',
+  ),
+  rule(
+    'error-model/missing-fields',
+    'warn',
+    'Error model lacks the fields clients rely on',
+  ),
+  rule(
+    'error-model/default-only',
+    'warn',
+    'Errors are only described by the default response',
+  ),
+
+  // AsyncAPI: Descriptions & Documentation
+  rule(
+    'async-descriptions/info-present',
+    'info',
+    'API has a meaningful description',
+  ),
+  rule('async-descriptions/info-missing', 'warn', 'API description is missing'),
+  rule('async-descriptions/no-channels', 'error', 'No channels are defined'),
+  rule(
+    'async-descriptions/channel-missing',
+    'warn',
+    'Channel has no description',
+  ),
+  rule(
+    'async-descriptions/channel-coverage',
+    'info',
+    'Share of channels with descriptions',
+  ),
+  rule(
+    'async-descriptions/operation-missing',
+    'warn',
+    'Operation has no meaningful description or summary',
+  ),
+  rule(
+    'async-descriptions/operation-coverage',
+    'info',
+    'Share of operations with descriptions',
+  ),
+  rule(
+    'async-descriptions/message-missing',
+    'warn',
+    'Message has no description, summary or title',
+  ),
+  rule(
+    'async-descriptions/message-coverage',
+    'info',
+    'Share of messages with descriptions',
+  ),
+
+  // AsyncAPI: Message Payloads
+  rule('async-payloads/no-messages', 'error', 'No messages are defined'),
+  rule(
+    'async-payloads/payload-missing',
+    'warn',
+    'Message has no payload schema',
+  ),
+  rule(
+    'async-payloads/payload-coverage',
+    'info',
+    'Share of messages defining a payload',
+  ),
+  rule(
+    'async-payloads/untyped-payload',
+    'warn',
+    'Payload schema has no type, or is an object without properties',
+  ),
+  rule('async-payloads/typed-coverage', 'info', 'Share of typed payloads'),
+
+  // AsyncAPI: Examples & Samples
+  rule('async-examples/no-messages', 'error', 'No messages are defined'),
+  rule('async-examples/message-missing', 'warn', 'Message has no example'),
+  rule(
+    'async-examples/message-coverage',
+    'info',
+    'Share of messages with examples',
+  ),
+
+  // AsyncAPI: Security
+  rule(
+    'async-security/schemes-defined',
+    'info',
+    'Security schemes are defined',
+  ),
+  rule('async-security/no-schemes', 'warn', 'No security schemes are defined'),
+  rule('async-security/no-servers', 'warn', 'No servers are defined'),
+  rule(
+    'async-security/server-unprotected',
+    'warn',
+    'Server declares no security requirements',
+  ),
+  rule(
+    'async-security/server-coverage',
+    'info',
+    'Share of servers declaring security',
+  ),
+
+  // AsyncAPI: Protocols & Bindings
+  rule(
+    'async-bindings/server-protocol-missing',
+    'warn',
+    'Server does not declare its protocol',
+  ),
+  rule(
+    'async-bindings/protocol-coverage',
+    'info',
+    'Share of servers declaring a protocol',
+  ),
+  rule(
+    'async-bindings/operation-missing',
+    'hint',
+    'Operation has no protocol bindings on itself, its channel or its messages',
+  ),
+  rule(
+    'async-bindings/operation-coverage',
+    'info',
+    'Share of operations with protocol bindings',
+  ),
+
+  // Validation
+  rule('validation/parse-error', 'error', 'Document is not valid JSON or YAML'),
+  rule('validation/reference-error', 'error', 'A $ref cannot be resolved'),
+  rule(
+    'validation/schema-error',
+    'error',
+    'Document does not conform to the OpenAPI schema',
+  ),
+  rule('validation/error', 'error', 'Document could not be validated'),
+  rule('validation/no-paths', 'warn', 'No paths are defined'),
+  rule(
+    'validation/missing-info-description',
+    'warn',
+    'API description is missing from the info object',
+  ),
+  rule('validation/missing-examples', 'warn', 'Responses are missing examples'),
+  rule('validation/no-security', 'warn', 'No security schemes are defined'),
+  rule(
+    'validation/openapi-version',
+    'hint',
+    'A newer OpenAPI version is available',
+  ),
+  rule(
+    'validation/json-schema-dialect',
+    'info',
+    'Schemas use a JSON Schema dialect other than the OpenAPI 3.1 default',
+  ),
+  rule(
+    'validation/asyncapi-version',
+    'error',
+    'The AsyncAPI version is not supported',
+  ),
+  rule(
+    'validation/asyncapi-error',
+    'error',
+    'Document does not conform to the AsyncAPI structure',
+  ),
+  rule('validation/no-channels', 'warn', 'No channels are defined'),
+];
+
+const rulesById = new Map(BUILTIN_RULES.map((r) => [r.id, r]));
+
+/**
+ * Look up a built-in rule by id
+ */
+export function getRule(id: string): RuleDefinition | undefined {
+  return rulesById.get(id);
+}
@@ -0,0 +1,201 @@
+import { isAbsolute, relative, sep } from 'node:path';
+import packageJson from '../../package.json';
+import type { Finding, Severity } from './findings';
+import type { ScoringResult } from './reporter';
+import { BUILTIN_RULES, getRule, type RuleDefinition } from './rules';
+import type { SuppressedFinding } from './suppressions';
+import type { ValidationResult } from './validator';
+
+export const SARIF_VERSION = '2.1.0';
+
+const SARIF_SCHEMA =
+  'https://docs.oasis-open.org/sarif/sarif/v2.1.0/errata01/os/schemas/sarif-schema-2.1.0.json';
+
+type SarifLevel = 'error' | 'warning' | 'note' | 'none';
+
+/**
+ * `tool.driver.rules` entry
+ */
+export interface SarifRule {
+  id: string;
+  shortDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties: { criterion: string };
+}
+
+/**
+ * A single SARIF result, one per finding
+ */
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  kind: 'fail' | 'informational';
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string };
+      region: { startLine: number; startColumn?: number };
+    };
+    logicalLocations?: Array<{ fullyQualifiedName: string; kind: string }>;
+  }>;
+  properties?: { pointer: string };
+  /** Present on findings suppressed in the document or by an ignore file */
+  suppressions?: Array<{
+    kind: 'inSource' | 'external';
+    justification?: string;
+  }>;
+}
+
+/**
+ * The subset of a SARIF 2.1.0 log produced by `report --format sarif`
+ */
+export interface SarifLog {
+  $schema: string;
+  version: typeof SARIF_VERSION;
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        version: string;
+        informationUri: string;
+        rules: SarifRule[];
+      };
+    };
+    results: SarifResult[];
+  }>;
+}
+
+const LEVELS: Record<Severity, SarifLevel> = {
+  error: 'error',
+  warn: 'warning',
+  hint: 'note',
+  info: 'none',
+};
+
+/**
+ * Artifact URI relative to `baseDir` with forward slashes; URLs are kept
+ */
+function toArtifactUri(file: string, baseDir: string): string {
+  if (/^https?:\/\//.test(file) || !isAbsolute(file)) {
+    return file.split(sep).join('/');
+  }
+  return relative(baseDir, file).split(sep).join('/');
+}
+
+function toSarifRule(rule: RuleDefinition): SarifRule {
+  return {
+    id: rule.id,
+    shortDescription: { text: rule.description },
+    defaultConfiguration: { level: LEVELS[rule.severity] },
+    properties: { criterion: rule.criterion },
+  };
+}
+
+/**
+ * Convert scoring findings, and optionally validation findings, to a SARIF log.
+ * Info findings are reported as `informational` results so code-scanning
+ * tools do not treat them as problems; suppressed findings carry a
+ * `suppressions` entry.
+ * @param result - Scoring result
+ * @param validation - Validation result for the same document
+ * @param baseDir - Directory artifact URIs are made relative to
+ */
+export function toSarifLog(
+  result: ScoringResult,
+  validation?: ValidationResult,
+  baseDir = process.cwd(),
+): SarifLog {
+  const findings: Array<Finding | SuppressedFinding> = [
+    ...(validation?.findings ?? []),
+    ...result.criteria.flatMap((criteria) => criteria.findings),
+    ...(result.suppressed ?? []),
+  ];
+
+  const rules = BUILTIN_RULES.map(toSarifRule);
+  const ruleIndexes = new Map(rules.map((rule, index) => [rule.id, index]));
+
+  // Plugin findings use rule ids that are not in the built-in catalogue
+  findings.forEach((finding) => {
+    if (ruleIndexes.has(finding.ruleId)) return;
+    ruleIndexes.set(finding.ruleId, rules.length);
+    rules.push(
+      toSarifRule(
+        getRule(finding.ruleId) ?? {
+          id: finding.ruleId,
+          criterion: finding.ruleId.split('/')[0] ?? finding.ruleId,
+          severity: finding.severity,
+          description: finding.message,
+        },
+      ),
+    );
+  });
+
+  const results = findings.map((finding): SarifResult => {
+    const location = finding.location;
+
+    return {
+      ruleId: finding.ruleId,
+      ruleIndex: ruleIndexes.get(finding.ruleId) ?? -1,
+      kind: finding.severity === 'info' ? 'informational' : 'fail',
+      level: LEVELS[finding.severity],
+      message: {
+        text: finding.suggestion
+          ? `${finding.message.replace(/\.?$/, '.')} ${finding.suggestion}`
+          : finding.message,
+      },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: {
+              uri: toArtifactUri(location?.file ?? result.source, baseDir),
+            },
+            region: location
+              ? { startLine: location.line, startColumn: location.column }
+              : { startLine: 1 },
+          },
+          ...(finding.target && {
+            logicalLocations: [
+              {
+                fullyQualifiedName: finding.target.name,
+                kind: finding.target.kind,
+              },
+            ],
+          }),
+        },
+      ],
+      ...(finding.pointer !== undefined && {
+        properties: { pointer: finding.pointer },
+      }),
+      ...('suppression' in finding && {
+        suppressions: [
+          {
+            kind:
+              finding.suppression.source === 'inline' ? 'inSource' : 'external',
+            ...(finding.suppression.reason && {
+              justification: finding.suppression.reason,
+            }),
+          },
+        ],
+      }),
+    };
+  });
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: SARIF_VERSION,
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'SpecScore',
+            version: packageJson.version,
+            informationUri: 'https://github.com/DhairyaMajmudar/SpecScore',
+            rules,
+          },
+        },
+        results,
+      },
+    ],
+  };
+}
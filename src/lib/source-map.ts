@@ -0,0 +1,162 @@
+import {
+  type Document,
+  isAlias,
+  isMap,
+  isScalar,
+  isSeq,
+  LineCounter,
+  type Node,
+  parseDocument,
+} from 'yaml';
+import { parsePointer, splitRef, toPointer } from './pointer';
+
+/**
+ * Position of a node in a source file; line and column are 1-based
+ */
+export interface SourceLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+interface SourceFile {
+  document: Document.Parsed;
+  lineCounter: LineCounter;
+}
+
+const MAX_REF_HOPS = 32;
+
+/**
+ * Format a location as a clickable `file:line:col` reference
+ */
+export function formatLocation(location: SourceLocation): string {
+  return `${location.file}:${location.line}:${location.column}`;
+}
+
+/**
+ * Maps JSON Pointers to positions in the files a specification was read from.
+ * Pointers that pass through a `$ref` continue in the referenced file.
+ */
+export class SourceMap {
+  private files = new Map<string, SourceFile>();
+  private aliases: Array<[string, string]> = [];
+
+  constructor(readonly rootFile: string) {}
+
+  /**
+   * Locate pointers below `pointer` in the root file at `original` instead,
+   * for documents that were converted before scoring
+   */
+  addAlias(pointer: string, original: string): void {
+    this.aliases.push([pointer, original]);
+  }
+
+  /**
+   * Rewrite the longest aliased prefix of a root file pointer
+   */
+  private unalias(pointer: string): string {
+    let best: [string, string] | undefined;
+    for (const alias of this.aliases) {
+      const [prefix] = alias;
+      if (
+        (pointer === prefix || pointer.startsWith(`${prefix}/`)) &&
+        prefix.length > (best?.[0].length ?? -1)
+      ) {
+        best = alias;
+      }
+    }
+    return best ? `${best[1]}${pointer.slice(best[0].length)}` : pointer;
+  }
+
+  /**
+   * Register the raw content of a file so its positions can be looked up
+   */
+  addFile(file: string, content: string): void {
+    const lineCounter = new LineCounter();
+    const document = parseDocument(content, {
+      lineCounter,
+      uniqueKeys: false,
+    });
+    this.files.set(file, { document, lineCounter });
+  }
+
+  hasFile(file: string): boolean {
+    return this.files.has(file);
+  }
+
+  /**
+   * Every file registered with the map, root file first
+   */
+  get fileNames(): string[] {
+    return [...this.files.keys()];
+  }
+
+  /**
+   * Find the position of the node a JSON Pointer refers to. When the pointer
+   * goes deeper than the document, the closest existing ancestor is returned.
+   * @param pointer - JSON Pointer relative to `file`
+   * @param file - File the pointer applies to, the root file by default
+   */
+  locate(
+    pointer: string,
+    file: string = this.rootFile,
+    hops = 0,
+  ): SourceLocation | undefined {
+    const source = this.files.get(file);
+    if (!source) return undefined;
+
+    const segments = parsePointer(
+      file === this.rootFile && hops === 0 ? this.unalias(pointer) : pointer,
+    );
+    let node: unknown = source.document.contents;
+    let offset = (node as Node | null)?.range?.[0] ?? 0;
+
+    for (let index = 0; index < segments.length; index++) {
+      const segment = segments[index] as string;
+      if (isAlias(node)) {
+        node = node.resolve(source.document);
+      }
+
+      if (isMap(node)) {
+        const pair = node.items.find(
+          (item) => isScalar(item.key) && String(item.key.value) === segment,
+        );
+
+        if (!pair) {
+          const ref = node.get('$ref');
+          if (typeof ref === 'string' && hops < MAX_REF_HOPS) {
+            const target = splitRef(ref, file);
+            const rest = toPointer(segments.slice(index));
+            return (
+              this.locate(`${target.pointer}${rest}`, target.file, hops + 1) ??
+              this.position(source, file, offset)
+            );
+          }
+          break;
+        }
+
+        offset = (pair.key as Node).range?.[0] ?? offset;
+        node = pair.value;
+      } else if (isSeq(node)) {
+        const item = node.items[Number(segment)] as Node | undefined;
+        if (!item) break;
+
+        offset = item.range?.[0] ?? offset;
+        node = item;
+      } else {
+        break;
+      }
+    }
+
+    return this.position(source, file, offset);
+  }
+
+  private position(
+    source: SourceFile,
+    file: string,
+    offset: number,
+  ): SourceLocation {
+    const { line, col } = source.lineCounter.linePos(offset);
+    return { file, line, column: col };
+  }
+}
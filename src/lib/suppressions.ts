@@ -0,0 +1,197 @@
+import { readFile } from 'node:fs/promises';
+import { load } from 'js-yaml';
+import type { SpecDocument } from './asyncapi';
+import { findUp } from './config';
+import type { Finding } from './findings';
+import { parsePointer, toPointer } from './pointer';
+
+/**
+ * Vendor extension listing the rules to ignore for a node and its children
+ */
+export const IGNORE_EXTENSION = 'x-specscore-ignore';
+
+export const IGNORE_FILE_NAME = '.specscoreignore';
+
+/**
+ * A rule that is ignored for a node of the document and everything below it
+ */
+export interface Suppression {
+  /** Rule id, `criterion/*` or `*` */
+  rule: string;
+  /** JSON Pointer of the node; an empty string is the whole document */
+  pointer: string;
+  /** Justification shown in reports */
+  reason?: string;
+  /** `inline` for `x-specscore-ignore`, otherwise the path of the ignore file */
+  source: string;
+}
+
+/**
+ * A finding that was left out of the score by a suppression
+ */
+export interface SuppressedFinding extends Finding {
+  suppression: Suppression;
+}
+
+type SuppressionItem = string | { rule?: unknown; reason?: unknown };
+
+/**
+ * Parse a list of rule ids or `{ rule, reason }` objects
+ * @throws Error when an item has no rule id
+ */
+function parseItems(
+  value: unknown,
+  pointer: string,
+  source: string,
+): Suppression[] {
+  const items: SuppressionItem[] = Array.isArray(value) ? value : [value];
+
+  return items.map((item) => {
+    const rule = typeof item === 'string' ? item : item?.rule;
+    if (typeof rule !== 'string' || !rule) {
+      throw new Error(
+        `Invalid suppression at "${pointer || '/'}" in ${source}: expected a rule id or { rule, reason }`,
+      );
+    }
+
+    const reason =
+      typeof item === 'object' && typeof item.reason === 'string'
+        ? item.reason
+        : undefined;
+    return { rule, pointer, source, ...(reason && { reason }) };
+  });
+}
+
+/**
+ * Collect every `x-specscore-ignore` in a document. The resolver shares one
+ * object between every `$ref` to the same target, so a node is only skipped
+ * when it is already on the current path, i.e. for a cycle.
+ */
+function collectInline(
+  node: unknown,
+  segments: string[],
+  entries: Suppression[],
+  ancestors: Set<object>,
+): void {
+  if (!node || typeof node !== 'object' || ancestors.has(node)) return;
+  ancestors.add(node);
+
+  Object.entries(node).forEach(([key, value]) => {
+    if (key === IGNORE_EXTENSION) {
+      entries.push(...parseItems(value, toPointer(segments), 'inline'));
+    } else {
+      collectInline(value, [...segments, key], entries, ancestors);
+    }
+  });
+
+  ancestors.delete(node);
+}
+
+const matchesRule = (pattern: string, ruleId: string) =>
+  pattern === '*' ||
+  pattern === ruleId ||
+  (pattern.endsWith('/*') && ruleId.startsWith(pattern.slice(0, -1)));
+
+const matchesPointer = (scope: string, pointer: string) =>
+  scope === '' || pointer === scope || pointer.startsWith(`${scope}/`);
+
+/**
+ * The suppressions that apply to one document
+ */
+export class Suppressions {
+  constructor(readonly entries: Suppression[] = []) {}
+
+  /**
+   * Combine the document's `x-specscore-ignore` extensions with entries from
+   * an ignore file
+   */
+  static fromDocument(
+    document: SpecDocument,
+    fileEntries: Suppression[] = [],
+  ): Suppressions {
+    const entries: Suppression[] = [];
+    collectInline(document, [], entries, new Set());
+    return new Suppressions([...entries, ...fileEntries]);
+  }
+
+  /**
+   * Suppression covering a rule at a pointer. Findings without a pointer are
+   * only covered by document-level suppressions.
+   */
+  find(ruleId: string, pointer = ''): Suppression | undefined {
+    return this.entries.find(
+      (entry) =>
+        matchesRule(entry.rule, ruleId) &&
+        matchesPointer(entry.pointer, pointer),
+    );
+  }
+
+  isSuppressed(ruleId: string, pointer?: string): boolean {
+    return !!this.find(ruleId, pointer);
+  }
+
+  /**
+   * Split findings into the ones that count and the suppressed ones
+   */
+  partition(findings: Finding[]): {
+    findings: Finding[];
+    suppressed: SuppressedFinding[];
+  } {
+    const kept: Finding[] = [];
+    const suppressed: SuppressedFinding[] = [];
+
+    findings.forEach((finding) => {
+      const suppression = this.find(finding.ruleId, finding.pointer);
+      if (suppression) {
+        suppressed.push({ ...finding, suppression });
+      } else {
+        kept.push(finding);
+      }
+    });
+
+    return { findings: kept, suppressed };
+  }
+}
+
+/**
+ * Looks for a `.specscoreignore` file in the given directory and its parents
+ */
+export async function findIgnoreFile(
+  cwd: string = process.cwd(),
+): Promise<string | undefined> {
+  return findUp([IGNORE_FILE_NAME], cwd);
+}
+
+/**
+ * Load an ignore file: a JSON or YAML map from JSON Pointer to the rules
+ * ignored below it, e.g. `/paths/~1health/get: [security/operation-unprotected]`.
+ * `/` applies to the whole document.
+ * @param filePath - Path to the ignore file
+ */
+export async function loadIgnoreFile(filePath: string): Promise<Suppression[]> {
+  let content: unknown;
+  try {
+    content = load(await readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to load ignore file ${filePath}: ${
+        error instanceof Error ? error.message : error
+      }`,
+    );
+  }
+
+  if (content === undefined || content === null) return [];
+  if (typeof content !== 'object' || Array.isArray(content)) {
+    throw new Error(
+      `Invalid ignore file ${filePath}: expected a map of JSON Pointers to rule ids`,
+    );
+  }
+
+  return Object.entries(content).flatMap(([pointer, value]) =>
+    parseItems(
+      value,
+      pointer === '/' ? '' : toPointer(parsePointer(pointer)),
+      filePath,
+    ),
+  );
+}
@@ -0,0 +1,674 @@
+import type { OpenAPIV2, OpenAPIV3 } from 'openapi-types';
+import { HTTP_METHODS } from './breakdown';
+import { operationPointer, parsePointer, toPointer } from './pointer';
+
+/**
+ * OpenAPI version Swagger 2.0 documents are upgraded to
+ */
+export const UPGRADED_OPENAPI_VERSION = '3.0.3';
+
+/**
+ * Describes how an input document was upgraded before scoring
+ */
+export interface SpecConversion {
+  /** Version of the input document, e.g. `2.0` */
+  from: string;
+  /** OpenAPI version it was converted to */
+  to: string;
+  /** Parts of the input that could not be converted exactly */
+  warnings: string[];
+}
+
+/**
+ * Result of converting a Swagger 2.0 document
+ */
+export interface ConvertedSpec {
+  document: OpenAPIV3.Document;
+  conversion: SpecConversion;
+  /**
+   * Pairs of `[pointer in the converted document, pointer in the input]` for
+   * nodes that moved, e.g. `/components/schemas` → `/definitions`
+   */
+  pointers: Array<[string, string]>;
+}
+
+type Parameter = OpenAPIV2.Parameter | OpenAPIV2.ReferenceObject;
+type RequestBody = OpenAPIV3.RequestBodyObject | OpenAPIV3.ReferenceObject;
+
+const LOCAL_REFS: Array<[string, string]> = [
+  ['#/definitions/', '#/components/schemas/'],
+  ['#/parameters/', '#/components/parameters/'],
+  ['#/responses/', '#/components/responses/'],
+];
+
+const FORM_MEDIA_TYPES = [
+  'application/x-www-form-urlencoded',
+  'multipart/form-data',
+];
+
+/**
+ * Whether a parsed document is a Swagger 2.0 document
+ */
+export function isSwagger2(value: unknown): value is OpenAPIV2.Document {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    'swagger' in value &&
+    String(value.swagger).startsWith('2')
+  );
+}
+
+/**
+ * Rewrite a local `$ref` to its OpenAPI 3 location; references into other
+ * files are kept as they are
+ */
+function convertRef(ref: string): string {
+  const match = LOCAL_REFS.find(([from]) => ref.startsWith(from));
+  return match ? `${match[1]}${ref.slice(match[0].length)}` : ref;
+}
+
+/**
+ * Copy the `x-` extensions of an object
+ */
+function extensionsOf(value: object): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([key]) => key.startsWith('x-')),
+  );
+}
+
+class Swagger2Converter {
+  readonly warnings: string[] = [];
+  readonly pointers: Array<[string, string]> = [];
+
+  constructor(private input: OpenAPIV2.Document) {}
+
+  convert(): OpenAPIV3.Document {
+    const { input } = this;
+    const servers = this.convertServers();
+    const components = this.convertComponents();
+
+    const paths: OpenAPIV3.PathsObject = {};
+    Object.entries(input.paths ?? {}).forEach(([path, pathItem]) => {
+      paths[path] = this.convertPathItem(path, pathItem);
+    });
+
+    return {
+      ...extensionsOf(input),
+      openapi: UPGRADED_OPENAPI_VERSION,
+      info: input.info as OpenAPIV3.InfoObject,
+      ...(servers.length > 0 && { servers }),
+      ...(input.tags && { tags: input.tags }),
+      ...(input.externalDocs && { externalDocs: input.externalDocs }),
+      ...(input.security && { security: input.security }),
+      paths,
+      ...(Object.keys(components).length > 0 && { components }),
+    };
+  }
+
+  private alias(pointer: string, original: string): void {
+    if (pointer !== original) {
+      this.pointers.push([pointer, original]);
+    }
+  }
+
+  private convertServers(): OpenAPIV3.ServerObject[] {
+    const { host, basePath = '', schemes } = this.input;
+
+    if (!host) {
+      if (basePath) this.alias('/servers', '/basePath');
+      return basePath ? [{ url: basePath }] : [];
+    }
+
+    if (!schemes?.length) {
+      this.warnings.push(
+        `No schemes defined for host "${host}"; assumed https for the server URL`,
+      );
+    }
+    this.alias('/servers', '/host');
+    return (schemes?.length ? schemes : ['https']).map((scheme) => ({
+      url: `${scheme}://${host}${basePath}`,
+    }));
+  }
+
+  private convertComponents(): OpenAPIV3.ComponentsObject {
+    const { definitions, parameters, responses, securityDefinitions } =
+      this.input;
+    const components: OpenAPIV3.ComponentsObject = {};
+
+    if (definitions) {
+      components.schemas = Object.fromEntries(
+        Object.entries(definitions).map(([name, schema]) => [
+          name,
+          this.convertSchema(schema) as OpenAPIV3.SchemaObject,
+        ]),
+      );
+      this.alias('/components/schemas', '/definitions');
+    }
+
+    Object.entries(parameters ?? {}).forEach(([name, parameter]) => {
+      if (parameter.in === 'body') {
+        components.requestBodies = {
+          ...components.requestBodies,
+          [name]: this.convertBody(
+            parameter as OpenAPIV2.InBodyParameterObject,
+            this.input.consumes,
+          ),
+        };
+        this.alias(
+          toPointer(['components', 'requestBodies', name]),
+          toPointer(['parameters', name]),
+        );
+      } else if (parameter.in !== 'formData') {
+        // formData parameters are inlined into the request bodies using them
+        components.parameters = {
+          ...components.parameters,
+          [name]: this.convertParameter(
+            parameter as OpenAPIV2.GeneralParameterObject,
+            `parameter "${name}"`,
+          ),
+        };
+      }
+    });
+    if (components.parameters) {
+      this.alias('/components/parameters', '/parameters');
+    }
+
+    if (responses) {
+      components.responses = Object.fromEntries(
+        Object.entries(responses).map(([name, response]) => [
+          name,
+          this.convertResponse(
+            response,
+            this.input.produces,
+          ) as OpenAPIV3.ResponseObject,
+        ]),
+      );
+      this.alias('/components/responses', '/responses');
+    }
+
+    if (securityDefinitions) {
+      components.securitySchemes = Object.fromEntries(
+        Object.entries(securityDefinitions).map(([name, scheme]) => [
+          name,
+          this.convertSecurityScheme(scheme),
+        ]),
+      );
+      this.alias('/components/securitySchemes', '/securityDefinitions');
+    }
+
+    return components;
+  }
+
+  private convertPathItem(
+    path: string,
+    pathItem: OpenAPIV2.PathItemObject,
+  ): OpenAPIV3.PathItemObject {
+    const { parameters = [], ...rest } = pathItem;
+    const shared = this.convertParameters(
+      parameters,
+      toPointer(['paths', path]),
+      `Path ${path}`,
+      this.input.consumes,
+    );
+    const converted: { parameters?: unknown; [key: string]: unknown } = {};
+
+    Object.entries(rest).forEach(([key, value]) => {
+      const method = HTTP_METHODS.find((m) => m === key);
+      converted[key] =
+        method && value
+          ? this.convertOperation(
+              path,
+              method,
+              value as OpenAPIV2.OperationObject,
+              shared.requestBody,
+            )
+          : value;
+    });
+
+    if (shared.parameters.length > 0) {
+      converted.parameters = shared.parameters;
+    }
+
+    return converted as OpenAPIV3.PathItemObject;
+  }
+
+  private convertOperation(
+    path: string,
+    method: string,
+    operation: OpenAPIV2.OperationObject,
+    pathRequestBody: RequestBody | undefined,
+  ): OpenAPIV3.OperationObject {
+    const label = `${method.toUpperCase()} ${path}`;
+    const pointer = operationPointer(path, method);
+    const {
+      consumes = this.input.consumes,
+      produces = this.input.produces,
+      parameters = [],
+      responses,
+      schemes,
+      ...rest
+    } = operation;
+
+    if (schemes) {
+      this.warnings.push(
+        `${label}: per-operation schemes have no OpenAPI 3 equivalent and were dropped`,
+      );
+    }
+
+    const converted = this.convertParameters(
+      parameters,
+      pointer,
+      label,
+      consumes,
+    );
+    // A body declared on the path item applies when the operation has none
+    const requestBody = converted.requestBody ?? pathRequestBody;
+
+    return {
+      ...rest,
+      ...(converted.parameters.length > 0 && {
+        parameters: converted.parameters,
+      }),
+      ...(requestBody && { requestBody }),
+      responses: Object.fromEntries(
+        Object.entries(responses ?? {}).map(([code, response]) => [
+          code,
+          this.convertResponse(response, produces),
+        ]),
+      ),
+    } as OpenAPIV3.OperationObject;
+  }
+
+  /**
+   * Split Swagger parameters into OpenAPI 3 parameters and a request body
+   * built from the `body` or `formData` parameters
+   */
+  private convertParameters(
+    parameters: OpenAPIV2.Parameters,
+    pointer: string,
+    label: string,
+    consumes: string[] | undefined,
+  ): {
+    parameters: Array<OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject>;
+    requestBody?: RequestBody;
+  } {
+    const converted: Array<
+      OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject
+    > = [];
+    const formFields: OpenAPIV2.GeneralParameterObject[] = [];
+    let requestBody: RequestBody | undefined;
+
+    parameters.forEach((item: Parameter, index) => {
+      const original = `${pointer}/parameters/${index}`;
+      let parameter: Parameter | OpenAPIV2.ParameterObject = item;
+
+      if ('$ref' in item && typeof item.$ref === 'string') {
+        const [section, name] = parsePointer(item.$ref);
+        const shared =
+          section === 'parameters' && name !== undefined
+            ? this.input.parameters?.[name]
+            : undefined;
+
+        if (shared?.in === 'body') {
+          requestBody = {
+            $ref: `#/components/requestBodies/${item.$ref.slice('#/parameters/'.length)}`,
+          };
+          this.alias(`${pointer}/requestBody`, original);
+          return;
+        }
+        if (shared?.in !== 'formData') {
+          this.alias(`${pointer}/parameters/${converted.length}`, original);
+          converted.push({ $ref: convertRef(item.$ref) });
+          return;
+        }
+        parameter = shared;
+      }
+
+      const param = parameter as OpenAPIV2.Parameter;
+      if (param.in === 'body') {
+        requestBody = this.convertBody(
+          param as OpenAPIV2.InBodyParameterObject,
+          consumes,
+        );
+        this.alias(`${pointer}/requestBody`, original);
+      } else if (param.in === 'formData') {
+        if (formFields.length === 0) {
+          this.alias(`${pointer}/requestBody`, original);
+        }
+        formFields.push(param as OpenAPIV2.GeneralParameterObject);
+      } else {
+        this.alias(`${pointer}/parameters/${converted.length}`, original);
+        converted.push(
+          this.convertParameter(
+            param as OpenAPIV2.GeneralParameterObject,
+            `${label}: parameter "${param.name}"`,
+          ),
+        );
+      }
+    });
+
+    if (formFields.length > 0) {
+      requestBody = this.convertFormData(formFields, consumes);
+    }
+
+    return { parameters: converted, ...(requestBody && { requestBody }) };
+  }
+
+  /**
+   * Split a non-body parameter into its own fields and its schema
+   */
+  private splitParameter(parameter: OpenAPIV2.GeneralParameterObject): {
+    schema: OpenAPIV3.SchemaObject;
+    extensions: Record<string, unknown>;
+  } {
+    const {
+      name: _name,
+      in: _in,
+      description: _description,
+      required: _required,
+      allowEmptyValue: _allowEmptyValue,
+      collectionFormat: _collectionFormat,
+      ...schema
+    } = parameter;
+    const extensions = extensionsOf(schema);
+
+    return {
+      schema: this.convertSchema(
+        Object.fromEntries(
+          Object.entries(schema).filter(([key]) => !key.startsWith('x-')),
+        ),
+      ) as OpenAPIV3.SchemaObject,
+      extensions,
+    };
+  }
+
+  private convertParameter(
+    parameter: OpenAPIV2.GeneralParameterObject,
+    label: string,
+  ): OpenAPIV3.ParameterObject {
+    const { schema, extensions } = this.splitParameter(parameter);
+
+    return {
+      name: parameter.name,
+      in: parameter.in,
+      ...(parameter.description !== undefined && {
+        description: parameter.description,
+      }),
+      ...(parameter.required !== undefined && {
+        required: parameter.required,
+      }),
+      ...(parameter.allowEmptyValue !== undefined && {
+        allowEmptyValue: parameter.allowEmptyValue,
+      }),
+      ...(schema.type === 'array' &&
+        this.convertCollectionFormat(
+          parameter.collectionFormat,
+          parameter.in,
+          label,
+        )),
+      schema,
+      ...extensions,
+    };
+  }
+
+  /**
+   * Map `collectionFormat` to the equivalent `style` and `explode`
+   */
+  private convertCollectionFormat(
+    collectionFormat: string | undefined,
+    location: string,
+    label: string,
+  ): Pick<OpenAPIV3.ParameterObject, 'style' | 'explode'> {
+    switch (collectionFormat ?? 'csv') {
+      case 'multi':
+        return { style: 'form', explode: true };
+      case 'ssv':
+        return { style: 'spaceDelimited', explode: false };
+      case 'pipes':
+        return { style: 'pipeDelimited', explode: false };
+      case 'csv':
+        return location === 'query' ? { style: 'form', explode: false } : {};
+      default:
+        this.warnings.push(
+          `${label}: collectionFormat "${collectionFormat}" has no OpenAPI 3 equivalent`,
+        );
+        return {};
+    }
+  }
+
+  private convertBody(
+    parameter: OpenAPIV2.InBodyParameterObject,
+    consumes: string[] | undefined,
+  ): OpenAPIV3.RequestBodyObject {
+    const schema = this.convertSchema(parameter.schema);
+
+    return {
+      ...(parameter.description !== undefined && {
+        description: parameter.description,
+      }),
+      content: Object.fromEntries(
+        (consumes?.length ? consumes : ['application/json']).map(
+          (mediaType) => [mediaType, { schema }],
+        ),
+      ),
+      ...(parameter.required !== undefined && {
+        required: parameter.required,
+      }),
+      ...extensionsOf(parameter),
+    } as OpenAPIV3.RequestBodyObject;
+  }
+
+  /**
+   * Combine `formData` parameters into a form request body
+   */
+  private convertFormData(
+    fields: OpenAPIV2.GeneralParameterObject[],
+    consumes: string[] | undefined,
+  ): OpenAPIV3.RequestBodyObject {
+    const formTypes = (consumes ?? []).filter((mediaType) =>
+      FORM_MEDIA_TYPES.includes(mediaType),
+    );
+    const hasFile = fields.some((field) => field.type === 'file');
+    const mediaTypes =
+      formTypes.length > 0
+        ? formTypes
+        : [hasFile ? 'multipart/form-data' : FORM_MEDIA_TYPES[0]];
+    const required = fields
+      .filter((field) => field.required)
+      .map((field) => field.name);
+
+    const schema: OpenAPIV3.SchemaObject = {
+      type: 'object',
+      properties: Object.fromEntries(
+        fields.map((field) => [
+          field.name,
+          {
+            ...(field.description !== undefined && {
+              description: field.description,
+            }),
+            ...this.splitParameter(field).schema,
+          },
+        ]),
+      ),
+      ...(required.length > 0 && { required }),
+    };
+
+    return {
+      content: Object.fromEntries(
+        mediaTypes.map((mediaType) => [mediaType, { schema }]),
+      ),
+      ...(required.length > 0 && { required: true }),
+    };
+  }
+
+  private convertResponse(
+    response: OpenAPIV2.Response | undefined,
+    produces: string[] | undefined,
+  ): OpenAPIV3.ResponseObject | OpenAPIV3.ReferenceObject {
+    if (!response) {
+      return { description: '' };
+    }
+    if ('$ref' in response) {
+      return { $ref: convertRef(response.$ref) };
+    }
+
+    const { description, schema, headers, examples, ...rest } = response;
+    const mediaTypes = [
+      ...new Set([
+        ...(produces?.length ? produces : ['application/json']),
+        ...Object.keys(examples ?? {}),
+      ]),
+    ];
+
+    return {
+      description,
+      ...(headers && {
+        headers: Object.fromEntries(
+          Object.entries(headers).map(([name, header]) => {
+            const { description: headerDescription, ...headerSchema } = header;
+            return [
+              name,
+              {
+                ...(headerDescription !== undefined && {
+                  description: headerDescription,
+                }),
+                schema: this.convertSchema(
+                  headerSchema,
+                ) as OpenAPIV3.SchemaObject,
+              },
+            ];
+          }),
+        ),
+      }),
+      ...(schema && {
+        content: Object.fromEntries(
+          mediaTypes.map((mediaType) => [
+            mediaType,
+            {
+              schema: this.convertSchema(schema) as OpenAPIV3.SchemaObject,
+              ...(examples?.[mediaType] !== undefined && {
+                example: examples[mediaType],
+              }),
+            },
+          ]),
+        ),
+      }),
+      ...extensionsOf(rest),
+    };
+  }
+
+  private convertSecurityScheme(
+    scheme: OpenAPIV2.SecuritySchemeObject,
+  ): OpenAPIV3.SecuritySchemeObject {
+    const common = {
+      ...(scheme.description !== undefined && {
+        description: scheme.description,
+      }),
+      ...extensionsOf(scheme),
+    };
+
+    switch (scheme.type) {
+      case 'basic':
+        return { type: 'http', scheme: 'basic', ...common };
+      case 'apiKey':
+        return {
+          type: 'apiKey',
+          name: scheme.name,
+          in: scheme.in,
+          ...common,
+        };
+      default: {
+        const { scopes } = scheme;
+        const flows: OpenAPIV3.OAuth2SecurityScheme['flows'] = {};
+        if (scheme.flow === 'implicit') {
+          flows.implicit = {
+            authorizationUrl: scheme.authorizationUrl,
+            scopes,
+          };
+        } else if (scheme.flow === 'password') {
+          flows.password = { tokenUrl: scheme.tokenUrl, scopes };
+        } else if (scheme.flow === 'application') {
+          flows.clientCredentials = { tokenUrl: scheme.tokenUrl, scopes };
+        } else {
+          flows.authorizationCode = {
+            authorizationUrl: scheme.authorizationUrl,
+            tokenUrl: scheme.tokenUrl,
+            scopes,
+          };
+        }
+        return { type: 'oauth2', flows, ...common };
+      }
+    }
+  }
+
+  /**
+   * Convert a Swagger schema: rewrite local `$ref`s, `x-nullable`, string
+   * discriminators and `type: file`
+   */
+  private convertSchema(schema: unknown): unknown {
+    if (Array.isArray(schema)) {
+      return schema.map((item) => this.convertSchema(item));
+    }
+    if (!schema || typeof schema !== 'object') {
+      return schema;
+    }
+
+    const converted: {
+      type?: unknown;
+      format?: unknown;
+      nullable?: unknown;
+      [key: string]: unknown;
+    } = {};
+    Object.entries(schema).forEach(([key, value]) => {
+      if (key === '$ref' && typeof value === 'string') {
+        converted[key] = convertRef(value);
+      } else if (key === 'x-nullable') {
+        converted.nullable = value;
+      } else if (key === 'discriminator' && typeof value === 'string') {
+        converted[key] = { propertyName: value };
+      } else if (key === 'collectionFormat') {
+        // only meaningful on parameters, handled by convertParameter
+      } else if (key === 'example' || key === 'default' || key === 'enum') {
+        converted[key] = value;
+      } else if (key === 'properties' && value && typeof value === 'object') {
+        // Property names are not keywords, e.g. a property named `default`
+        converted[key] = Object.fromEntries(
+          Object.entries(value).map(([name, property]) => [
+            name,
+            this.convertSchema(property),
+          ]),
+        );
+      } else {
+        converted[key] = this.convertSchema(value);
+      }
+    });
+
+    if (converted.type === 'file') {
+      converted.type = 'string';
+      converted.format = 'binary';
+    }
+
+    return converted;
+  }
+}
+
+/**
+ * Convert a Swagger 2.0 document to an equivalent OpenAPI 3.0 document.
+ * Definitions, parameters, body and form parameters, consumes/produces,
+ * responses and security definitions are converted; anything without an
+ * exact equivalent is listed in `conversion.warnings`.
+ */
+export function convertSwagger2(input: OpenAPIV2.Document): ConvertedSpec {
+  const converter = new Swagger2Converter(input);
+  const document = converter.convert();
+
+  return {
+    document,
+    conversion: {
+      from: String(input.swagger),
+      to: UPGRADED_OPENAPI_VERSION,
+      warnings: converter.warnings,
+    },
+    pointers: converter.pointers,
+  };
+}
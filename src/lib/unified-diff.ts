@@ -0,0 +1,131 @@
+/**
+ * Lines of context shown around each change
+ */
+const CONTEXT_LINES = 3;
+
+type Edit = { kind: 'equal' | 'delete' | 'insert'; line: string };
+
+const splitLines = (text: string) =>
+  text === '' ? [] : text.replace(/\n$/, '').split('\n');
+
+/**
+ * Shortest edit script between two lists of lines (Myers' algorithm)
+ */
+function diffLines(a: string[], b: string[]): Edit[] {
+  const max = a.length + b.length;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 2).fill(0);
+  const trace: number[][] = [];
+
+  search: for (let d = 0; d <= max; d++) {
+    trace.push([...v]);
+    for (let k = -d; k <= d; k += 2) {
+      const down =
+        k === -d ||
+        (k !== d && (v[offset + k - 1] ?? 0) < (v[offset + k + 1] ?? 0));
+      let x = down ? (v[offset + k + 1] ?? 0) : (v[offset + k - 1] ?? 0) + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= a.length && y >= b.length) break search;
+    }
+  }
+
+  // Walk the trace back from the end to recover the edits
+  const edits: Edit[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const row = trace[d] as number[];
+    const k = x - y;
+    const down =
+      k === -d ||
+      (k !== d && (row[offset + k - 1] ?? 0) < (row[offset + k + 1] ?? 0));
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = row[offset + prevK] ?? 0;
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push({ kind: 'equal', line: a[--x] as string });
+      y--;
+    }
+    if (d > 0) {
+      edits.push(
+        down
+          ? { kind: 'insert', line: b[--y] as string }
+          : { kind: 'delete', line: a[--x] as string },
+      );
+    }
+  }
+
+  return edits.reverse();
+}
+
+/**
+ * Format the changes between two texts as a unified diff, as `diff -u` and
+ * `git diff` print it
+ * @param before - Original text
+ * @param after - Changed text
+ * @param file - Name shown in the `---`/`+++` header
+ * @returns An empty string when the texts are equal
+ */
+export function formatUnifiedDiff(
+  before: string,
+  after: string,
+  file: string,
+): string {
+  if (before === after) return '';
+
+  const edits = diffLines(splitLines(before), splitLines(after));
+  const lines = [`--- a/${file}`, `+++ b/${file}`];
+
+  let index = 0;
+  while (index < edits.length) {
+    // Find the next change and the hunk around it
+    const firstChange = edits.findIndex(
+      (edit, i) => i >= index && edit.kind !== 'equal',
+    );
+    if (firstChange === -1) break;
+
+    const start = Math.max(index, firstChange - CONTEXT_LINES);
+    let end = firstChange;
+    let unchanged = 0;
+    for (let i = firstChange; i < edits.length; i++) {
+      if (edits[i]?.kind === 'equal') {
+        unchanged++;
+        if (unchanged > CONTEXT_LINES * 2) break;
+      } else {
+        unchanged = 0;
+        end = i;
+      }
+    }
+    end = Math.min(edits.length, end + CONTEXT_LINES + 1);
+
+    // Line numbers are 1-based positions in the original and changed text
+    let oldLine = 1;
+    let newLine = 1;
+    edits.slice(0, start).forEach((edit) => {
+      if (edit.kind !== 'insert') oldLine++;
+      if (edit.kind !== 'delete') newLine++;
+    });
+    const hunk = edits.slice(start, end);
+    const oldCount = hunk.filter((edit) => edit.kind !== 'insert').length;
+    const newCount = hunk.filter((edit) => edit.kind !== 'delete').length;
+
+    lines.push(
+      `@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${
+        newCount === 0 ? newLine - 1 : newLine
+      },${newCount} @@`,
+      ...hunk.map(
+        (edit) =>
+          `${edit.kind === 'equal' ? ' ' : edit.kind === 'delete' ? '-' : '+'}${edit.line}`,
+      ),
+    );
+    index = end;
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -1,41 +1,93 @@
 import SwaggerParser from '@apidevtools/swagger-parser';
 import chalk from 'chalk';
 import consola from 'consola';
-import type { OpenAPIV3 } from 'openapi-types';
-import { OpenAPIParser } from './parser';
+import type { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
+import {
+  type AsyncAPIDocument,
+  asyncAPIMajorVersion,
+  getAsyncMessages,
+  getAsyncOperations,
+  isAsyncAPI,
+  type SpecDocument,
+  SUPPORTED_ASYNCAPI_VERSIONS,
+  specFormat,
+  specVersion,
+} from './asyncapi';
+import type { Finding } from './findings';
+import {
+  collectSchemas,
+  getPathItems,
+  getWebhooks,
+  hasMediaTypeExample,
+  isOpenAPI31,
+  OAS_BASE_DIALECT,
+} from './openapi';
+import { OpenAPIParser, type ParsedSpec, SpecParseError } from './parser';
+import { toPointer } from './pointer';
+import { logProgress, type ProgressListener } from './progress';
+import { resolveRefs } from './resolver';
+import { getRule } from './rules';
+import { formatLocation, type SourceMap } from './source-map';
+import type { SpecConversion } from './swagger2';
 
 /**
  * Validation result interface containing the parsed document and any validation errors
  */
 export interface ValidationResult {
   isValid: boolean;
-  document?: OpenAPIV3.Document;
+  /** The validated OpenAPI or AsyncAPI document */
+  document?: SpecDocument;
   errors: string[];
   warnings: string[];
+  /** Errors and warnings as structured findings with source locations */
+  findings: Finding[];
+  /** Set when the input was upgraded, e.g. from Swagger 2.0 */
+  conversion?: SpecConversion;
   stats?: {
     paths: number;
     operations: number;
     schemas: number;
     parameters: number;
+    /** OpenAPI 3.1 webhooks, when the document defines any */
+    webhooks?: number;
+    /** AsyncAPI channels and messages; `paths` is 0 for AsyncAPI documents */
+    channels?: number;
+    messages?: number;
   };
 }
 
+/**
+ * Options accepted by the OpenAPIValidator constructor
+ */
+export interface ValidatorOptions {
+  /** Pause between steps like the interactive CLI does (default: true) */
+  delays?: boolean;
+  /** Receives every step of a run; logs through consola by default */
+  onProgress?: ProgressListener;
+}
+
 /**
  * OpenAPI validator that uses swagger-parser for comprehensive validation
  * Validates structure, references, and schema compliance
  */
 export class OpenAPIValidator {
   private parser: OpenAPIParser;
+  private delays: boolean;
+  private onProgress: ProgressListener;
 
-  constructor() {
+  constructor(options: ValidatorOptions = {}) {
     this.parser = new OpenAPIParser();
+    this.delays = options.delays ?? true;
+    this.onProgress = options.onProgress ?? logProgress;
   }
 
   /**
    * Helper function to add realistic delays between validation steps
    */
   private delay = (ms: number) =>
-    new Promise((resolve) => setTimeout(resolve, ms));
+    this.delays
+      ? new Promise((resolve) => setTimeout(resolve, ms))
+      : Promise.resolve();
 
   /**
    * Validates an OpenAPI specification using swagger-parser
@@ -43,43 +95,83 @@ export class OpenAPIValidator {
    * @returns Promise<ValidationResult>
    */
   async validateSpec(source: string): Promise<ValidationResult> {
+    return this.validate(() => this.parser.load(source));
+  }
+
+  /**
+   * Validates an OpenAPI or AsyncAPI document that is already in memory
+   * @param document - Parsed specification; it is not modified
+   * @param source - Names the document in findings; relative `$ref`s
+   * resolve against it (default: `<document>`)
+   */
+  async validateDocument(
+    document: SpecDocument,
+    source?: string,
+  ): Promise<ValidationResult> {
+    return this.validate(() => this.parser.loadDocument(document, source));
+  }
+
+  private async validate(
+    load: () => Promise<ParsedSpec>,
+  ): Promise<ValidationResult> {
     const result: ValidationResult = {
       isValid: false,
       errors: [],
       warnings: [],
+      findings: [],
     };
+    let sourceMap: SourceMap | undefined;
+    let step = { step: 'parse', label: 'Parsing OpenAPI document' };
 
     try {
       // Step 1: Parse document
-      consola.start('Parsing OpenAPI document...');
+      this.onProgress({ ...step, status: 'start' });
       await this.delay(800); // Simulate parsing time
-      const document = await this.parser.parse(source);
-      consola.success(chalk.green.bold('Document parsed successfully'));
-      console.log('');
+      const parsed = await load();
+      const document = parsed.document;
+      sourceMap = parsed.sourceMap;
+      if (parsed.conversion) {
+        result.conversion = parsed.conversion;
+      }
+      this.onProgress({ ...step, status: 'complete' });
+
+      if (isAsyncAPI(document)) {
+        await this.validateAsyncAPI(parsed, result);
+        return this.locateFindings(result, sourceMap);
+      }
 
       // Step 2: Validate with swagger-parser
-      consola.start('Validating against OpenAPI specification...');
+      step = {
+        step: 'validate',
+        label: 'Validating against OpenAPI specification',
+      };
+      this.onProgress({ ...step, status: 'start' });
       await this.delay(1200); // Simulate validation time
-      const validatedApi = await SwaggerParser.validate(document);
-      consola.success(chalk.green.bold('Validation successful!'));
-      console.log('');
+      // Relative `$ref`s resolve against the document's own location
+      const validatedApi = await SwaggerParser.validate(
+        parsed.sourceMap.rootFile,
+        document,
+        {},
+      );
+      this.onProgress({ ...step, status: 'complete' });
 
       // Step 3: Additional validation checks
-      consola.start('Analyzing document structure...');
+      step = { step: 'analyze', label: 'Analyzing document structure' };
+      this.onProgress({ ...step, status: 'start' });
       await this.delay(600); // Simulate analysis time
       const additionalChecks = this.performAdditionalValidation(
         validatedApi as OpenAPIV3.Document,
       );
-      consola.success(
-        chalk.green.bold('Document structure analysis completed'),
-      );
+      this.onProgress({ ...step, status: 'complete' });
 
       result.isValid = true;
       result.document = validatedApi as OpenAPIV3.Document;
-      result.warnings = additionalChecks.warnings;
+      result.warnings = additionalChecks.map((finding) => finding.message);
+      result.findings.push(...additionalChecks);
       result.stats = this.calculateStats(validatedApi as OpenAPIV3.Document);
     } catch (error) {
       result.isValid = false;
+      this.onProgress({ ...step, status: 'fail' });
 
       if (error instanceof Error) {
         if (error.name === 'ParserError') {
@@ -96,71 +188,318 @@ export class OpenAPIValidator {
       } else {
         result.errors.push(`Unknown validation error: ${String(error)}`);
       }
+
+      result.findings.push(...this.createErrorFindings(error));
     }
 
+    return this.locateFindings(result, sourceMap);
+  }
+
+  private locateFindings(
+    result: ValidationResult,
+    sourceMap: SourceMap | undefined,
+  ): ValidationResult {
+    result.findings.forEach((finding) => {
+      if (finding.pointer !== undefined && !finding.location) {
+        finding.location = sourceMap?.locate(finding.pointer);
+      }
+    });
+
     return result;
   }
 
+  /**
+   * Validate the structure of an AsyncAPI document. Only the parts that are
+   * scored are checked; there is no full AsyncAPI schema validation.
+   */
+  private async validateAsyncAPI(
+    parsed: ParsedSpec,
+    result: ValidationResult,
+  ): Promise<void> {
+    const step = {
+      step: 'validate',
+      label: 'Validating against AsyncAPI structure',
+    };
+    this.onProgress({ ...step, status: 'start' });
+    await this.delay(1200); // Simulate validation time
+
+    const document = resolveRefs(parsed) as AsyncAPIDocument;
+    const error = (ruleId: string, message: string, pointer: string) => {
+      result.errors.push(message);
+      result.findings.push({
+        ruleId,
+        severity: getRule(ruleId)?.severity ?? 'error',
+        message,
+        pointer,
+      });
+    };
+
+    const major = asyncAPIMajorVersion(document);
+    if (!SUPPORTED_ASYNCAPI_VERSIONS.includes(major)) {
+      error(
+        'validation/asyncapi-version',
+        `Unsupported AsyncAPI version "${document.asyncapi}"; versions ${SUPPORTED_ASYNCAPI_VERSIONS.map((v) => `${v}.x`).join(' and ')} are supported`,
+        '/asyncapi',
+      );
+    }
+    if (!document.info?.title || !document.info?.version) {
+      error(
+        'validation/asyncapi-error',
+        'info.title and info.version are required',
+        '/info',
+      );
+    }
+    if (major === '2' && !document.channels) {
+      error(
+        'validation/asyncapi-error',
+        'channels is required in AsyncAPI 2.x',
+        '/channels',
+      );
+    }
+    if (major === '3') {
+      Object.entries(document.operations ?? {}).forEach(([id, operation]) => {
+        const pointer = toPointer(['operations', id]);
+        if (operation?.action !== 'send' && operation?.action !== 'receive') {
+          error(
+            'validation/asyncapi-error',
+            `Operation "${id}": action must be "send" or "receive"`,
+            `${pointer}/action`,
+          );
+        }
+        if (!operation?.channel || '$ref' in operation.channel) {
+          error(
+            'validation/reference-error',
+            `Operation "${id}": channel must reference a channel of the document`,
+            `${pointer}/channel`,
+          );
+        }
+      });
+    }
+
+    if (result.errors.length > 0) {
+      this.onProgress({ ...step, status: 'fail' });
+      return;
+    }
+    this.onProgress({ ...step, status: 'complete' });
+
+    const warnings: Finding[] = [];
+    const warning = (ruleId: string, message: string, pointer: string) => {
+      warnings.push({
+        ruleId,
+        severity: getRule(ruleId)?.severity ?? 'warn',
+        message,
+        pointer,
+      });
+    };
+    if (Object.keys(document.channels ?? {}).length === 0) {
+      warning(
+        'validation/no-channels',
+        'No channels defined in the specification',
+        '/channels',
+      );
+    }
+    if (!document.info.description) {
+      warning(
+        'validation/missing-info-description',
+        'API description is missing from info object',
+        '/info',
+      );
+    }
+    if (!document.components?.securitySchemes) {
+      warning(
+        'validation/no-security',
+        'No security schemes defined',
+        '/components',
+      );
+    }
+
+    result.isValid = true;
+    result.document = document;
+    result.warnings = warnings.map((finding) => finding.message);
+    result.findings.push(...warnings);
+    result.stats = {
+      paths: 0,
+      operations: getAsyncOperations(document).length,
+      schemas: Object.keys(document.components?.schemas ?? {}).length,
+      parameters: Object.keys(document.components?.parameters ?? {}).length,
+      channels: Object.keys(document.channels ?? {}).length,
+      messages: getAsyncMessages(document).length,
+    };
+  }
+
+  /**
+   * Turn a validation failure into findings, one per schema violation when
+   * swagger-parser reports them individually
+   */
+  private createErrorFindings(error: unknown): Finding[] {
+    const finding = (
+      ruleId: string,
+      message: string,
+      pointer?: string,
+    ): Finding => ({
+      ruleId,
+      severity: getRule(ruleId)?.severity ?? 'error',
+      message,
+      pointer,
+    });
+
+    if (error instanceof SpecParseError) {
+      return [
+        {
+          ...finding('validation/parse-error', error.message),
+          location: error.location,
+        },
+      ];
+    }
+
+    if (!(error instanceof Error)) {
+      return [finding('validation/error', String(error))];
+    }
+
+    const details = (error as { details?: unknown }).details;
+    if (Array.isArray(details) && details.length > 0) {
+      return details.map(
+        (detail: { instancePath?: string; message?: string }) =>
+          finding(
+            'validation/schema-error',
+            `${detail.instancePath || '/'} ${detail.message ?? 'is invalid'}`,
+            detail.instancePath ?? '',
+          ),
+      );
+    }
+
+    const parentPath = (error as { parentPath?: unknown }).parentPath;
+    if (
+      error.name === 'ResolverError' ||
+      error.name === 'MissingPointerError'
+    ) {
+      return [
+        finding(
+          'validation/reference-error',
+          error.message,
+          typeof parentPath === 'string'
+            ? parentPath.slice(parentPath.indexOf('#') + 1)
+            : undefined,
+        ),
+      ];
+    }
+
+    return [finding('validation/error', error.message)];
+  }
+
   /**
    * Perform additional validation checks beyond swagger-parser validation
    */
-  private performAdditionalValidation(document: OpenAPIV3.Document): {
-    warnings: string[];
-  } {
-    const warnings: string[] = [];
+  private performAdditionalValidation(document: OpenAPIV3.Document): Finding[] {
+    const warnings: Finding[] = [];
+    const warning = (
+      ruleId: string,
+      message: string,
+      pointer: string,
+    ): Finding => ({
+      ruleId,
+      severity: getRule(ruleId)?.severity ?? 'warn',
+      message,
+      pointer,
+    });
 
-    if (!document.paths || Object.keys(document.paths).length === 0) {
-      warnings.push('No paths defined in the specification');
+    const hasWebhooks = Object.keys(getWebhooks(document)).length > 0;
+    if (
+      (!document.paths || Object.keys(document.paths).length === 0) &&
+      !hasWebhooks
+    ) {
+      warnings.push(
+        warning(
+          'validation/no-paths',
+          'No paths defined in the specification',
+          '/paths',
+        ),
+      );
     }
 
     if (!document.info.description) {
-      warnings.push('API description is missing from info object');
+      warnings.push(
+        warning(
+          'validation/missing-info-description',
+          'API description is missing from info object',
+          '/info',
+        ),
+      );
     }
 
     let missingExamples = 0;
-    if (document.paths) {
-      Object.values(document.paths).forEach((pathItem) => {
-        if (pathItem) {
-          Object.values(pathItem).forEach((operation) => {
-            if (
-              operation &&
-              typeof operation === 'object' &&
-              'responses' in operation
-            ) {
-              Object.values(operation.responses || {}).forEach((response) => {
-                if (
-                  response &&
-                  typeof response === 'object' &&
-                  'content' in response
-                ) {
-                  Object.values(response.content || {}).forEach((mediaType) => {
-                    if (!mediaType.example && !mediaType.examples) {
-                      missingExamples++;
-                    }
-                  });
-                }
-              });
-            }
-          });
-        }
-      });
-    }
+    getPathItems(document).forEach(({ pathItem }) => {
+      if (pathItem) {
+        Object.values(pathItem).forEach((operation) => {
+          if (
+            operation &&
+            typeof operation === 'object' &&
+            'responses' in operation
+          ) {
+            Object.values(operation.responses || {}).forEach((response) => {
+              if (
+                response &&
+                typeof response === 'object' &&
+                'content' in response
+              ) {
+                Object.values(response.content || {}).forEach((mediaType) => {
+                  if (!hasMediaTypeExample(mediaType)) {
+                    missingExamples++;
+                  }
+                });
+              }
+            });
+          }
+        });
+      }
+    });
 
     if (missingExamples > 0) {
-      warnings.push(`${missingExamples} response(s) missing examples`);
+      warnings.push(
+        warning(
+          'validation/missing-examples',
+          `${missingExamples} response(s) missing examples`,
+          '/paths',
+        ),
+      );
     }
 
     if (!document.components?.securitySchemes && !document.security) {
-      warnings.push('No security schemes defined');
+      warnings.push(
+        warning(
+          'validation/no-security',
+          'No security schemes defined',
+          '/components',
+        ),
+      );
     }
 
     if (document.openapi.startsWith('3.0')) {
       warnings.push(
-        'Consider upgrading to OpenAPI 3.1.0 for improved JSON Schema support',
+        warning(
+          'validation/openapi-version',
+          'Consider upgrading to OpenAPI 3.1.0 for improved JSON Schema support',
+          '/openapi',
+        ),
+      );
+    }
+
+    const { jsonSchemaDialect } = document as unknown as OpenAPIV3_1.Document;
+    if (
+      isOpenAPI31(document) &&
+      jsonSchemaDialect &&
+      jsonSchemaDialect !== OAS_BASE_DIALECT
+    ) {
+      warnings.push(
+        warning(
+          'validation/json-schema-dialect',
+          `Schemas use the JSON Schema dialect ${jsonSchemaDialect}; keywords outside the OpenAPI dialect are not scored`,
+          '/jsonSchemaDialect',
+        ),
       );
     }
 
-    return { warnings };
+    return warnings;
   }
 
   /**
@@ -171,7 +510,6 @@ export class OpenAPIValidator {
   ): ValidationResult['stats'] {
     let paths = 0;
     let operations = 0;
-    let schemas = 0;
     let parameters = 0;
 
     // Count paths and operations
@@ -198,15 +536,21 @@ export class OpenAPIValidator {
       });
     }
 
-    if (document.components?.schemas) {
-      schemas = Object.keys(document.components.schemas).length;
-    }
+    const schemas = collectSchemas(document).length;
 
     if (document.components?.parameters) {
       parameters = Object.keys(document.components.parameters).length;
     }
 
-    return { paths, operations, schemas, parameters };
+    const webhooks = Object.keys(getWebhooks(document)).length;
+
+    return {
+      paths,
+      operations,
+      schemas,
+      parameters,
+      ...(webhooks > 0 && { webhooks }),
+    };
   }
 
   /**
@@ -218,9 +562,13 @@ export class OpenAPIValidator {
     if (result.document) {
       consola.info(chalk.blue.bold('Document Information:'));
       consola.log(
-        `   ${chalk.cyan('OpenAPI Version:')} ${chalk.white(
-          result.document.openapi,
-        )}`,
+        `   ${chalk.cyan(`${specFormat(result.document)} Version:`)} ${chalk.white(
+          specVersion(result.document),
+        )}${
+          result.conversion
+            ? chalk.gray(` (upgraded from Swagger ${result.conversion.from})`)
+            : ''
+        }`,
       );
       consola.log(
         `   ${chalk.cyan('Title:')} ${chalk.white(result.document.info.title)}`,
@@ -230,6 +578,20 @@ export class OpenAPIValidator {
           result.document.info.version,
         )}`,
       );
+      const { summary, license } = result.document
+        .info as OpenAPIV3_1.InfoObject;
+      if (summary) {
+        consola.log(`   ${chalk.cyan('Summary:')} ${chalk.gray(summary)}`);
+      }
+      if (license) {
+        consola.log(
+          `   ${chalk.cyan('License:')} ${chalk.white(
+            [license.name, license.identifier ?? license.url]
+              .filter(Boolean)
+              .join(' — '),
+          )}`,
+        );
+      }
       if (result.document.info.description) {
         consola.log(
           `   ${chalk.cyan('Description:')} ${chalk.gray(
@@ -242,17 +604,33 @@ export class OpenAPIValidator {
 
     if (result.stats) {
       consola.info(chalk.blue.bold('Document Statistics:'));
-      consola.log(
-        `   ${chalk.cyan('Paths:')} ${chalk.yellow(result.stats.paths)}`,
-      );
+      if (result.stats.channels !== undefined) {
+        consola.log(
+          `   ${chalk.cyan('Channels:')} ${chalk.yellow(result.stats.channels)}`,
+        );
+      } else {
+        consola.log(
+          `   ${chalk.cyan('Paths:')} ${chalk.yellow(result.stats.paths)}`,
+        );
+      }
       consola.log(
         `   ${chalk.cyan('Operations:')} ${chalk.yellow(
           result.stats.operations,
         )}`,
       );
+      if (result.stats.messages !== undefined) {
+        consola.log(
+          `   ${chalk.cyan('Messages:')} ${chalk.yellow(result.stats.messages)}`,
+        );
+      }
       consola.log(
         `   ${chalk.cyan('Schemas:')} ${chalk.yellow(result.stats.schemas)}`,
       );
+      if (result.stats.webhooks) {
+        consola.log(
+          `   ${chalk.cyan('Webhooks:')} ${chalk.yellow(result.stats.webhooks)}`,
+        );
+      }
       consola.log(
         `   ${chalk.cyan('Parameters:')} ${chalk.yellow(
           result.stats.parameters,
@@ -261,17 +639,40 @@ export class OpenAPIValidator {
       consola.log('');
     }
 
+    if (result.conversion && result.conversion.warnings.length > 0) {
+      consola.warn(chalk.yellow.bold('Conversion Warnings:'));
+      result.conversion.warnings.forEach((warning) => {
+        consola.log(`   ${chalk.yellow('•')} ${chalk.yellow(warning)}`);
+      });
+      consola.log('');
+    }
+
     if (result.warnings.length > 0) {
       consola.warn(chalk.yellow.bold('Warnings:'));
-      result.warnings.forEach((warning) =>
-        consola.log(`   ${chalk.yellow('•')} ${chalk.yellow(warning)}`),
-      );
+      this.printWarnings(result);
       consola.log('');
     }
 
     consola.success(`Validation completed in ${duration}ms`);
   }
 
+  /**
+   * Print non-error findings with their source locations
+   */
+  private printWarnings(result: ValidationResult): void {
+    result.findings
+      .filter((finding) => finding.severity !== 'error')
+      .forEach((finding) =>
+        consola.log(
+          `   ${chalk.yellow('•')} ${chalk.yellow(finding.message)}${
+            finding.location
+              ? ` ${chalk.dim(formatLocation(finding.location))}`
+              : ''
+          }`,
+        ),
+      );
+  }
+
   /**
    * Print error validation results
    */
@@ -285,11 +686,26 @@ export class OpenAPIValidator {
     });
     consola.log('');
 
+    const locatedErrors = result.findings.filter(
+      (finding) => finding.severity === 'error' && finding.location,
+    );
+    if (locatedErrors.length > 0) {
+      consola.info(chalk.blue.bold('Error Locations:'));
+      locatedErrors.forEach((finding) => {
+        if (finding.location) {
+          consola.log(
+            `   ${chalk.cyan(formatLocation(finding.location))} ${chalk.gray(
+              finding.message,
+            )}`,
+          );
+        }
+      });
+      consola.log('');
+    }
+
     if (result.warnings.length > 0) {
       consola.warn(chalk.yellow.bold('Additional Warnings:'));
-      result.warnings.forEach((warning) =>
-        consola.log(`   ${chalk.yellow('•')} ${chalk.yellow(warning)}`),
-      );
+      this.printWarnings(result);
       consola.log('');
     }
 
@@ -0,0 +1,225 @@
+import { type FSWatcher, watch } from 'node:fs';
+import { resolve } from 'node:path';
+import chalk from 'chalk';
+import { getIssues, type Severity } from './findings';
+import type { OpenAPIScorer, ScoringResult } from './reporter';
+import type { OpenAPIValidator, ValidationResult } from './validator';
+
+/**
+ * Outcome of one validate-and-score run of `SpecWatcher`
+ */
+export interface WatchRun {
+  validation: ValidationResult;
+  /** Missing when the document is invalid */
+  result?: ScoringResult;
+  /** Last successful score before this run, for deltas */
+  previous?: ScoringResult;
+  /** Files whose change triggered the run; empty for the first run */
+  changed: string[];
+  duration: number;
+}
+
+/**
+ * Options accepted by the SpecWatcher constructor
+ */
+export interface SpecWatcherOptions {
+  /** Construct with `delays: false` so runs take milliseconds */
+  scorer: OpenAPIScorer;
+  validator: OpenAPIValidator;
+  onRun: (run: WatchRun) => void | Promise<void>;
+  /** Called when a run throws, e.g. because an evaluator failed */
+  onError?: (error: unknown) => void;
+  /** Quiet period after the last change before re-running (default: 50ms) */
+  debounce?: number;
+}
+
+const isUrl = (source: string) =>
+  source.startsWith('https://') || source.startsWith('http://');
+
+/**
+ * Re-validates and re-scores a local specification whenever it, or a file it
+ * `$ref`s, changes. The watched files are refreshed after every successful
+ * run, so newly referenced files are picked up.
+ */
+export class SpecWatcher {
+  private watchers = new Map<string, FSWatcher>();
+  private changed = new Set<string>();
+  private files: string[];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private running: Promise<void> | undefined;
+  private previous: ScoringResult | undefined;
+  private closed = false;
+
+  constructor(
+    private source: string,
+    private options: SpecWatcherOptions,
+  ) {
+    if (isUrl(source)) {
+      throw new Error('Only local files can be watched');
+    }
+    this.files = [resolve(source)];
+  }
+
+  /**
+   * Score the specification once and start watching its files
+   */
+  async start(): Promise<void> {
+    await this.run();
+  }
+
+  /**
+   * Stop watching; a run in progress still completes
+   */
+  close(): void {
+    this.closed = true;
+    clearTimeout(this.timer);
+    this.watchers.forEach((watcher) => watcher.close());
+    this.watchers.clear();
+  }
+
+  /**
+   * Absolute paths of the files being watched
+   */
+  get watchedFiles(): string[] {
+    return [...this.files];
+  }
+
+  private schedule(file: string): void {
+    this.changed.add(file);
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      // Changes made while a run is in progress trigger another run after it
+      this.running = (this.running ?? Promise.resolve()).then(() => this.run());
+    }, this.options.debounce ?? 50);
+  }
+
+  private async run(): Promise<void> {
+    if (this.closed) return;
+
+    const changed = [...this.changed];
+    this.changed.clear();
+    const startTime = Date.now();
+
+    try {
+      const validation = await this.options.validator.validateSpec(this.source);
+      const result = validation.isValid
+        ? await this.options.scorer.scoreSpec(this.source)
+        : undefined;
+
+      if (result?.files) {
+        this.files = result.files
+          .filter((file) => !isUrl(file))
+          .map((file) => resolve(file));
+      }
+
+      await this.options.onRun({
+        validation,
+        result,
+        previous: this.previous,
+        changed,
+        duration: Date.now() - startTime,
+      });
+      this.previous = result ?? this.previous;
+    } catch (error) {
+      this.options.onError?.(error);
+    }
+
+    this.watchFiles();
+  }
+
+  /**
+   * Watch the current files again. Editors often replace a file on save,
+   * which ends a watcher, so every run starts fresh ones.
+   */
+  private watchFiles(): void {
+    if (this.closed) return;
+
+    this.watchers.forEach((watcher) => watcher.close());
+    this.watchers.clear();
+    this.files.forEach((file) => {
+      try {
+        this.watchers.set(
+          file,
+          watch(file, () => this.schedule(file)),
+        );
+      } catch {
+        // Deleted files are watched again once a run references them
+      }
+    });
+  }
+}
+
+const SUMMARY_LABELS: Partial<Record<Severity, string>> = {
+  error: 'errors',
+  warn: 'warnings',
+  hint: 'hints',
+};
+
+const formatDelta = (delta: number | undefined) => {
+  if (delta === undefined) return '';
+  const rounded = Math.round(delta * 10) / 10;
+  if (rounded > 0) return chalk.green(` ▲ +${rounded}`);
+  if (rounded < 0) return chalk.red(` ▼ ${rounded}`);
+  return chalk.gray(' ±0');
+};
+
+/**
+ * Compact console summary of a watch run: score and grade, per-criterion
+ * scores with the change since the previous successful run, and issue counts
+ */
+export function formatWatchSummary(run: WatchRun, source: string): string {
+  const time = new Date().toLocaleTimeString();
+  const lines = [
+    `${chalk.bold('SpecScore watch')} ${chalk.gray(
+      `${source} · ${time} · ${run.duration}ms`,
+    )}`,
+  ];
+  if (run.changed.length > 0) {
+    lines.push(chalk.gray(`Changed: ${run.changed.join(', ')}`));
+  }
+  lines.push('');
+
+  const { validation, result, previous } = run;
+  if (!result) {
+    lines.push(chalk.red.bold(`Invalid (${validation.errors.length} errors)`));
+    validation.errors.slice(0, 5).forEach((error) => {
+      lines.push(`  ${chalk.red('✗')} ${error}`);
+    });
+    if (previous) {
+      lines.push(
+        '',
+        chalk.gray(
+          `Last score: ${previous.totalScore}/100 (${previous.grade})`,
+        ),
+      );
+    }
+    return lines.join('\n');
+  }
+
+  lines.push(
+    `${chalk.bold(`Score ${result.totalScore}/100`)} (${result.grade})${formatDelta(
+      previous && result.totalScore - previous.totalScore,
+    )}`,
+  );
+  const width = Math.max(...result.criteria.map((c) => c.name.length));
+  result.criteria.forEach((criteria) => {
+    const before = previous?.criteria.find((c) => c.id === criteria.id);
+    lines.push(
+      `  ${criteria.name.padEnd(width)}  ${`${criteria.score}/${criteria.maxScore}`.padStart(7)}${formatDelta(
+        before && criteria.score - before.score,
+      )}`,
+    );
+  });
+
+  const issues = [
+    ...getIssues(result.criteria.flatMap((c) => c.findings)),
+    ...validation.findings,
+  ];
+  const counts = Object.entries(SUMMARY_LABELS).map(
+    ([severity, label]) =>
+      `${issues.filter((f) => f.severity === severity).length} ${label}`,
+  );
+  lines.push('', chalk.gray(`Issues: ${counts.join(', ')}`));
+
+  return lines.join('\n');
+}
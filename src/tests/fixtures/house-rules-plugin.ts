@@ -0,0 +1,34 @@
+import { createCriteriaScore } from '../../lib/findings';
+import { definePlugin } from '../../lib/plugins';
+
+export default definePlugin({
+  name: 'house-rules',
+  evaluators: [
+    {
+      id: 'house-contact',
+      label: 'Checking contact information',
+      evaluate: (document) => {
+        const hasContact = !!document.info.contact?.email;
+        return createCriteriaScore({
+          name: 'Contact Information',
+          score: hasContact ? 10 : 0,
+          maxScore: 10,
+          findings: [
+            hasContact
+              ? {
+                  ruleId: 'house-contact/email-present',
+                  severity: 'info',
+                  message: 'Contact email provided',
+                }
+              : {
+                  ruleId: 'house-contact/email-missing',
+                  severity: 'warn',
+                  message: 'No contact email in info',
+                  suggestion: 'Add a contact email to info',
+                },
+          ],
+        });
+      },
+    },
+  ],
+});
@@ -0,0 +1,14 @@
+import { defineFormatter } from '../../lib/formatters';
+
+export default defineFormatter({
+  name: 'wiki',
+  label: 'Wiki page',
+  defaultOutput: 'report.wiki',
+  format: (result) =>
+    [
+      `h1. ${result.document.info.title}`,
+      `*Score:* ${result.totalScore}/100 (${result.grade})`,
+      '||Criterion||Score||',
+      ...result.criteria.map((c) => `|${c.name}|${c.score}/${c.maxScore}|`),
+    ].join('\n'),
+});
@@ -1,9 +1,74 @@
-import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
-import { existsSync, mkdirSync, unlinkSync } from 'node:fs';
+import { afterAll, beforeAll, describe, expect, it, spyOn } from 'bun:test';
+import { execFileSync } from 'node:child_process';
+import {
+  cpSync,
+  existsSync,
+  mkdirSync,
+  rmSync,
+  symlinkSync,
+  unlinkSync,
+} from 'node:fs';
 import { readFile, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
-import { OpenAPIScorer } from '../lib/reporter';
+import consola from 'consola';
+import { load } from 'js-yaml';
+import type { OpenAPIV3 } from 'openapi-types';
+import { scoreSpec, validateSpec } from '../lib/api';
+import {
+  type AsyncAPIDocument,
+  getAsyncMessages,
+  getAsyncOperations,
+} from '../lib/asyncapi';
+import { AsyncAPIEvaluators } from '../lib/asyncapi-evaluators';
+import {
+  applyBaseline,
+  createBaseline,
+  loadBaseline,
+  writeBaseline,
+} from '../lib/baseline';
+import { expandInputs, mapConcurrent } from '../lib/batch';
+import { buildBreakdown } from '../lib/breakdown';
+import {
+  APPROVED_CHANGES_EXTENSION,
+  detectChanges,
+  detectSpecChanges,
+  getUnapprovedBreakingChanges,
+} from '../lib/breaking';
+import { findConfig, loadConfig, validateConfig } from '../lib/config';
+import { diffSpecs, formatDiffMarkdown } from '../lib/diff';
+import { Evaluators } from '../lib/evaluators';
+import { createCriteriaScore, type Finding } from '../lib/findings';
+import { applyFixes, DEFAULT_FIXES } from '../lib/fixes';
+import { defineFormatter, loadFormatter } from '../lib/formatters';
+import {
+  checkGates,
+  type FailOnSeverity,
+  GATE_EXIT_CODES,
+  gateExitCode,
+  parseCriterionMinimum,
+  validateGates,
+} from '../lib/gates';
+import {
+  JSON_REPORT_VERSION,
+  toJsonPortfolioReport,
+  toJsonScoringReport,
+  toJsonValidationReport,
+  writeJsonReport,
+} from '../lib/json-report';
+import { OpenAPIParser } from '../lib/parser';
+import { loadPlugin } from '../lib/plugins';
+import { buildPortfolio, formatPortfolioMarkdown } from '../lib/portfolio';
+import { type ProgressEvent, silentProgress } from '../lib/progress';
+import { OpenAPIScorer, type ScoringResult } from '../lib/reporter';
+import { resolveRefs } from '../lib/resolver';
+import { BUILTIN_RULES, getRule } from '../lib/rules';
+import { SARIF_VERSION, toSarifLog } from '../lib/sarif';
+import { formatLocation } from '../lib/source-map';
+import { loadIgnoreFile, Suppressions } from '../lib/suppressions';
+import { isSwagger2, UPGRADED_OPENAPI_VERSION } from '../lib/swagger2';
+import { formatUnifiedDiff } from '../lib/unified-diff';
 import { OpenAPIValidator } from '../lib/validator';
+import { formatWatchSummary, SpecWatcher, type WatchRun } from '../lib/watch';
 
 const TEST_FIXTURES_DIR = join(__dirname, 'fixtures');
 const TEST_OUTPUT_DIR = join(__dirname, 'output');
@@ -21,6 +86,8 @@ describe('Integration Tests', () => {
       'test-report.html',
       'integration-test.md',
       'integration-test.html',
+      'test-report.json',
+      'test-baseline.json',
     ];
 
     testFiles.forEach((file) => {
@@ -91,7 +158,7 @@ describe('Integration Tests', () => {
       expect(result.totalScore).toBeGreaterThan(50);
       expect(result.grade).toBeDefined();
       expect(['A', 'B', 'C', 'D', 'F']).toContain(result.grade);
-      expect(result.criteria).toHaveLength(7);
+      expect(result.criteria).toHaveLength(10);
       expect(result.feedback.length).toBeGreaterThan(0);
       expect(result.document).toBeDefined();
 
@@ -103,6 +170,9 @@ describe('Integration Tests', () => {
       expect(criteriaNames).toContain('Examples & Samples');
       expect(criteriaNames).toContain('Security');
       expect(criteriaNames).toContain('Best Practices');
+      expect(criteriaNames).toContain('Naming Consistency');
+      expect(criteriaNames).toContain('Pagination & Collections');
+      expect(criteriaNames).toContain('Error Model');
     });
 
     it('should score minimal specification lower', async () => {
@@ -133,6 +203,9 @@ describe('Integration Tests', () => {
         '| Criteria | Score | Max | Percentage | Status |',
       );
       expect(content).toContain('## Detailed Analysis');
+      expect(content).toContain(
+        '| Severity | Rule | Target | Location | Message |',
+      );
     });
 
     it('should generate HTML report', async () => {
@@ -154,6 +227,1719 @@ describe('Integration Tests', () => {
     });
   });
 
+  describe('Structured Findings', () => {
+    it('should emit findings with registered rule ids and targets', async () => {
+      const scorer = new OpenAPIScorer();
+      const minimalSpecPath = join(TEST_FIXTURES_DIR, 'minimal-openapi.json');
+
+      const result = await scorer.scoreSpec(minimalSpecPath);
+      const findings = result.criteria.flatMap((c) => c.findings);
+
+      expect(findings.every((f) => getRule(f.ruleId))).toBe(true);
+
+      const missingDescription = findings.find(
+        (f) => f.ruleId === 'descriptions/operation-missing',
+      );
+      expect(missingDescription?.severity).toBe('warn');
+      expect(missingDescription?.target).toEqual({
+        kind: 'operation',
+        name: 'GET /health',
+      });
+      expect(missingDescription?.suggestion).toBeDefined();
+    });
+
+    it('should derive feedback and suggestions from findings', () => {
+      const criteria = createCriteriaScore({
+        name: 'Example',
+        score: 5,
+        maxScore: 10,
+        findings: [
+          { ruleId: 'example/summary', severity: 'info', message: 'Summary' },
+          {
+            ruleId: 'example/hint',
+            severity: 'hint',
+            message: 'Hint',
+            suggestion: 'Minor tweak',
+          },
+          {
+            ruleId: 'example/issue',
+            severity: 'error',
+            message: 'Broken',
+            suggestion: 'Fix it',
+            target: { kind: 'operation', name: 'GET /a' },
+          },
+          {
+            ruleId: 'example/issue',
+            severity: 'error',
+            message: 'Broken',
+            suggestion: 'Fix it',
+            target: { kind: 'operation', name: 'GET /b' },
+          },
+        ],
+      });
+
+      expect(criteria.percentage).toBe(50);
+      expect(criteria.feedback).toEqual(['Summary']);
+      expect(criteria.suggestions).toEqual(['Fix it', 'Minor tweak']);
+    });
+  });
+
+  describe('Source Locations', () => {
+    it('should locate findings in the source file', async () => {
+      const scorer = new OpenAPIScorer();
+      const minimalSpecPath = join(TEST_FIXTURES_DIR, 'minimal-openapi.json');
+
+      const result = await scorer.scoreSpec(minimalSpecPath);
+      const findings = result.criteria.flatMap((c) => c.findings);
+
+      expect(findings.filter((f) => f.target && !f.pointer)).toHaveLength(0);
+
+      const missingDescription = findings.find(
+        (f) => f.ruleId === 'descriptions/operation-missing',
+      );
+      expect(missingDescription?.pointer).toBe('/paths/~1health/get');
+      expect(missingDescription?.location).toEqual({
+        file: minimalSpecPath,
+        line: 6,
+        column: 7,
+      });
+    });
+
+    it('should follow $refs into other files', async () => {
+      const parser = new OpenAPIParser();
+      const splitSpecPath = join(TEST_FIXTURES_DIR, 'split-openapi.yaml');
+
+      const { sourceMap } = await parser.load(splitSpecPath);
+
+      expect(sourceMap.locate('/paths/~1pets/get/responses/200')).toEqual({
+        file: join(TEST_FIXTURES_DIR, 'split', 'pets.yaml'),
+        line: 8,
+        column: 7,
+      });
+      expect(
+        sourceMap.locate('/components/schemas/Pet/properties/name'),
+      ).toEqual({
+        file: join(TEST_FIXTURES_DIR, 'split', 'schemas.yaml'),
+        line: 6,
+        column: 5,
+      });
+      expect(formatLocation({ file: 'a.yaml', line: 1, column: 2 })).toBe(
+        'a.yaml:1:2',
+      );
+    });
+
+    it('should locate validation errors', async () => {
+      const validator = new OpenAPIValidator();
+      const invalidSpecPath = join(TEST_FIXTURES_DIR, 'broken-openapi.json');
+
+      const result = await validator.validateSpec(invalidSpecPath);
+      const error = result.findings.find(
+        (f) => f.ruleId === 'validation/reference-error',
+      );
+
+      expect(error?.location?.file).toBe(invalidSpecPath);
+      expect(error?.location?.line).toBe(12);
+    });
+  });
+
+  describe('Reference Resolution', () => {
+    it('should resolve local and file refs and stop at cycles', async () => {
+      const parsed = await new OpenAPIParser().load(
+        join(TEST_FIXTURES_DIR, 'ref-openapi.yaml'),
+      );
+      const document = resolveRefs(parsed) as OpenAPIV3.Document;
+
+      const operation = document.paths['/categories']?.get;
+      expect(operation?.parameters?.[0]).toMatchObject({
+        name: 'limit',
+        description: 'Maximum number of items to return',
+      });
+
+      const category = (operation?.responses['200'] as OpenAPIV3.ResponseObject)
+        .content?.['application/json']?.schema as OpenAPIV3.SchemaObject;
+      expect(category.properties).toHaveProperty('children', {
+        type: 'array',
+        items: { $ref: '#/components/schemas/Category' },
+      });
+
+      const pet = (
+        document.paths['/pets/{petId}']?.get?.responses[
+          '200'
+        ] as OpenAPIV3.ResponseObject
+      ).content?.['application/json']?.schema;
+      expect(pet).toMatchObject({
+        type: 'object',
+        properties: { name: { type: 'string' } },
+      });
+
+      // The parsed document itself is left untouched
+      expect(
+        (parsed.document as OpenAPIV3.Document).paths['/categories']?.get
+          ?.parameters?.[0],
+      ).toEqual({ $ref: '#/components/parameters/Limit' });
+      expect(parsed.files.size).toBe(2);
+    });
+
+    it('should score resolved objects and locate findings at the ref site', async () => {
+      const parsed = await new OpenAPIParser().load(
+        join(TEST_FIXTURES_DIR, 'ref-openapi.yaml'),
+      );
+      const evaluators = new Evaluators();
+
+      const rawIssues = evaluators
+        .scoreDescriptions(parsed.document as OpenAPIV3.Document)
+        .findings.map((f) => f.ruleId);
+      expect(rawIssues).toContain('descriptions/parameter-missing');
+
+      const document = resolveRefs(parsed) as OpenAPIV3.Document;
+      expect(
+        evaluators.scoreDescriptions(document).findings.map((f) => f.ruleId),
+      ).not.toContain('descriptions/parameter-missing');
+      expect(
+        evaluators
+          .scoreExamples(document)
+          .findings.filter((f) => f.target?.name === 'GET /categories'),
+      ).toEqual([]);
+
+      expect(
+        parsed.sourceMap.locate('/paths/~1categories/get/parameters/0'),
+      ).toMatchObject({ line: 11, column: 11 });
+    });
+  });
+
+  describe('Swagger 2.0 Input', () => {
+    it('should upgrade a Swagger 2.0 document to OpenAPI 3', async () => {
+      const parsed = await new OpenAPIParser().load(
+        join(TEST_FIXTURES_DIR, 'swagger2-petstore.yaml'),
+      );
+      const document = parsed.document as OpenAPIV3.Document;
+
+      expect(document.openapi).toBe(UPGRADED_OPENAPI_VERSION);
+      expect(document.servers).toEqual([
+        { url: 'https://petstore.example.com/v1' },
+      ]);
+      expect(Object.keys(document.components?.schemas ?? {})).toEqual([
+        'Pet',
+        'Error',
+      ]);
+      const { Pet: pet } = document.components?.schemas ?? {};
+      expect((pet as OpenAPIV3.SchemaObject).properties).toMatchObject({
+        tag: { type: 'string', nullable: true },
+        default: {
+          type: 'boolean',
+          description: 'Whether the pet is shown first',
+          nullable: true,
+        },
+      });
+
+      const createPet = document.paths['/pets']?.post;
+      expect(createPet?.parameters).toBeUndefined();
+      expect(createPet?.requestBody).toEqual({
+        description: 'Pet to add',
+        required: true,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/Pet' },
+          },
+        },
+      });
+
+      const upload = document.paths['/pets/{petId}/photo']?.post
+        ?.requestBody as OpenAPIV3.RequestBodyObject;
+      expect(upload.content['multipart/form-data']?.schema).toMatchObject({
+        type: 'object',
+        required: ['file'],
+        properties: { file: { type: 'string', format: 'binary' } },
+      });
+
+      expect(document.components?.securitySchemes).toEqual({
+        api_key: { type: 'apiKey', name: 'X-API-Key', in: 'header' },
+        petstore_auth: {
+          type: 'oauth2',
+          flows: {
+            authorizationCode: {
+              authorizationUrl: 'https://petstore.example.com/oauth/authorize',
+              tokenUrl: 'https://petstore.example.com/oauth/token',
+              scopes: { 'write:pets': 'Modify pets' },
+            },
+          },
+        },
+      });
+
+      expect(parsed.conversion).toEqual({
+        from: '2.0',
+        to: UPGRADED_OPENAPI_VERSION,
+        warnings: [
+          'GET /pets: parameter "tags": collectionFormat "tsv" has no OpenAPI 3 equivalent',
+        ],
+      });
+
+      // Locations point at the original Swagger 2.0 source
+      expect(parsed.sourceMap.locate('/components/schemas/Pet')).toMatchObject({
+        line: 120,
+      });
+      expect(
+        parsed.sourceMap.locate('/paths/~1pets/post/requestBody'),
+      ).toMatchObject({ line: 52 });
+    });
+
+    it('should report the conversion in validation and JSON output', async () => {
+      const result = await new OpenAPIValidator().validateSpec(
+        join(TEST_FIXTURES_DIR, 'swagger2-petstore.yaml'),
+      );
+
+      expect(result.isValid).toBe(true);
+      expect(result.conversion?.from).toBe('2.0');
+      expect(
+        toJsonValidationReport(result, 'swagger2-petstore.yaml').conversion
+          ?.warnings,
+      ).toHaveLength(1);
+      expect(isSwagger2(result.document)).toBe(false);
+    });
+  });
+
+  describe('OpenAPI 3.1', () => {
+    it('should not penalise a 3.1 document relative to its 3.0 equivalent', async () => {
+      const parser = new OpenAPIParser();
+      const evaluators = new Evaluators();
+      const score = async (fixture: string) => {
+        const document = resolveRefs(
+          await parser.load(join(TEST_FIXTURES_DIR, fixture)),
+        ) as OpenAPIV3.Document;
+        return [
+          evaluators.scoreSchemaAndTypes(document),
+          evaluators.scoreDescriptions(document),
+          evaluators.scorePathsAndOperations(document),
+          evaluators.scoreResponseCodes(document),
+          evaluators.scoreExamples(document),
+          evaluators.scoreSecurity(document),
+          evaluators.scoreBestPractices(document),
+        ];
+      };
+
+      const v30 = await score('good-openapi.yaml');
+      const v31 = await score('good-openapi-31.yaml');
+      v31.forEach((criteria, index) => {
+        expect(criteria.maxScore).toBe(v30[index]?.maxScore ?? 0);
+        expect(criteria.score).toBeGreaterThanOrEqual(v30[index]?.score ?? 0);
+      });
+
+      // Schema-level `examples` count, and the webhook is scored as an operation
+      const examples = v31[4]?.findings ?? [];
+      expect(examples.map((f) => f.pointer)).not.toContain(
+        '/paths/~1pets~1{petId}/get/responses/200',
+      );
+      expect(
+        examples.find((f) => f.ruleId === 'examples/request-coverage')?.message,
+      ).toBe('2/2 request bodies have examples');
+    });
+
+    it('should score webhook-only documents and report 3.1 stats', async () => {
+      const document = {
+        openapi: '3.1.0',
+        info: { title: 'Events', version: '2.0.0' },
+        webhooks: {
+          petAdded: {
+            post: {
+              description: 'Sent when a pet is added',
+              requestBody: {
+                content: {
+                  'application/json': {
+                    schema: { type: 'object', examples: [{ name: 'Rex' }] },
+                  },
+                },
+              },
+              responses: { '204': { description: 'Received' } },
+            },
+          },
+        },
+      } as unknown as OpenAPIV3.Document;
+      const evaluators = new Evaluators();
+
+      const paths = evaluators.scorePathsAndOperations(document);
+      expect(paths.maxScore).toBe(0);
+      expect(paths.findings.map((f) => f.ruleId)).toEqual([
+        'paths-operations/paths-omitted',
+      ]);
+      expect(evaluators.scoreResponseCodes(document).maxScore).toBe(0);
+      expect(
+        evaluators.scoreExamples(document).findings.map((f) => f.message),
+      ).toEqual(['1/1 request bodies have examples']);
+      expect(
+        evaluators
+          .scoreBestPractices(document)
+          .findings.find(
+            (f) => f.ruleId === 'best-practices/operation-missing-tags',
+          ),
+      ).toMatchObject({
+        target: { kind: 'operation', name: 'POST webhook:petAdded' },
+        pointer: '/webhooks/petAdded/post',
+      });
+
+      const result = await new OpenAPIValidator().validateSpec(
+        join(TEST_FIXTURES_DIR, 'good-openapi-31.yaml'),
+      );
+      expect(result.isValid).toBe(true);
+      expect(result.stats).toMatchObject({ schemas: 5, webhooks: 1 });
+      expect(result.findings.map((f) => f.ruleId)).not.toContain(
+        'validation/openapi-version',
+      );
+    });
+  });
+
+  describe('AsyncAPI', () => {
+    it('should score channels, messages, servers and bindings', async () => {
+      const parser = new OpenAPIParser();
+      const evaluators = new AsyncAPIEvaluators();
+      const load = async (fixture: string) =>
+        resolveRefs(
+          await parser.load(join(TEST_FIXTURES_DIR, fixture)),
+        ) as AsyncAPIDocument;
+
+      const v2 = await load('asyncapi-2.yaml');
+      expect(getAsyncOperations(v2).map((o) => o.name)).toEqual([
+        'SUBSCRIBE user/signedup',
+        'SUBSCRIBE user/updated',
+      ]);
+      expect(evaluators.scorePayloads(v2).findings).toContainEqual(
+        expect.objectContaining({
+          ruleId: 'async-payloads/untyped-payload',
+          target: { kind: 'message', name: 'UserUpdated' },
+          pointer: '/channels/user~1updated/subscribe/message/payload',
+        }),
+      );
+      expect(evaluators.scoreSecurity(v2)).toMatchObject({
+        score: 10,
+        maxScore: 15,
+      });
+      expect(
+        evaluators
+          .scoreBindings(v2)
+          .findings.filter(
+            (f) => f.ruleId === 'async-bindings/operation-missing',
+          )
+          .map((f) => f.target?.name),
+      ).toEqual(['SUBSCRIBE user/updated']);
+
+      const v3 = await load('asyncapi-3.yaml');
+      expect(getAsyncMessages(v3).map((m) => m.name)).toEqual([
+        'LightMeasured',
+      ]);
+      [
+        evaluators.scoreDescriptions(v3),
+        evaluators.scorePayloads(v3),
+        evaluators.scoreExamples(v3),
+        evaluators.scoreSecurity(v3),
+        evaluators.scoreBindings(v3),
+      ].forEach((criteria) => {
+        expect(criteria.percentage).toBe(100);
+      });
+    });
+
+    it('should validate and score AsyncAPI documents with the AsyncAPI criteria', async () => {
+      const source = join(TEST_FIXTURES_DIR, 'asyncapi-2.yaml');
+
+      const validation = await new OpenAPIValidator().validateSpec(source);
+      expect(validation.isValid).toBe(true);
+      expect(validation.stats).toEqual({
+        paths: 0,
+        operations: 2,
+        schemas: 1,
+        parameters: 0,
+        channels: 2,
+        messages: 2,
+      });
+
+      const result = await new OpenAPIScorer().scoreSpec(source, {
+        by: 'operation',
+      });
+      expect(result.criteria.map((c) => c.id)).toEqual([
+        'async-descriptions',
+        'async-payloads',
+        'async-examples',
+        'async-security',
+        'async-bindings',
+      ]);
+      expect(result.criteria.reduce((sum, c) => sum + c.maxScore, 0)).toBe(100);
+      expect(result.breakdown).toBeUndefined();
+      expect(toJsonScoringReport(result).api).toEqual({
+        title: 'Account Events',
+        version: '1.0.0',
+        asyncapi: '2.6.0',
+      });
+
+      const invalid = await new OpenAPIValidator().validateSpec(
+        join(TEST_FIXTURES_DIR, 'asyncapi-invalid.yaml'),
+      );
+      expect(invalid.isValid).toBe(false);
+      expect(invalid.findings.map((f) => f.ruleId)).toEqual([
+        'validation/asyncapi-error',
+        'validation/reference-error',
+      ]);
+    }, 15000);
+  });
+
+  describe('Operation Breakdown', () => {
+    it('should score each operation and rank the worst first', async () => {
+      const scorer = new OpenAPIScorer();
+      const validSpecPath = join(TEST_FIXTURES_DIR, 'good-openapi.yaml');
+
+      const result = await scorer.scoreSpec(validSpecPath, {
+        by: 'operation',
+      });
+
+      expect(result.breakdown?.by).toBe('operation');
+      const entries = result.breakdown?.entries ?? [];
+      expect(entries.map((e) => e.key)).toContain('GET /pets');
+      expect(entries).toHaveLength(3);
+      entries.slice(1).forEach((entry, index) => {
+        expect(entry.percentage).toBeGreaterThanOrEqual(
+          entries[index]?.percentage ?? 0,
+        );
+      });
+    });
+
+    it('should group operations by path and tag', () => {
+      const document = {
+        openapi: '3.0.3',
+        info: { title: 'Breakdown API', version: '1.0.0' },
+        paths: {
+          '/users': {
+            get: {
+              tags: ['users'],
+              description: 'List all users in the system',
+              responses: {
+                '200': { description: 'OK' },
+                '500': { description: 'Error' },
+              },
+            },
+            post: { responses: { '201': { description: 'Created' } } },
+          },
+        },
+      } as OpenAPIV3.Document;
+
+      const byPath = buildBreakdown(document, 'path');
+      expect(byPath.entries).toHaveLength(1);
+      expect(byPath.entries[0]?.operations).toEqual([
+        'GET /users',
+        'POST /users',
+      ]);
+      expect(byPath.entries[0]?.failedChecks).toMatchObject({ security: 2 });
+
+      const byTag = buildBreakdown(document, 'tag');
+      expect(byTag.entries.map((e) => e.key)).toEqual(['(untagged)', 'users']);
+
+      const withoutSecurity = buildBreakdown(document, 'operation', {
+        disabledCriteria: ['security'],
+      });
+      expect(
+        withoutSecurity.entries.every((e) => !('security' in e.failedChecks)),
+      ).toBe(true);
+    });
+  });
+
+  describe('JSON Output', () => {
+    it('should write a versioned scoring report without the document', async () => {
+      const scorer = new OpenAPIScorer();
+      const validSpecPath = join(TEST_FIXTURES_DIR, 'good-openapi.yaml');
+      const outputPath = join(TEST_OUTPUT_DIR, 'test-report.json');
+
+      const result = await scorer.scoreSpec(validSpecPath, { by: 'path' });
+      await writeJsonReport(toJsonScoringReport(result), outputPath);
+
+      const report = JSON.parse(await readFile(outputPath, 'utf-8'));
+      expect(report).toMatchObject({
+        schemaVersion: JSON_REPORT_VERSION,
+        kind: 'scoring-result',
+        source: validSpecPath,
+        totalScore: result.totalScore,
+        grade: result.grade,
+        breakdown: { by: 'path' },
+      });
+      expect(report.api.openapi).toBe(
+        (result.document as OpenAPIV3.Document).openapi,
+      );
+      expect(report.criteria).toHaveLength(result.criteria.length);
+      expect(report.criteria[0].id).toBe('schema-types');
+      expect(report.criteria[0].findings[0].ruleId).toBeDefined();
+      expect('document' in report).toBe(false);
+    });
+
+    it('should convert validation results with their findings', async () => {
+      const validator = new OpenAPIValidator();
+      const invalidSpecPath = join(TEST_FIXTURES_DIR, 'broken-openapi.json');
+
+      const result = await validator.validateSpec(invalidSpecPath);
+      const report = toJsonValidationReport(result, invalidSpecPath);
+
+      expect(report.kind).toBe('validation-result');
+      expect(report.isValid).toBe(false);
+      expect(report.findings.length).toBeGreaterThan(0);
+      expect(report.api).toBeUndefined();
+      expect(JSON.parse(JSON.stringify(report)).errors).toEqual(result.errors);
+    });
+  });
+
+  describe('SARIF Output', () => {
+    it('should map scoring and validation findings to SARIF results', async () => {
+      const scorer = new OpenAPIScorer();
+      const validator = new OpenAPIValidator();
+      const minimalSpecPath = join(TEST_FIXTURES_DIR, 'minimal-openapi.json');
+
+      const result = await scorer.scoreSpec(minimalSpecPath);
+      const validation = await validator.validateSpec(minimalSpecPath);
+      const log = toSarifLog(result, validation, TEST_FIXTURES_DIR);
+
+      expect(log.version).toBe(SARIF_VERSION);
+      const run = log.runs[0];
+      const rules = run?.tool.driver.rules ?? [];
+      expect(rules.map((r) => r.id)).toEqual(BUILTIN_RULES.map((r) => r.id));
+
+      const results = run?.results ?? [];
+      expect(results).toHaveLength(
+        validation.findings.length +
+          result.criteria.flatMap((c) => c.findings).length,
+      );
+      results.forEach((r) => {
+        expect(rules[r.ruleIndex]?.id).toBe(r.ruleId);
+        expect(r.level === 'none').toBe(r.kind === 'informational');
+      });
+
+      const missingDescription = results.find(
+        (r) => r.ruleId === 'validation/missing-info-description',
+      );
+      expect(missingDescription?.level).toBe('warning');
+      expect(missingDescription?.locations[0]?.physicalLocation).toEqual({
+        artifactLocation: { uri: 'minimal-openapi.json' },
+        region: { startLine: 3, startColumn: 3 },
+      });
+    }, 15000);
+  });
+
+  describe('Quality Gates', () => {
+    const result = {
+      totalScore: 72,
+      grade: 'B',
+      criteria: [
+        {
+          ...createCriteriaScore({
+            name: 'Security',
+            score: 6,
+            maxScore: 10,
+            findings: [
+              {
+                ruleId: 'security/no-schemes',
+                severity: 'warn',
+                message: 'No security schemes defined',
+              },
+            ],
+          }),
+          id: 'security',
+        },
+      ],
+      feedback: [],
+      source: 'openapi.yaml',
+      document: {} as OpenAPIV3.Document,
+    } satisfies ScoringResult;
+
+    it('should pass when every gate is met', () => {
+      const failures = checkGates(result, {
+        minScore: 70,
+        minGrade: 'C',
+        minCriteria: [parseCriterionMinimum('security=60')],
+        failOn: 'error',
+      });
+
+      expect(failures).toEqual([]);
+      expect(gateExitCode(failures)).toBe(0);
+    });
+
+    it('should report each breached gate with a distinct exit code', () => {
+      const failures = checkGates(result, {
+        minScore: 80,
+        minGrade: 'A',
+        minCriteria: [
+          parseCriterionMinimum('Security=80%'),
+          parseCriterionMinimum('Examples=10'),
+        ],
+        failOn: 'warn',
+      });
+
+      expect(failures.map((f) => f.gate)).toEqual([
+        'min-score',
+        'min-grade',
+        'min-criterion',
+        'min-criterion',
+        'fail-on',
+      ]);
+      expect(gateExitCode(failures)).toBe(GATE_EXIT_CODES.score);
+      expect(gateExitCode(checkGates(result, { failOn: 'warn' }))).toBe(
+        GATE_EXIT_CODES.findings,
+      );
+    });
+
+    it('should pass criteria without applicable checks', () => {
+      const notApplicable = {
+        ...result,
+        criteria: [
+          {
+            ...createCriteriaScore({
+              name: 'Pagination',
+              score: 0,
+              maxScore: 0,
+              findings: [],
+            }),
+            id: 'pagination',
+          },
+        ],
+      } satisfies ScoringResult;
+
+      expect(
+        checkGates(notApplicable, {
+          minCriteria: [parseCriterionMinimum('pagination=50')],
+        }),
+      ).toEqual([]);
+    });
+
+    it('should reject invalid gate values', () => {
+      expect(() => parseCriterionMinimum('Security')).toThrow(
+        'Invalid criterion minimum',
+      );
+      expect(() => validateGates({ minScore: 120 })).toThrow('--min-score');
+      expect(() => validateGates({ minGrade: 'E' })).toThrow('--min-grade');
+      expect(() => validateGates({ failOn: 'info' as FailOnSeverity })).toThrow(
+        '--fail-on must be one of: error, warn, hint',
+      );
+    });
+  });
+
+  describe('Baseline', () => {
+    const scoreWith = (
+      findings: Finding[],
+      document = {} as OpenAPIV3.Document,
+    ) =>
+      ({
+        totalScore: 60,
+        grade: 'C',
+        criteria: [
+          {
+            ...createCriteriaScore({
+              name: 'Descriptions & Documentation',
+              score: 10,
+              maxScore: 20,
+              findings,
+            }),
+            id: 'descriptions',
+          },
+        ],
+        feedback: [],
+        source: 'openapi.yaml',
+        document,
+      }) satisfies ScoringResult;
+
+    const missing = (name: string, pointer: string): Finding => ({
+      ruleId: 'descriptions/operation-missing',
+      severity: 'warn',
+      message: 'Operation has no meaningful description',
+      suggestion: 'Describe what each operation does and when to use it',
+      target: { kind: 'operation', name },
+      pointer,
+    });
+
+    it('should only report findings that are not in the baseline', async () => {
+      const known = missing('GET /pets', '/paths/~1pets/get');
+      const coverage: Finding = {
+        ruleId: 'descriptions/operation-coverage',
+        severity: 'info',
+        message: '1/2 operations have descriptions',
+      };
+      const baselinePath = join(TEST_OUTPUT_DIR, 'test-baseline.json');
+      await writeBaseline(
+        createBaseline(scoreWith([known, coverage])),
+        baselinePath,
+      );
+
+      const baseline = await loadBaseline(baselinePath);
+      expect(baseline.findings).toEqual([
+        {
+          fingerprint: 'descriptions/operation-missing@/paths/~1pets/get',
+          ruleId: 'descriptions/operation-missing',
+          severity: 'warn',
+          message: 'Operation has no meaningful description',
+        },
+      ]);
+
+      const added = missing('GET /owners', '/paths/~1owners/get');
+      const { result, known: hidden } = applyBaseline(
+        scoreWith([known, added, coverage]),
+        baseline,
+      );
+
+      expect(hidden).toHaveLength(1);
+      expect(result.criteria[0]?.findings).toEqual([added, coverage]);
+      expect(result.criteria[0]?.score).toBe(10);
+      expect(checkGates(result, { failOn: 'warn' })).toHaveLength(1);
+
+      const { result: clean } = applyBaseline(scoreWith([known]), baseline);
+      expect(clean.criteria[0]?.findings).toEqual([]);
+      expect(clean.criteria[0]?.suggestions).toEqual([]);
+      expect(checkGates(clean, { failOn: 'warn' })).toEqual([]);
+    });
+
+    it('should fingerprint parameters by name rather than position', () => {
+      const withParameters = (names: string[]) =>
+        ({
+          openapi: '3.0.3',
+          info: { title: 'Pets', version: '1.0.0' },
+          paths: {
+            '/pets': {
+              get: {
+                parameters: names.map((name) => ({ name, in: 'query' })),
+                responses: {},
+              },
+            },
+          },
+        }) as OpenAPIV3.Document;
+      const undescribed = (index: number): Finding => ({
+        ruleId: 'descriptions/parameter-missing',
+        severity: 'warn',
+        message: 'Parameter "limit" has no description',
+        target: { kind: 'operation', name: 'GET /pets' },
+        pointer: `/paths/~1pets/get/parameters/${index}`,
+      });
+
+      const baseline = createBaseline(
+        scoreWith([undescribed(0)], withParameters(['limit', 'offset'])),
+      );
+      expect(baseline.findings[0]?.fingerprint).toBe(
+        'descriptions/parameter-missing@/paths/~1pets/get/parameters/query:limit',
+      );
+
+      const { known } = applyBaseline(
+        scoreWith([undescribed(1)], withParameters(['offset', 'limit'])),
+        baseline,
+      );
+      expect(known).toHaveLength(1);
+    });
+
+    it('should reject files that are not baselines', async () => {
+      const invalidPath = join(TEST_OUTPUT_DIR, 'test-baseline.json');
+      await writeFile(invalidPath, '{ "findings": [] }');
+
+      await expect(loadBaseline(invalidPath)).rejects.toThrow(
+        'Invalid baseline',
+      );
+      await expect(
+        loadBaseline(join(TEST_OUTPUT_DIR, 'missing-baseline.json')),
+      ).rejects.toThrow('Failed to load baseline');
+    });
+  });
+
+  describe('Watch Mode', () => {
+    it('should re-score when a referenced file changes', async () => {
+      const dir = join(TEST_OUTPUT_DIR, 'watch');
+      cpSync(join(TEST_FIXTURES_DIR, 'split'), join(dir, 'split'), {
+        recursive: true,
+      });
+      cpSync(
+        join(TEST_FIXTURES_DIR, 'split-openapi.yaml'),
+        join(dir, 'openapi.yaml'),
+      );
+
+      const runs: WatchRun[] = [];
+      let notify = () => {};
+      const watcher = new SpecWatcher(join(dir, 'openapi.yaml'), {
+        scorer: new OpenAPIScorer({ delays: false }),
+        validator: new OpenAPIValidator({ delays: false }),
+        onRun: (run) => {
+          runs.push(run);
+          notify();
+        },
+      });
+
+      try {
+        await watcher.start();
+        expect(runs).toHaveLength(1);
+        expect(watcher.watchedFiles).toContain(
+          join(dir, 'split', 'schemas.yaml'),
+        );
+
+        const rerun = new Promise<void>((resolve) => {
+          notify = resolve;
+        });
+        await writeFile(
+          join(dir, 'split', 'schemas.yaml'),
+          'Pet:\n  type: object\n',
+        );
+        await rerun;
+
+        const [first, second] = runs;
+        expect(second?.changed).toEqual([join(dir, 'split', 'schemas.yaml')]);
+        expect(second?.previous).toBe(first?.result as ScoringResult);
+        expect(second?.result?.totalScore).toBeLessThan(
+          first?.result?.totalScore ?? 0,
+        );
+        expect(formatWatchSummary(second as WatchRun, 'openapi.yaml')).toMatch(
+          /Score \d+\/100.*▼ -/,
+        );
+      } finally {
+        watcher.close();
+        rmSync(dir, { recursive: true });
+      }
+    });
+  });
+
+  describe('Library API', () => {
+    it('should score and validate in-memory documents silently', async () => {
+      const specPath = join(TEST_FIXTURES_DIR, 'good-openapi.yaml');
+      const document = load(
+        await readFile(specPath, 'utf-8'),
+      ) as OpenAPIV3.Document;
+      const original = structuredClone(document);
+      const logged = [
+        spyOn(consola, 'start'),
+        spyOn(consola, 'success'),
+        spyOn(console, 'log'),
+      ];
+
+      try {
+        const events: ProgressEvent[] = [];
+        const result = await scoreSpec(document, {
+          onProgress: (event) => events.push(event),
+        });
+        const fromFile = await scoreSpec(specPath);
+
+        expect(result.source).toBe('<document>');
+        expect(result.totalScore).toBe(fromFile.totalScore);
+        expect(document).toEqual(original);
+        expect(events[0]).toMatchObject({ step: 'parse', status: 'start' });
+        expect(events.at(-1)).toMatchObject({
+          step: 'error-model',
+          status: 'complete',
+          progress: { completed: 10, total: 10 },
+        });
+
+        expect((await validateSpec(document)).isValid).toBe(true);
+        const invalid = await validateSpec(
+          { openapi: '3.0.3' } as OpenAPIV3.Document,
+          { source: 'inline.yaml' },
+        );
+        expect(invalid.isValid).toBe(false);
+        expect(invalid.errors.length).toBeGreaterThan(0);
+
+        logged.forEach((spy) => {
+          expect(spy).not.toHaveBeenCalled();
+        });
+      } finally {
+        logged.forEach((spy) => {
+          spy.mockRestore();
+        });
+      }
+    });
+  });
+
+  describe('Report Formatters', () => {
+    it('should render results with registered and loaded formatters', async () => {
+      const specPath = join(TEST_FIXTURES_DIR, 'good-openapi.yaml');
+      const wiki = await loadFormatter(
+        join(TEST_FIXTURES_DIR, 'wiki-formatter.ts'),
+      );
+      const scorer = new OpenAPIScorer({
+        delays: false,
+        onProgress: silentProgress,
+        plugins: [{ name: 'wiki-plugin', evaluators: [], formatters: [wiki] }],
+      });
+      const result = await scorer.scoreSpec(specPath);
+
+      expect(scorer.formats).toEqual([
+        'markdown',
+        'html',
+        'json',
+        'sarif',
+        'wiki',
+      ]);
+      expect(await scorer.formatReport(result, 'wiki')).toContain(
+        `*Score:* ${result.totalScore}/100 (${result.grade})`,
+      );
+      expect(await scorer.formatReport(result, 'markdown')).toContain(
+        '# OpenAPI Specification Report',
+      );
+      const sarif = JSON.parse(
+        String(await scorer.formatReport(result, 'sarif')),
+      );
+      expect(sarif.version).toBe(SARIF_VERSION);
+
+      const bytes = defineFormatter({
+        name: 'bytes',
+        format: () => new TextEncoder().encode('binary'),
+      });
+      expect(await scorer.formatReport(result, bytes)).toBeInstanceOf(
+        Uint8Array,
+      );
+      expect(() => scorer.registerFormatter(wiki)).toThrow(
+        'Formatter "wiki" is already registered',
+      );
+      await expect(scorer.formatReport(result, 'confluence')).rejects.toThrow(
+        'Unknown format "confluence"',
+      );
+    });
+  });
+
+  describe('Spec Fixes', () => {
+    const fixablePath = join(TEST_FIXTURES_DIR, 'fixable-openapi.yaml');
+
+    it('should apply safe fixes without touching the rest of the file', async () => {
+      const content = await readFile(fixablePath, 'utf-8');
+      const result = applyFixes(content);
+
+      expect(result.applied.map((applied) => applied.fix)).toEqual([
+        'operation-ids',
+        'declare-tags',
+        'error-responses',
+      ]);
+      expect(formatUnifiedDiff(content, result.fixed, 'openapi.yaml')).toBe(
+        [
+          '--- a/openapi.yaml',
+          '+++ b/openapi.yaml',
+          '@@ -4,10 +4,12 @@',
+          '   version: "1.0.0"',
+          ' tags:',
+          '   - name: orders',
+          '+  - name: items',
+          ' paths:',
+          '   # Order lines',
+          '   /orderItems/{itemId}:',
+          '     get:',
+          '+      operationId: getOrderItemsByItemId',
+          '       summary: Get an order item',
+          '       tags: [orders, items]',
+          '       parameters:',
+          '@@ -18,6 +20,8 @@',
+          '       responses:',
+          "         '200':",
+          '           description: The order item',
+          "+        '500':",
+          "+          $ref: '#/components/responses/ServerError'",
+          '   /orders:',
+          '     get:',
+          '       operationId: listOrders',
+          '',
+        ].join('\n'),
+      );
+
+      const scorer = new OpenAPIScorer({
+        delays: false,
+        onProgress: silentProgress,
+      });
+      const before = await scorer.scoreSpec(fixablePath);
+      const after = await scorer.scoreDocument(
+        load(result.fixed) as OpenAPIV3.Document,
+        fixablePath,
+      );
+      expect(after.totalScore).toBeGreaterThan(before.totalScore);
+    });
+
+    it('should rename paths only when chosen and keep JSON valid', async () => {
+      const content = JSON.stringify(
+        load(await readFile(fixablePath, 'utf-8')),
+        null,
+        2,
+      );
+
+      expect(DEFAULT_FIXES).not.toContain('path-case');
+      const result = applyFixes(content, ['path-case', 'operation-ids']);
+      const fixed = JSON.parse(result.fixed) as OpenAPIV3.Document;
+
+      expect(Object.keys(fixed.paths)).toEqual([
+        '/order-items/{itemId}',
+        '/orders',
+      ]);
+      expect(fixed.paths['/order-items/{itemId}']?.get?.operationId).toBe(
+        'getOrderItemsByItemId',
+      );
+      expect(() =>
+        applyFixes(
+          'swagger: "2.0"\ninfo: { title: T, version: "1" }\npaths: {}\n',
+        ),
+      ).toThrow('Only OpenAPI 3 documents can be fixed');
+    });
+  });
+
+  describe('Naming Consistency', () => {
+    const namingSpecPath = join(TEST_FIXTURES_DIR, 'naming-openapi.yaml');
+    const namingIssues = (result: ScoringResult) =>
+      (result.criteria.find((c) => c.id === 'naming')?.findings ?? [])
+        .filter((f) => f.severity !== 'info')
+        .map((f) => `${f.ruleId}: ${f.message}`);
+
+    it('should check names against the conventions most of them follow', async () => {
+      const scorer = new OpenAPIScorer({
+        delays: false,
+        onProgress: silentProgress,
+      });
+      const result = await scorer.scoreSpec(namingSpecPath);
+
+      expect(namingIssues(result)).toEqual([
+        'naming/operation-id-duplicate: operationId "listOrders" is also used by GET /orders',
+        'naming/operation-id-casing: operationId "get_order" is not camelCase; expected "getOrder"',
+        'naming/property-casing: Property "total_price" is not camelCase; expected "totalPrice"',
+        'naming/parameter-casing: Query parameter "sort_by" is not camelCase; expected "sortBy"',
+        'naming/parameter-casing: Header parameter "x-trace-id" is not Train-Case; expected "X-Trace-Id"',
+        'naming/schema-casing: Schema name "order_item" is not PascalCase; expected "OrderItem"',
+      ]);
+      expect(
+        result.criteria.find((c) => c.id === 'naming')?.findings,
+      ).toContainEqual(
+        expect.objectContaining({
+          ruleId: 'naming/property-casing',
+          pointer: '/components/schemas/Order/properties/total_price',
+          target: { kind: 'component', name: 'schemas/Order' },
+        }),
+      );
+    });
+
+    it('should use configured conventions and reject unknown ones', async () => {
+      const scorer = new OpenAPIScorer({
+        delays: false,
+        onProgress: silentProgress,
+        config: { naming: { properties: 'snake_case' } },
+      });
+      const result = await scorer.scoreSpec(namingSpecPath);
+
+      expect(
+        namingIssues(result).filter((issue) =>
+          issue.startsWith('naming/property-casing'),
+        ),
+      ).toEqual([
+        'naming/property-casing: Property "orderId" is not snake_case; expected "order_id"',
+        'naming/property-casing: Property "createdAt" is not snake_case; expected "created_at"',
+      ]);
+      expect(() => validateConfig({ naming: { properties: 'camel' } })).toThrow(
+        'naming.properties must be one of',
+      );
+    });
+  });
+
+  describe('Pagination & Collections', () => {
+    it('should check collection endpoints for consistent pagination', async () => {
+      const scorer = new OpenAPIScorer({
+        delays: false,
+        onProgress: silentProgress,
+      });
+      const result = await scorer.scoreSpec(
+        join(TEST_FIXTURES_DIR, 'pagination-openapi.yaml'),
+      );
+      const pagination = result.criteria.find((c) => c.id === 'pagination');
+
+      expect(
+        pagination?.findings
+          .filter((f) => f.severity !== 'info')
+          .map((f) => `${f.target?.name}: ${f.message}`),
+      ).toEqual([
+        'GET /products: Collection endpoint is not paginated',
+        'GET /refunds: Collection endpoint is not paginated',
+        'GET /invoices: Uses page pagination; other collection endpoints use cursor pagination',
+        'GET /customers: Page size parameter "limit" has no maximum',
+        'GET /products: Collection endpoint has no page size parameter',
+        'GET /refunds: Collection endpoint has no page size parameter',
+        'GET /customers: Collection response is a bare array without a next link or total',
+        'GET /products: Collection response is a bare array without a next link or total',
+        'GET /refunds: Collection response has no next link or total',
+        'GET /customers: Uses "sort_by"; other collection endpoints use "sort"',
+      ]);
+      // `/refunds` has no response schema but a collection-style path
+      expect(pagination?.feedback).toContain(
+        '3/5 collection endpoints are paginated',
+      );
+      expect(pagination?.maxScore).toBe(10);
+
+      // Unpaginated collections still earn the page size points they meet
+      const unpaginated = await scorer.scoreSpec(
+        join(TEST_FIXTURES_DIR, 'good-openapi.yaml'),
+      );
+      expect(
+        unpaginated.criteria.find((c) => c.id === 'pagination'),
+      ).toMatchObject({ score: 2, maxScore: 7 });
+
+      const withoutCollections = await scorer.scoreSpec(
+        join(TEST_FIXTURES_DIR, 'ref-openapi.yaml'),
+      );
+      expect(
+        withoutCollections.criteria.find((c) => c.id === 'pagination')
+          ?.maxScore,
+      ).toBe(0);
+    });
+  });
+
+  describe('Error Model', () => {
+    it('should check error bodies against the dominant error model', async () => {
+      const scorer = new OpenAPIScorer({
+        delays: false,
+        onProgress: silentProgress,
+      });
+      const result = await scorer.scoreSpec(
+        join(TEST_FIXTURES_DIR, 'error-model-openapi.yaml'),
+      );
+      const errorModel = result.criteria.find((c) => c.id === 'error-model');
+
+      expect(
+        errorModel?.findings
+          .filter((f) => f.severity !== 'info')
+          .map((f) => `${f.ruleId} ${f.target?.name ?? '-'}: ${f.message}`),
+      ).toEqual([
+        'error-model/missing-schema GET /pets/{petId}: Error response 404 has no body schema',
+        'error-model/default-only DELETE /pets/{petId}: Errors are only described by the default response',
+        'error-model/divergent-shape POST /pets: Error response 409 has the shape { error, message } instead of the shared model application/problem+json',
+        'error-model/missing-fields -: The error model application/problem+json has no type field',
+      ]);
+      expect(errorModel?.feedback).toContain(
+        '4/5 error bodies use application/problem+json',
+      );
+      expect(
+        errorModel?.findings.find(
+          (f) => f.ruleId === 'error-model/divergent-shape',
+        )?.pointer,
+      ).toBe('/paths/~1pets/post/responses/409');
+
+      const suppressed = await new OpenAPIScorer({
+        suppressions: [
+          { rule: 'error-model/missing-fields', pointer: '', source: 'inline' },
+        ],
+        delays: false,
+        onProgress: silentProgress,
+      }).scoreSpec(join(TEST_FIXTURES_DIR, 'error-model-openapi.yaml'));
+      const withoutFields = suppressed.criteria.find(
+        (c) => c.id === 'error-model',
+      );
+      expect(withoutFields?.maxScore).toBe((errorModel?.maxScore ?? 0) - 2);
+      expect(withoutFields?.percentage).toBeGreaterThan(
+        errorModel?.percentage ?? 0,
+      );
+    });
+  });
+
+  describe('Batch Mode', () => {
+    const validSpecPath = join(TEST_FIXTURES_DIR, 'good-openapi.yaml');
+    const minimalSpecPath = join(TEST_FIXTURES_DIR, 'minimal-openapi.json');
+
+    it('should expand directories and globs to specifications', async () => {
+      const directory = await expandInputs([TEST_FIXTURES_DIR]);
+      expect(directory.batch).toBe(true);
+      expect(directory.sources).toContain(
+        join(TEST_FIXTURES_DIR, 'split-openapi.yaml'),
+      );
+      // `$ref` targets and other YAML files are not specifications
+      expect(directory.sources).not.toContain(
+        join(TEST_FIXTURES_DIR, 'split', 'pets.yaml'),
+      );
+      expect(directory.sources).not.toContain(
+        join(TEST_FIXTURES_DIR, 'weighted-config.yaml'),
+      );
+
+      const glob = await expandInputs([
+        `${TEST_FIXTURES_DIR}/**/{good,swagger2}-*.yaml`,
+      ]);
+      expect(glob.sources).toEqual([
+        join(TEST_FIXTURES_DIR, 'good-openapi-31.yaml'),
+        join(TEST_FIXTURES_DIR, 'good-openapi-v2.yaml'),
+        join(TEST_FIXTURES_DIR, 'good-openapi.yaml'),
+        join(TEST_FIXTURES_DIR, 'swagger2-petstore.yaml'),
+      ]);
+
+      expect(await expandInputs([validSpecPath])).toEqual({
+        sources: [validSpecPath],
+        batch: false,
+      });
+      // Globs skip files without a specification root key too
+      const yamlFiles = await expandInputs([`${TEST_FIXTURES_DIR}/*.yaml`]);
+      expect(yamlFiles.sources).toContain(validSpecPath);
+      expect(yamlFiles.sources).not.toContain(
+        join(TEST_FIXTURES_DIR, 'weighted-config.yaml'),
+      );
+      expect(yamlFiles.sources).not.toContain(
+        join(TEST_FIXTURES_DIR, 'specscoreignore.yaml'),
+      );
+
+      await expect(
+        expandInputs([`${TEST_FIXTURES_DIR}/*.raml`]),
+      ).rejects.toThrow('No specifications found');
+    });
+
+    it('should aggregate several specifications into a portfolio', async () => {
+      const scorer = new OpenAPIScorer({ delays: false });
+      const sources = [
+        validSpecPath,
+        minimalSpecPath,
+        join(TEST_FIXTURES_DIR, 'asyncapi-2.yaml'),
+        join(TEST_FIXTURES_DIR, 'missing.yaml'),
+      ];
+      const outcomes = await mapConcurrent(sources, 2, async (source) =>
+        scorer
+          .scoreSpec(source)
+          .then((result) => ({ source, result }))
+          .catch((error: Error) => ({ source, error: error.message })),
+      );
+
+      const portfolio = buildPortfolio(outcomes);
+      const [good, minimal, events] = portfolio.apis;
+      expect(portfolio.apis.map((api) => api.source)).toEqual(
+        sources.slice(0, 3),
+      );
+      expect(portfolio.totalScore).toBe(
+        Math.round(
+          ((good?.totalScore ?? 0) +
+            (minimal?.totalScore ?? 0) +
+            (events?.totalScore ?? 0)) /
+            3,
+        ),
+      );
+      expect(portfolio.worst.map((api) => api.source)).toEqual([
+        minimalSpecPath,
+      ]);
+      expect(portfolio.failed).toEqual([
+        expect.objectContaining({ source: sources[3] }),
+      ]);
+      expect(portfolio.criteria.find((c) => c.id === 'security')).toMatchObject(
+        { format: 'OpenAPI', apis: 2 },
+      );
+      expect(
+        portfolio.criteria.find((c) => c.id === 'async-security'),
+      ).toMatchObject({ format: 'AsyncAPI', apis: 1 });
+
+      const markdown = formatPortfolioMarkdown(portfolio);
+      expect(markdown).toContain('| Security (AsyncAPI) |');
+      expect(markdown).toContain('## Not Scored');
+      expect(toJsonPortfolioReport(portfolio)).toMatchObject({
+        kind: 'portfolio',
+        totalScore: portfolio.totalScore,
+      });
+    });
+  });
+
+  describe('Spec Diff', () => {
+    it('should report score deltas, finding changes and contract changes', async () => {
+      const scorer = new OpenAPIScorer();
+      const oldResult = await scorer.scoreSpec(
+        join(TEST_FIXTURES_DIR, 'good-openapi.yaml'),
+      );
+      const newResult = await scorer.scoreSpec(
+        join(TEST_FIXTURES_DIR, 'good-openapi-v2.yaml'),
+      );
+
+      const diff = diffSpecs(oldResult, newResult);
+
+      expect(diff.delta).toBe(newResult.totalScore - oldResult.totalScore);
+      expect(diff.delta).toBeLessThan(0);
+      const responseCodes = diff.criteria.find(
+        (c) => c.id === 'response-codes',
+      );
+      expect(responseCodes?.delta).toBeLessThan(0);
+
+      expect(
+        diff.findings.introduced.map((f) => `${f.ruleId} ${f.target?.name}`),
+      ).toContain('descriptions/operation-missing GET /owners');
+      expect(diff.findings.resolved.map((f) => f.ruleId)).toContain(
+        'examples/response-missing',
+      );
+
+      expect(diff.changes.paths.added).toEqual(['/owners']);
+      expect(diff.changes.operations).toEqual({
+        added: ['GET /owners'],
+        removed: [],
+        // POST /pets returns the changed Pet schema through a $ref
+        changed: ['GET /pets', 'POST /pets', 'GET /pets/{petId}'],
+      });
+      expect(diff.changes.schemas.changed).toEqual(['Pet', 'Pets']);
+
+      const markdown = formatDiffMarkdown(diff);
+      expect(markdown).toContain('# OpenAPI Score Diff');
+      expect(markdown).toContain('- Added `GET /owners`');
+    }, 15000);
+  });
+
+  describe('Breaking Changes', () => {
+    it('should classify changes between two documents', async () => {
+      const parser = new OpenAPIParser();
+      const base = (await parser.parse(
+        join(TEST_FIXTURES_DIR, 'good-openapi.yaml'),
+      )) as OpenAPIV3.Document;
+      const head = (await parser.parse(
+        join(TEST_FIXTURES_DIR, 'good-openapi-v2.yaml'),
+      )) as OpenAPIV3.Document;
+
+      const changes = detectChanges(base, head);
+      const byKey = Object.fromEntries(changes.map((c) => [c.key, c]));
+
+      expect(byKey['response-removed GET /pets/{petId} 404']).toMatchObject({
+        breaking: true,
+        side: 'base',
+        pointer: '/paths/~1pets~1{petId}/get/responses/404',
+      });
+      expect(
+        byKey['parameter-required GET /pets parameter query.limit']?.breaking,
+      ).toBe(true);
+      expect(
+        byKey['type-changed GET /pets/{petId} response 200 tag']?.breaking,
+      ).toBe(true);
+      expect(byKey['operation-added GET /owners']?.breaking).toBe(false);
+
+      const approved = detectChanges(base, {
+        ...head,
+        [APPROVED_CHANGES_EXTENSION]: [
+          'response-removed GET /pets/{petId} 404',
+        ],
+      } as OpenAPIV3.Document);
+      expect(getUnapprovedBreakingChanges(approved)).toHaveLength(
+        getUnapprovedBreakingChanges(changes).length - 1,
+      );
+    });
+
+    it('should detect narrowed enums, removed properties and tightened security', () => {
+      const document = (
+        status: string[],
+        properties: Record<string, OpenAPIV3.SchemaObject>,
+        security: OpenAPIV3.SecurityRequirementObject[],
+      ) =>
+        ({
+          openapi: '3.0.3',
+          info: { title: 'Orders API', version: '1.0.0' },
+          paths: {
+            '/orders': {
+              post: {
+                security,
+                requestBody: {
+                  content: {
+                    'application/json': {
+                      schema: {
+                        type: 'object',
+                        properties: {
+                          status: { type: 'string', enum: status },
+                        },
+                      },
+                    },
+                  },
+                },
+                responses: {
+                  '201': {
+                    description: 'Created',
+                    content: {
+                      'application/json': {
+                        schema: { type: 'object', properties },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        }) as OpenAPIV3.Document;
+
+      const changes = detectChanges(
+        document(
+          ['open', 'closed'],
+          { id: { type: 'string' }, total: { type: 'number' } },
+          [{}, { apiKey: [] }],
+        ),
+        document(['closed', 'held'], { id: { type: 'string' } }, [
+          { oauth: ['orders:write'] },
+        ]),
+      );
+
+      expect(changes.map((c) => [c.kind, c.breaking]).sort()).toEqual([
+        ['enum-narrowed', true],
+        ['enum-widened', false],
+        ['property-removed', true],
+        ['security-tightened', true],
+      ]);
+    });
+    it('should follow references into split files', async () => {
+      const dir = join(TEST_OUTPUT_DIR, 'breaking-split');
+      cpSync(join(TEST_FIXTURES_DIR, 'split'), join(dir, 'split'), {
+        recursive: true,
+      });
+      cpSync(
+        join(TEST_FIXTURES_DIR, 'split-openapi.yaml'),
+        join(dir, 'openapi.yaml'),
+      );
+      await writeFile(join(dir, 'split', 'pets.yaml'), 'pets: {}\n', 'utf-8');
+
+      try {
+        const parser = new OpenAPIParser();
+        const changes = detectSpecChanges(
+          await parser.load(join(TEST_FIXTURES_DIR, 'split-openapi.yaml')),
+          await parser.load(join(dir, 'openapi.yaml')),
+        );
+
+        expect(changes.map((c) => [c.key, c.breaking])).toEqual([
+          ['operation-removed GET /pets', true],
+        ]);
+        expect(changes[0]?.location).toMatchObject({
+          file: join(TEST_FIXTURES_DIR, 'split', 'pets.yaml'),
+          line: 2,
+        });
+      } finally {
+        rmSync(dir, { recursive: true });
+      }
+    });
+  });
+
+  describe('Suppressions', () => {
+    it('should leave suppressed checks out of the score and list them', async () => {
+      const ignoreFile = join(TEST_FIXTURES_DIR, 'specscoreignore.yaml');
+      const scorer = new OpenAPIScorer({
+        suppressions: await loadIgnoreFile(ignoreFile),
+      });
+
+      const result = await scorer.scoreSpec(
+        join(TEST_FIXTURES_DIR, 'suppressed-openapi.yaml'),
+      );
+
+      const suppressed = result.suppressed ?? [];
+      expect(suppressed.map((f) => f.ruleId).sort()).toEqual([
+        'best-practices/no-servers',
+        'best-practices/operation-missing-tags',
+        'response-codes/missing-error',
+        'response-codes/single-response',
+      ]);
+      expect(
+        suppressed.find(
+          (f) => f.ruleId === 'best-practices/operation-missing-tags',
+        ),
+      ).toMatchObject({
+        target: { name: 'GET /health' },
+        suppression: { source: 'inline', reason: 'Infrastructure endpoint' },
+      });
+      expect(
+        suppressed.find((f) => f.ruleId === 'response-codes/missing-error')
+          ?.suppression,
+      ).toMatchObject({ source: ignoreFile, pointer: '/paths/~1status/get' });
+
+      const remaining = result.criteria.flatMap((c) => c.findings);
+      expect(
+        remaining.some((f) => f.ruleId === 'best-practices/no-servers'),
+      ).toBe(false);
+      expect(
+        remaining.filter(
+          (f) => f.ruleId === 'best-practices/operation-missing-tags',
+        ),
+      ).toHaveLength(1);
+
+      const bestPractices = result.criteria.find(
+        (c) => c.id === 'best-practices',
+      );
+      expect(bestPractices?.maxScore).toBe(8);
+
+      const sarif = toSarifLog(result);
+      const sarifSuppressions = sarif.runs[0]?.results.flatMap(
+        (r) => r.suppressions ?? [],
+      );
+      expect(sarifSuppressions).toContainEqual({
+        kind: 'inSource',
+        justification: 'Servers are injected by the gateway',
+      });
+      expect(sarifSuppressions).toContainEqual({
+        kind: 'external',
+        justification: 'Probes only ever return 200',
+      });
+    }, 15000);
+
+    it('should apply an inline suppression at every reference to it', async () => {
+      const scorer = new OpenAPIScorer({
+        delays: false,
+        onProgress: silentProgress,
+      });
+
+      const result = await scorer.scoreSpec(
+        join(TEST_FIXTURES_DIR, 'shared-suppression-openapi.yaml'),
+      );
+
+      expect(
+        (result.suppressed ?? [])
+          .filter((f) => f.ruleId === 'descriptions/parameter-missing')
+          .map((f) => f.pointer),
+      ).toEqual(['/paths/~1a/get/parameters/0', '/paths/~1b/get/parameters/0']);
+      expect(
+        result.criteria
+          .flatMap((c) => c.findings)
+          .some((f) => f.ruleId === 'descriptions/parameter-missing'),
+      ).toBe(false);
+    });
+
+    it('should match rules by id, criterion wildcard and pointer prefix', async () => {
+      const suppressions = new Suppressions([
+        { rule: 'examples/*', pointer: '/paths/~1pets', source: 'inline' },
+        { rule: 'security/no-schemes', pointer: '', source: 'inline' },
+      ]);
+
+      expect(
+        suppressions.isSuppressed(
+          'examples/response-missing',
+          '/paths/~1pets/get/responses/200',
+        ),
+      ).toBe(true);
+      expect(
+        suppressions.isSuppressed(
+          'examples/response-missing',
+          '/paths/~1pets-archive/get',
+        ),
+      ).toBe(false);
+      expect(
+        suppressions.isSuppressed('descriptions/path-missing', '/paths/~1pets'),
+      ).toBe(false);
+      expect(suppressions.isSuppressed('security/no-schemes')).toBe(true);
+
+      const invalidFile = join(TEST_OUTPUT_DIR, 'invalid-ignore.yaml');
+      await writeFile(invalidFile, '- security/no-schemes\n');
+      try {
+        await expect(loadIgnoreFile(invalidFile)).rejects.toThrow(
+          'Invalid ignore file',
+        );
+      } finally {
+        rmSync(invalidFile);
+      }
+    });
+  });
+
+  describe('Evaluator Plugins', () => {
+    it('should load a plugin module and include its criteria', async () => {
+      const plugin = await loadPlugin(
+        join(TEST_FIXTURES_DIR, 'house-rules-plugin.ts'),
+      );
+      const scorer = new OpenAPIScorer({ plugins: [plugin] });
+      const validSpecPath = join(TEST_FIXTURES_DIR, 'good-openapi.yaml');
+
+      const result = await scorer.scoreSpec(validSpecPath);
+
+      expect(plugin.name).toBe('house-rules');
+      expect(result.criteria).toHaveLength(11);
+      const contact = result.criteria.find(
+        (c) => c.name === 'Contact Information',
+      );
+      expect(contact?.score).toBe(10);
+      expect(result.totalScore).toBeLessThanOrEqual(100);
+    });
+
+    it('should normalise the total score when evaluators are registered from code', async () => {
+      const scorer = new OpenAPIScorer().registerEvaluator({
+        id: 'always-zero',
+        label: 'Running failing check',
+        evaluate: () =>
+          createCriteriaScore({
+            name: 'Always Zero',
+            score: 0,
+            maxScore: 100,
+            findings: [],
+          }),
+      });
+      const validSpecPath = join(TEST_FIXTURES_DIR, 'good-openapi.yaml');
+
+      const result = await scorer.scoreSpec(validSpecPath);
+      const builtin = result.criteria.filter((c) => c.id !== 'always-zero');
+      const builtinScore = builtin.reduce((sum, c) => sum + c.score, 0);
+      const builtinMax = builtin.reduce((sum, c) => sum + c.maxScore, 0);
+
+      expect(result.totalScore).toBe(
+        Math.round((builtinScore / (builtinMax + 100)) * 100),
+      );
+    });
+
+    it('should reject duplicate evaluator ids', () => {
+      const scorer = new OpenAPIScorer();
+
+      expect(() =>
+        scorer.registerEvaluator({
+          id: 'security',
+          label: 'Duplicate',
+          evaluate: () => {
+            throw new Error('unreachable');
+          },
+        }),
+      ).toThrow('already registered');
+    });
+
+    it('should report plugin modules that cannot be loaded', async () => {
+      await expect(
+        loadPlugin(join(TEST_FIXTURES_DIR, 'does-not-exist.ts')),
+      ).rejects.toThrow('Failed to load plugin');
+    });
+  });
+
+  describe('Project Configuration', () => {
+    it('should discover a config file in a parent directory', async () => {
+      const nestedDir = join(TEST_OUTPUT_DIR, 'config-discovery', 'nested');
+      mkdirSync(nestedDir, { recursive: true });
+      const configPath = join(
+        TEST_OUTPUT_DIR,
+        'config-discovery',
+        '.specscorerc',
+      );
+      await writeFile(configPath, '{ "grades": { "A": 95 } }');
+
+      try {
+        expect(await findConfig(nestedDir)).toBe(configPath);
+        expect((await loadConfig(configPath)).grades?.A).toBe(95);
+      } finally {
+        rmSync(join(TEST_OUTPUT_DIR, 'config-discovery'), { recursive: true });
+      }
+    });
+
+    it('should reweight, disable criteria and apply grade boundaries', async () => {
+      const config = await loadConfig(
+        join(TEST_FIXTURES_DIR, 'weighted-config.yaml'),
+      );
+      const scorer = new OpenAPIScorer({ config });
+      const validSpecPath = join(TEST_FIXTURES_DIR, 'good-openapi.yaml');
+
+      const result = await scorer.scoreSpec(validSpecPath);
+
+      const criteriaNames = result.criteria.map((c) => c.name);
+      expect(criteriaNames).not.toContain('Examples & Samples');
+      expect(result.criteria).toHaveLength(9);
+
+      const schemaScore = result.criteria.find(
+        (c) => c.name === 'Schema & Types',
+      );
+      expect(schemaScore?.maxScore).toBe(40);
+
+      const score = result.criteria.reduce((sum, c) => sum + c.score, 0);
+      const maxScore = result.criteria.reduce((sum, c) => sum + c.maxScore, 0);
+      expect(result.totalScore).toBe(Math.round((score / maxScore) * 100));
+      if (result.totalScore < 90) {
+        expect(result.grade).not.toBe('A');
+      }
+    });
+
+    it('should keep criteria without applicable checks out of a reweighted total', async () => {
+      const specPath = join(TEST_FIXTURES_DIR, 'ref-openapi.yaml');
+      const unweighted = await new OpenAPIScorer({
+        delays: false,
+        onProgress: silentProgress,
+      }).scoreSpec(specPath);
+      const weighted = await new OpenAPIScorer({
+        config: { criteria: { pagination: { weight: 10 } } },
+        delays: false,
+        onProgress: silentProgress,
+      }).scoreSpec(specPath);
+
+      const pagination = weighted.criteria.find((c) => c.id === 'pagination');
+      expect(pagination).toMatchObject({ score: 0, maxScore: 0 });
+      expect(weighted.totalScore).toBe(unweighted.totalScore);
+      expect(weighted.feedback.join('\n')).not.toContain('Pagination');
+    });
+
+    it('should reject invalid config values', () => {
+      expect(() => validateConfig({ grades: { A: 50, B: 70 } })).toThrow(
+        'grade boundaries',
+      );
+      expect(() =>
+        validateConfig({ criteria: { security: { weight: -1 } } }),
+      ).toThrow('criteria.security.weight');
+      expect(() =>
+        validateConfig({ thresholds: { unknownThreshold: 1 } }),
+      ).toThrow('unknown threshold');
+    });
+  });
+
   describe('URL-based specification handling', () => {
     it('should handle mock HTTP response', async () => {
       const mockSpec = {
@@ -257,6 +2043,37 @@ describe('Integration Tests', () => {
         securityScore?.feedback.some((f) => f.includes('security scheme')),
       ).toBe(true);
     });
+
+    it('should report each security issue with its severity and location', async () => {
+      const scorer = new OpenAPIScorer({
+        delays: false,
+        onProgress: silentProgress,
+      });
+      const result = await scorer.scoreSpec(
+        join(TEST_FIXTURES_DIR, 'insecure-openapi.yaml'),
+      );
+      const issues = result.criteria
+        .find((c) => c.id === 'security')
+        ?.findings.filter((f) => f.severity !== 'info');
+
+      expect(
+        issues?.map((f) => [f.ruleId, f.severity, f.location?.line]),
+      ).toEqual([
+        ['security/write-opt-out', 'warn', 21],
+        ['security/undeclared-scope', 'error', 34],
+        ['security/undefined-scheme', 'error', 41],
+        ['security/api-key-in-query', 'warn', 47],
+        ['security/flow-missing-url', 'error', 54],
+        ['security/unused-scheme', 'warn', 58],
+        ['security/insecure-server', 'warn', 6],
+      ]);
+      expect(issues?.map((f) => f.message)).toContain(
+        'Scope(s) "admin" not declared by any flow of "OAuth"',
+      );
+      expect(issues?.map((f) => f.message)).toContain(
+        'OAuth2 authorizationCode flow has no tokenUrl',
+      );
+    });
   });
 
   describe('Performance and Error Handling', () => {
@@ -283,6 +2100,7 @@ describe('Integration Tests', () => {
 
       expect(result.isValid).toBe(false);
       expect(result.errors[0]).toContain('Failed to parse');
+      expect(result.findings[0]?.location?.line).toBe(1);
 
       unlinkSync(malformedPath);
     });
@@ -303,4 +2121,118 @@ describe('Integration Tests', () => {
       unlinkSync(malformedPath);
     });
   });
+
+  describe('Package', () => {
+    const packageRoot = join(__dirname, '..', '..');
+    const consumerDir = join(TEST_OUTPUT_DIR, 'package-consumer');
+
+    beforeAll(() => {
+      // The published entry points, built as `bun run build` does
+      ['build:cli', 'build:lib'].forEach((script) => {
+        execFileSync('bun', ['run', script], {
+          cwd: packageRoot,
+          stdio: 'ignore',
+        });
+      });
+      mkdirSync(join(consumerDir, 'node_modules'), { recursive: true });
+      if (!existsSync(join(consumerDir, 'node_modules', 'spec-score'))) {
+        symlinkSync(
+          packageRoot,
+          join(consumerDir, 'node_modules', 'spec-score'),
+        );
+      }
+    });
+
+    afterAll(() => {
+      rmSync(consumerDir, { recursive: true, force: true });
+    });
+
+    it('should import the library under Node without running the CLI', async () => {
+      const script = join(consumerDir, 'score.mjs');
+      await writeFile(
+        script,
+        `import { scoreSpec } from 'spec-score';
+const result = await scoreSpec(${JSON.stringify(join(TEST_FIXTURES_DIR, 'good-openapi.yaml'))});
+console.log(JSON.stringify({ grade: result.grade }));
+`,
+      );
+
+      const output = execFileSync('node', [script], {
+        cwd: consumerDir,
+        encoding: 'utf-8',
+      });
+
+      expect(JSON.parse(output)).toEqual({ grade: 'A' });
+    }, 15000);
+
+    it('should load TypeScript plugins, formatters and configs in the built CLI under Node', async () => {
+      await writeFile(
+        join(consumerDir, 'rules.ts'),
+        `import { createCriteriaScore, definePlugin } from 'spec-score';
+import type { OpenAPIV3 } from 'openapi-types';
+
+export default definePlugin({
+  name: 'house-rules',
+  evaluators: [
+    {
+      id: 'house-contact',
+      label: 'Checking contact information',
+      evaluate: (document: OpenAPIV3.Document) =>
+        createCriteriaScore({
+          name: 'Contact Information',
+          score: document.info.contact?.email ? 10 : 0,
+          maxScore: 10,
+          findings: [],
+        }),
+    },
+  ],
+});
+`,
+      );
+      await writeFile(
+        join(consumerDir, 'summary.ts'),
+        `import { defineFormatter } from 'spec-score';
+
+export default defineFormatter({
+  name: 'summary',
+  format: (result) =>
+    JSON.stringify({
+      grade: result.grade,
+      criteria: result.criteria.map((c) => c.id),
+    }),
+});
+`,
+      );
+      await writeFile(
+        join(consumerDir, 'specscore.config.ts'),
+        `import { defineConfig } from 'spec-score';
+
+export default defineConfig({ grades: { A: 100, B: 99, C: 98, D: 97 } });
+`,
+      );
+
+      const output = execFileSync(
+        'node',
+        [
+          join(packageRoot, 'dist', 'index.js'),
+          'report',
+          join(TEST_FIXTURES_DIR, 'good-openapi.yaml'),
+          '--plugin',
+          './rules.ts',
+          '--format',
+          './summary.ts',
+        ],
+        {
+          cwd: consumerDir,
+          encoding: 'utf-8',
+          stdio: ['ignore', 'pipe', 'ignore'],
+        },
+      );
+
+      const summary = JSON.parse(output);
+      expect(summary.criteria).toContain('house-contact');
+      // The discovered config's grade boundaries apply
+      expect(summary.grade).toBe('F');
+    }, 15000);
+  });
 });